@@ -0,0 +1,67 @@
+// Pitch shifter AudioWorklet processor
+// Two read taps sweep through a short delay line at a speed set by the pitch
+// ratio and are crossfaded with sin² windows, which changes pitch without
+// changing tempo. With a ratio of 1 the output is the input delayed by
+// LATENCY samples, so every stem routed through a shifter stays aligned.
+
+const WINDOW_SIZE = 2048;
+const BUFFER_SIZE = 4096; // power of two, larger than the window
+const LATENCY = WINDOW_SIZE / 2 + 1; // mirrored as PITCH_SHIFT_LATENCY_SAMPLES in audioEngine.ts
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'pitchRatio', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.buffers = [new Float32Array(BUFFER_SIZE), new Float32Array(BUFFER_SIZE)];
+    this.writeIndex = 0;
+    this.delay = 0; // first tap's delay within the window, in samples
+  }
+
+  // Linear-interpolated read `distance` samples behind the write head
+  read(buffer, distance) {
+    let position = this.writeIndex - distance;
+    if (position < 0) position += BUFFER_SIZE;
+
+    const index = Math.floor(position);
+    const fraction = position - index;
+    return buffer[index & (BUFFER_SIZE - 1)] * (1 - fraction) +
+      buffer[(index + 1) & (BUFFER_SIZE - 1)] * fraction;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ratio = parameters.pitchRatio[0];
+    const halfWindow = WINDOW_SIZE / 2;
+
+    // Park the taps so the second one alone plays at exactly LATENCY
+    if (ratio === 1) this.delay = 0;
+    const step = 1 - ratio;
+
+    for (let i = 0; i < output[0].length; i++) {
+      const delayA = this.delay;
+      const delayB = delayA >= halfWindow ? delayA - halfWindow : delayA + halfWindow;
+      const gainA = Math.sin((Math.PI * delayA) / WINDOW_SIZE) ** 2;
+      const gainB = 1 - gainA;
+
+      for (let c = 0; c < output.length; c++) {
+        const buffer = this.buffers[c] || (this.buffers[c] = new Float32Array(BUFFER_SIZE));
+        const channel = input[c] || input[0];
+        buffer[this.writeIndex] = channel ? channel[i] : 0;
+        output[c][i] = this.read(buffer, delayA + 1) * gainA + this.read(buffer, delayB + 1) * gainB;
+      }
+
+      this.writeIndex = (this.writeIndex + 1) & (BUFFER_SIZE - 1);
+      this.delay += step;
+      if (this.delay >= WINDOW_SIZE) this.delay -= WINDOW_SIZE;
+      else if (this.delay < 0) this.delay += WINDOW_SIZE;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pitch-shifter', PitchShifterProcessor);
@@ -0,0 +1,56 @@
+// Take recorder AudioWorklet processor
+// Copies its mono input into chunks posted to the main thread. The first
+// message carries the context frame of the first recorded sample, so the take
+// can be placed on the playback timeline to the sample.
+
+const CHUNK_SIZE = 16384;
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.chunk = new Float32Array(CHUNK_SIZE);
+    this.length = 0;
+    this.hasStarted = false;
+    this.isStopped = false;
+
+    this.port.onmessage = event => {
+      if (event.data === 'stop') {
+        this.flush();
+        this.isStopped = true;
+        this.port.postMessage({ type: 'done' });
+      }
+    };
+  }
+
+  flush() {
+    if (this.length === 0) return;
+    const samples = this.chunk.slice(0, this.length);
+    this.port.postMessage({ type: 'chunk', samples }, [samples.buffer]);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    if (this.isStopped) return false;
+
+    // Nothing connected yet
+    const input = inputs[0][0];
+    if (!input) return true;
+
+    if (!this.hasStarted) {
+      this.hasStarted = true;
+      this.port.postMessage({ type: 'start', frame: currentFrame });
+    }
+
+    let offset = 0;
+    while (offset < input.length) {
+      const count = Math.min(input.length - offset, CHUNK_SIZE - this.length);
+      this.chunk.set(input.subarray(offset, offset + count), this.length);
+      this.length += count;
+      offset += count;
+      if (this.length === CHUNK_SIZE) this.flush();
+    }
+    return true;
+  }
+}
+
+registerProcessor('recorder', RecorderProcessor);
@@ -0,0 +1,5 @@
+import { SongLibrary } from '@/components/SongLibrary';
+
+export default function LibraryPage() {
+  return <SongLibrary />;
+}
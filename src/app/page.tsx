@@ -1,4 +1,5 @@
 import { FileUpload } from '@/components/FileUpload';
+import Link from 'next/link';
 import { Music } from 'lucide-react';
 import { HighlightText } from "@/components/ui/text/highlight";
 
@@ -30,6 +31,7 @@ export default function HomePage() {
                 </div>
               </div>
               <a href="#" className="text-gray-900 font-satoshi font-bold hover:text-[#FD5F57] transition-colors">Home</a>
+              <Link href="/library" className="text-gray-900 font-satoshi font-bold hover:text-[#FD5F57] transition-colors">Library</Link>
               <a href="#" className="text-gray-900 font-satoshi font-bold hover:text-[#FD5F57] transition-colors">Contact</a>
             </div>
           </nav>
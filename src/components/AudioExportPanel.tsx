@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { MixdownOptions } from '@/lib/audioEngine';
+import { AudioExportFormat, INSTRUMENTAL_TRACKS, getAudioExportExtension } from '@/lib/audioExport';
+import { AudioTags, COMPRESSED_AUDIO_FORMATS, CompressedAudioFormat } from '@/lib/encoders';
+import { UseAudioExportReturn } from '@/hooks/useAudioExport';
+
+type ExportSource = 'mix' | 'instrumental' | 'vocals' | 'drums' | 'bass' | 'other';
+
+const EXPORT_SOURCES: Record<ExportSource, { label: string; mixdown: MixdownOptions }> = {
+  mix: { label: 'Current mix', mixdown: { useCurrentMix: true } },
+  instrumental: { label: 'Instrumental', mixdown: { includeTracks: INSTRUMENTAL_TRACKS } },
+  vocals: { label: 'Vocals stem', mixdown: { includeTracks: ['vocals'] } },
+  drums: { label: 'Drums stem', mixdown: { includeTracks: ['drums'] } },
+  bass: { label: 'Bass stem', mixdown: { includeTracks: ['bass'] } },
+  other: { label: 'Other stem', mixdown: { includeTracks: ['other'] } }
+};
+
+// WAV bit depths are offered as separate formats to keep the menu flat
+type ExportFormatOption = 'wav16' | 'wav24' | CompressedAudioFormat;
+
+const FORMAT_OPTIONS: { value: ExportFormatOption; label: string; isSupported: () => boolean }[] = [
+  { value: 'wav16', label: 'WAV 16-bit', isSupported: () => true },
+  { value: 'wav24', label: 'WAV 24-bit', isSupported: () => true },
+  ...(Object.keys(COMPRESSED_AUDIO_FORMATS) as CompressedAudioFormat[]).map(format => ({
+    value: format,
+    label: COMPRESSED_AUDIO_FORMATS[format].label,
+    isSupported: COMPRESSED_AUDIO_FORMATS[format].isSupported
+  }))
+];
+
+const selectClassName = 'w-full bg-[#393939] text-white text-sm rounded px-2 py-1 outline-none disabled:opacity-40';
+
+export interface AudioExportPanelProps {
+  exporter: UseAudioExportReturn;
+  baseName: string;
+  // Resolved lazily so the cover is only fetched when it's needed
+  getTags: () => Promise<AudioTags>;
+  disabled?: boolean;
+}
+
+export function AudioExportPanel({ exporter, baseName, getTags, disabled }: AudioExportPanelProps) {
+  const [source, setSource] = useState<ExportSource>('mix');
+  const [formatOption, setFormatOption] = useState<ExportFormatOption>('mp3');
+  const [bitrate, setBitrate] = useState(COMPRESSED_AUDIO_FORMATS.mp3.defaultBitrate);
+
+  const isCompressed = formatOption !== 'wav16' && formatOption !== 'wav24';
+  const format: AudioExportFormat = isCompressed ? formatOption : 'wav';
+
+  const handleFormatChange = (value: ExportFormatOption) => {
+    setFormatOption(value);
+    if (value !== 'wav16' && value !== 'wav24') {
+      setBitrate(COMPRESSED_AUDIO_FORMATS[value].defaultBitrate);
+    }
+  };
+
+  const handleExport = async () => {
+    const sourceInfo = EXPORT_SOURCES[source];
+    const suffix = sourceInfo.label.toLowerCase().replace(' stem', '');
+
+    try {
+      await exporter.exportAudio({
+        mixdown: sourceInfo.mixdown,
+        format,
+        bitDepth: formatOption === 'wav24' ? 24 : 16,
+        bitrate: isCompressed ? bitrate : undefined,
+        // WAV has no tags here, so skip fetching the cover
+        tags: isCompressed ? await getTags() : undefined,
+        filename: `${baseName} [${suffix}].${getAudioExportExtension(format)}`
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
+      console.error('Failed to export audio:', error);
+      toast.error('Audio export failed', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  if (exporter.isExporting) {
+    return (
+      <div className="px-2 space-y-2">
+        <div className="flex items-center justify-between text-xs text-white/70">
+          <span>Exporting… {Math.round(exporter.progress * 100)}%</span>
+          <button onClick={exporter.cancel} className="flex items-center text-white/70 hover:text-white" aria-label="Cancel export">
+            <X className="h-3 w-3 mr-1" /> Cancel
+          </button>
+        </div>
+        <Progress value={exporter.progress * 100} className="h-1.5" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-2 space-y-2">
+      <select
+        value={source}
+        onChange={event => setSource(event.target.value as ExportSource)}
+        disabled={disabled}
+        className={selectClassName}
+        aria-label="Export source"
+      >
+        {(Object.keys(EXPORT_SOURCES) as ExportSource[]).map(key => (
+          <option key={key} value={key}>{EXPORT_SOURCES[key].label}</option>
+        ))}
+      </select>
+      <div className="flex space-x-2">
+        <select
+          value={formatOption}
+          onChange={event => handleFormatChange(event.target.value as ExportFormatOption)}
+          disabled={disabled}
+          className={selectClassName}
+          aria-label="Export format"
+        >
+          {FORMAT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value} disabled={!option.isSupported()}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {isCompressed && (
+          <select
+            value={bitrate}
+            onChange={event => setBitrate(Number(event.target.value))}
+            disabled={disabled}
+            className={selectClassName}
+            aria-label="Bitrate"
+          >
+            {COMPRESSED_AUDIO_FORMATS[formatOption].bitrates.map(value => (
+              <option key={value} value={value}>{value} kbps</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <Button size="sm" variant="secondary" className="w-full" onClick={handleExport} disabled={disabled}>
+        <Download className="h-3 w-3 mr-1" /> Export
+      </Button>
+    </div>
+  );
+}
@@ -1,27 +1,59 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { 
   Play, 
   Pause, 
   Music,
   Home,
   Loader2,
-  ChevronDown,
   MicVocal,
   KeyboardMusic,
   Guitar,
   Drum,
-  ChevronLeft
+  ChevronLeft,
+  PenLine,
+  Hand
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Slider } from '@/components/ui/slider';
 import { api } from '@/lib/api';
-import { JobResultsResponse } from '@/types/api';
+import { JobResultsResponse, TranscriptionData } from '@/types/api';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { useAudioPlayer } from '@/hooks/useAudioPlayer';
 import RoundedTimeline from './RoundedTimeline';
+import { LyricsDisplay } from './LyricsDisplay';
+import { PitchLane } from './PitchLane';
+import { ScoreBadge, ScoreSummaryDialog } from './ScoreDisplay';
+import { LyricsEditorLane, LyricsEditorToolbar } from './LyricsEditor';
+import { useLyricsEditor } from '@/hooks/useLyricsEditor';
+import { TapSyncPanel } from './TapSyncPanel';
+import { useTapSync } from '@/hooks/useTapSync';
+import { useTakes } from '@/hooks/useTakes';
+import { useOfflineSong } from '@/hooks/useOfflineSong';
+import { usePitchAnalysis } from '@/hooks/usePitchAnalysis';
+import { useWaveforms } from '@/hooks/useWaveforms';
+import { useSingingScore } from '@/hooks/useSingingScore';
+import { DownloadMenu } from './DownloadMenu';
+import { OfflineControl } from './OfflineControl';
+import { KeyChangeControl } from './KeyChangeControl';
+import { TempoControl } from './TempoControl';
+import { MixerStrip } from './MixerStrip';
+import { ClickTrackControl } from './ClickTrackControl';
+import { BeatGridOverlay } from './BeatGridOverlay';
+import { LaneScrubOverlay } from './LaneScrubOverlay';
+import { TimelineScrollbar, TimelineZoomControls } from './TimelineZoom';
+import { MicPanel } from './MicPanel';
+import { TakesPanel } from './TakesPanel';
+import { LoopControls, LoopRegionOverlay } from './LoopRegion';
+import { LoopRegion } from '@/lib/audioEngine';
+import { TimelineView, ratioToTime, timeToRatio } from '@/lib/timelineView';
+import { useTimelineZoom } from '@/hooks/useTimelineZoom';
+import { SnapMode, formatBarBeat, getBarBeatAt, getBarTimes, getBeatsPerBar, snapToGrid } from '@/lib/beatGrid';
+import { normalizeTranscription } from '@/lib/lyrics';
+import { toSafeFilename } from '@/lib/download';
+import { recordResults } from '@/lib/library';
+import { fetchWithOfflineCache } from '@/lib/offlineCache';
 import { useRouter } from 'next/navigation';
 
 interface AudioStudioProps {
@@ -36,7 +68,22 @@ interface BeatData {
   rhythm_regularity: number;
 }
 
-const Timeline = ({ duration, currentTime }: { duration: number; currentTime: number }) => {
+// The ruler reads either in minutes and seconds or in bars
+type RulerMode = 'time' | 'bars';
+
+// Bar labels are spaced out to stay about this many across the ruler
+const MAX_BAR_LABELS = 20;
+
+// Time label spacings (seconds) to pick from as the timeline zooms
+const TIME_MARKER_INTERVALS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+const Timeline = ({ duration, currentTime, beatData, mode, view }: {
+  duration: number;
+  currentTime: number;
+  beatData: BeatData | null;
+  mode: RulerMode;
+  view: TimelineView;
+}) => {
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -51,37 +98,64 @@ const Timeline = ({ duration, currentTime }: { duration: number; currentTime: nu
   };
 
   const timeMarkers = [];
-  // Ensure duration is valid and interval is at least 1 second
-  const safeDuration = Math.max(1, duration || 1);
-  const interval = 30; // Show ~8 markers
+  // Ensure the view is valid and interval is at least 1 second
+  const viewStart = duration > 0 ? view.start : 0;
+  const viewLength = duration > 0 ? Math.max(1, view.end - view.start) : 1;
+  const toPercent = (time: number) => ((time - viewStart) / viewLength) * 100;
+
+  // Show ~8 markers
+  const interval = TIME_MARKER_INTERVALS.find(seconds => viewLength / seconds <= 8) ?? 600;
   
   // Limit the number of markers to prevent infinite loops
   const maxMarkers = 20;
   let markerCount = 0;
   
-  for (let i = 0; i <= safeDuration && markerCount < maxMarkers; i += interval) {
+  for (
+    let i = Math.ceil(viewStart / interval) * interval;
+    i <= viewStart + viewLength && markerCount < maxMarkers;
+    i += interval
+  ) {
     timeMarkers.push(i);
     markerCount++;
   }
 
+  // Visible bar starts (every first, second, fourth... bar), labelled with the bar number
+  const barMarkers = (mode === 'bars' && beatData ? getBarTimes(beatData) : [])
+    .map((time, index) => ({ time, bar: index + 1 }))
+    .filter(({ time }) => time >= viewStart && time <= viewStart + viewLength);
+  let barStep = 1;
+  while (barMarkers.length / barStep > MAX_BAR_LABELS) barStep *= 2;
+
   return (
     <div className="h-[35px] bg-[#393839] flex items-end relative px-2 hover:bg-[#434343] transition-colors">
-      {timeMarkers.map((time, index) => (
+      {mode === 'bars' && barMarkers.length > 0
+        ? barMarkers.filter(({ bar }) => (bar - 1) % barStep === 0).map(({ time, bar }) => (
+          <div
+            key={bar}
+            className="absolute top-1.5 pl-1 border-l border-[#656565] text-xs text-[#656565] font-satoshi font-bold pointer-events-none"
+            style={{ left: `${toPercent(time)}%` }}
+          >
+            {bar}
+          </div>
+        ))
+        : timeMarkers.map((time) => (
+          <div 
+            key={time}
+            className="absolute top-1.5 text-xs text-[#656565] font-satoshi font-bold pointer-events-none"
+            style={{ left: `${1 + toPercent(time)}%` }}
+          >
+            {formatTime(time)}
+          </div>
+        ))}
+      
+      {/* Current time cursor (the lanes have their own playhead below) */}
+      {currentTime >= viewStart && currentTime <= viewStart + viewLength && (
         <div 
-          key={index}
-          className="absolute top-1.5 text-xs text-[#656565] font-satoshi font-bold pointer-events-none"
-          style={{ left: `${1 + (time / safeDuration) * (100)}%` }}
+          className="absolute top-2 w-[3px] h-[27px] rounded-full bg-white shadow-lg pointer-events-none"
+          style={{ left: `${toPercent(currentTime)}%` }}
         >
-          {formatTime(time)}
         </div>
-      ))}
-      
-      {/* Current time cursor */}
-      <div 
-        className="absolute top-2 w-[3px] h-[210px] rounded-full bg-white shadow-lg transition-all duration-100 pointer-events-none"
-        style={{ left: `${1 + (currentTime / safeDuration) * (100)}%` }}
-      >
-      </div>
+      )}
       
       {/* Clickable overlay for better UX */}
       <div className="absolute inset-0 bg-transparent hover:bg-white/5 transition-colors" />
@@ -302,6 +376,10 @@ const VinylDisc = ({ results, audioPlayer }: {
       return;
     }
 
+    // Read through the offline cache so the cover survives the job expiring
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
     const loadCoverImage = async () => {
       try {
         const coverImagePath = results.audio_metadata?.cover_image_path;
@@ -310,13 +388,26 @@ const VinylDisc = ({ results, audioPlayer }: {
         const filename = coverImagePath.split('/').pop() || '';
         const imageUrl = api.getFileDownloadURL(results.job_id, filename);
         console.log('VinylDisc: Loading cover image from:', imageUrl);
-        setCoverImageUrl(imageUrl);
+        const response = await fetchWithOfflineCache(imageUrl);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const blob = await response.blob();
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setCoverImageUrl(objectUrl);
       } catch (error) {
         console.error('VinylDisc: Failed to load cover image:', error);
       }
     };
 
     loadCoverImage();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
   }, [results]);
 
   if (!results) {
@@ -410,20 +501,72 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [minLoadingComplete, setMinLoadingComplete] = useState(false);
-  const [, setBeatData] = useState<BeatData | null>(null);
+  const [beatData, setBeatData] = useState<BeatData | null>(null);
+  const [originalTranscription, setOriginalTranscription] = useState<TranscriptionData | null>(null);
+  const [isTranscriptionLoading, setIsTranscriptionLoading] = useState(false);
+  // Which lyrics tool panel is open, if any
+  const [lyricsTool, setLyricsTool] = useState<'editor' | 'tapSync' | null>(null);
+  // A-B loop selection; kept when looping is switched off so it can be resumed
+  const [loopSelection, setLoopSelection] = useState<LoopRegion | null>(null);
+  const [isLoopEnabled, setIsLoopEnabled] = useState(false);
+  const [snapMode, setSnapMode] = useState<SnapMode>('beat');
 
-  const [waveformVocalsFile, setWaveformVocalsFile] = useState<File | null>(null);
-  const [waveformDrumsFile, setWaveformDrumsFile] = useState<File | null>(null);
-  const [waveformBassFile, setWaveformBassFile] = useState<File | null>(null);
-  const [waveformOtherFile, setWaveformOtherFile] = useState<File | null>(null);
 
   const router = useRouter();
   
-  // Volume states for vocals and instruments (non-vocal tracks combined)
-  const [vocalsVolume, setVocalsVolume] = useState([70]);
-  const [instrumentsVolume, setInstrumentsVolume] = useState([70]);
   // Audio player hook
   const audioPlayer = useAudioPlayer();
+  // Lyrics editing (edits are saved locally and drive the lyrics view)
+  const lyricsEditor = useLyricsEditor(jobId, originalTranscription);
+  // Tap sync re-times the current lyrics live while it runs
+  const tapSync = useTapSync({
+    base: lyricsEditor.transcription,
+    getCurrentTime: audioPlayer.getCurrentTime,
+    seek: audioPlayer.seek
+  });
+  const transcription = tapSync.isActive ? tapSync.transcription : lyricsEditor.transcription;
+  const isEditingLyrics = lyricsTool === 'editor';
+  // Target melody from the vocals stem, cached per job
+  const pitchAnalysis = usePitchAnalysis(jobId, audioPlayer);
+  // Live score against that melody while the mic is on
+  const singingScore = useSingingScore(transcription, pitchAnalysis.analysis, audioPlayer);
+  // Recorded takes, saved per job
+  const takes = useTakes(jobId, audioPlayer);
+  const waveforms = useWaveforms(jobId, audioPlayer);
+  // Opt-in local copy that outlives the server's 24h retention
+  const offlineSong = useOfflineSong(results);
+  const baseName = toSafeFilename(
+    results?.audio_metadata?.title || results?.original_filename.replace(/\.[^.]+$/, '') || ''
+  );
+
+  const [rulerMode, setRulerMode] = useState<RulerMode>('time');
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const timelineZoom = useTimelineZoom(
+    timelineRef,
+    audioPlayer.duration,
+    audioPlayer.currentTime,
+    audioPlayer.isPlaying
+  );
+  const currentBarBeat = beatData ? getBarBeatAt(beatData, audioPlayer.currentTime) : null;
+
+  const snapLoopTime = useCallback((time: number) => snapToGrid(time, beatData, snapMode), [beatData, snapMode]);
+
+  // Keep the engine's loop in sync with the selection
+  const { setLoop } = audioPlayer;
+  useEffect(() => {
+    setLoop(isLoopEnabled ? loopSelection : null);
+  }, [setLoop, isLoopEnabled, loopSelection]);
+
+  // The click track follows the detected beats
+  const { setClickTrack } = audioPlayer;
+  useEffect(() => {
+    setClickTrack(beatData?.beat_times ?? [], getBeatsPerBar(beatData?.time_signature));
+  }, [setClickTrack, beatData]);
+
+  const handleLoopChange = (region: LoopRegion) => {
+    setLoopSelection(region);
+    setIsLoopEnabled(true);
+  };
 
   // Minimum loading time to prevent flickering
   useEffect(() => {
@@ -441,6 +584,8 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
         setIsLoading(true);
         const jobResults = await api.getJobResults(jobId);
         setResults(jobResults);
+        recordResults(jobResults, { opened: true })
+          .catch(error => console.warn('Failed to add song to the library:', error));
         console.log('----------------------------------------')
         console.log(jobResults)
         console.log('----------------------------------------')
@@ -477,51 +622,15 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
         
         if (results.download_links.vocals_stem) {
           trackUrls.vocals = api.getFileDownloadURL(jobId, results.download_links.vocals_stem.split('/').pop() || '');
-          fetch(trackUrls.vocals)
-          .then(r => r.blob())
-          .then(blob => {
-            if (!isCancelled) {
-              const f = new File([blob], 'waveform.mp3', { type: blob.type });
-              setWaveformVocalsFile(f);
-            }
-          })
-          .catch(err => console.error('Waveform fetch failed:', err));
         }
         if (results.download_links.drums_stem) {
           trackUrls.drums = api.getFileDownloadURL(jobId, results.download_links.drums_stem.split('/').pop() || '');
-          fetch(trackUrls.drums)
-          .then(r => r.blob())
-          .then(blob => {
-            if (!isCancelled) {
-              const f = new File([blob], 'waveform.mp3', { type: blob.type });
-              setWaveformDrumsFile(f);
-            }
-          })
-          .catch(err => console.error('Waveform fetch failed:', err));
         }
         if (results.download_links.bass_stem) {
           trackUrls.bass = api.getFileDownloadURL(jobId, results.download_links.bass_stem.split('/').pop() || '');
-          fetch(trackUrls.bass)
-          .then(r => r.blob())
-          .then(blob => {
-            if (!isCancelled) {
-              const f = new File([blob], 'waveform.mp3', { type: blob.type });
-              setWaveformBassFile(f);
-            }
-          })
-          .catch(err => console.error('Waveform fetch failed:', err));
         }
         if (results.download_links.other_stem) {
           trackUrls.other = api.getFileDownloadURL(jobId, results.download_links.other_stem.split('/').pop() || '');
-          fetch(trackUrls.other)
-          .then(r => r.blob())
-          .then(blob => {
-            if (!isCancelled) {
-              const f = new File([blob], 'waveform.mp3', { type: blob.type });
-              setWaveformOtherFile(f);
-            }
-          })
-          .catch(err => console.error('Waveform fetch failed:', err));
         }
         
         // Load audio tracks
@@ -582,7 +691,7 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
         const beatUrl = api.getFileDownloadURL(jobId, filename);
         console.log('🎵 Fetching beat data from URL:', beatUrl);
         
-        const response = await fetch(beatUrl);
+        const response = await fetchWithOfflineCache(beatUrl);
         console.log('🎵 Beat data fetch response:', {
           status: response.status,
           ok: response.ok,
@@ -645,6 +754,42 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
     fetchBeatData();
   }, [results, jobId]);
 
+  // Fetch transcription data for the lyrics view
+  useEffect(() => {
+    if (!results?.download_links.transcription) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    const fetchTranscription = async () => {
+      try {
+        setIsTranscriptionLoading(true);
+        const data = await api.getTranscriptionData(jobId);
+        if (!isCancelled) {
+          setOriginalTranscription(normalizeTranscription(data));
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          console.error('Failed to load transcription:', error);
+          toast.error('Failed to load lyrics', {
+            description: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsTranscriptionLoading(false);
+        }
+      }
+    };
+
+    fetchTranscription();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [results, jobId]);
+
   const handlePlayPause = async () => {
     console.log('Play button clicked. Current state:', {
       isPlaying: audioPlayer.isPlaying,
@@ -701,7 +846,7 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
     const clickX = event.clientX - rect.left;
     const timelineWidth = rect.width;
     const clickPercentage = Math.max(0, Math.min(1, clickX / timelineWidth));
-    const newTime = clickPercentage * audioPlayer.duration;
+    const newTime = ratioToTime(timelineZoom.view, clickPercentage);
     
     console.log('Timeline click:', {
       clickX,
@@ -798,7 +943,68 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
             <ChevronLeft className='h-6 w-6 text-white' />
           </button>
           <VinylDisc results={results} audioPlayer={audioPlayer} />
+          {/* Melody and lyrics */}
+          <div className="absolute bottom-8 inset-x-0 z-10 flex flex-col items-center space-y-2 pointer-events-none">
+            {pitchAnalysis.analysis && (
+              <PitchLane
+                analysis={pitchAnalysis.analysis}
+                currentTime={audioPlayer.currentTime}
+                isPlaying={audioPlayer.isPlaying}
+                getCurrentTime={audioPlayer.getCurrentTime}
+                transpose={audioPlayer.pitchShift}
+                getSungPitches={singingScore.isAvailable ? singingScore.getSungPitches : undefined}
+                className="max-w-3xl bg-black/50 backdrop-blur-sm rounded-lg overflow-hidden"
+              />
+            )}
+            {pitchAnalysis.isAnalyzing && (
+              <div className="text-xs text-white/50 bg-black/50 rounded-full px-3 py-1">
+                Finding the melody… {Math.round(pitchAnalysis.progress * 100)}%
+              </div>
+            )}
+            <LyricsDisplay
+              transcription={transcription}
+              currentTime={audioPlayer.currentTime}
+              isLoading={isTranscriptionLoading}
+              className="bg-black/50 backdrop-blur-sm rounded-lg py-4 max-w-3xl"
+            />
+          </div>
           {/* <BeatGrid beatData={beatData} currentTime={audioPlayer.currentTime} /> */}
+          {singingScore.isAvailable && !lyricsTool && (
+            <div className="absolute top-6 inset-x-0 z-10 flex justify-center pointer-events-none">
+              <ScoreBadge score={singingScore.score} lines={singingScore.lines} />
+            </div>
+          )}
+          <ScoreSummaryDialog
+            summary={singingScore.summary}
+            transcription={transcription}
+            onClose={singingScore.dismissSummary}
+            onSingAgain={() => {
+              singingScore.reset();
+              audioPlayer.seek(0)
+                .then(() => audioPlayer.play())
+                .catch(error => console.error('Failed to restart song:', error));
+            }}
+          />
+          {isEditingLyrics && (
+            <div className="absolute top-6 right-4 z-20">
+              <LyricsEditorToolbar
+                editor={lyricsEditor}
+                reference={originalTranscription}
+                duration={audioPlayer.duration}
+                onClose={() => setLyricsTool(null)}
+              />
+            </div>
+          )}
+          {lyricsTool === 'tapSync' && (
+            <div className="absolute top-6 right-4 z-20">
+              <TapSyncPanel
+                base={lyricsEditor.transcription}
+                tapSync={tapSync}
+                onApply={lyricsEditor.replaceTranscription}
+                onClose={() => setLyricsTool(null)}
+              />
+            </div>
+          )}
         </div>
 
         {/* Controls Bar */}
@@ -824,53 +1030,114 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
               <div className="text-white text-sm font-satoshi font-bold">
                 {audioPlayer.formatTime(audioPlayer.currentTime)} / {audioPlayer.formatTime(audioPlayer.duration)}
               </div>
+
+              {currentBarBeat && (
+                <div className="text-white/60 text-sm font-satoshi font-bold tabular-nums" title="Bar.beat">
+                  {formatBarBeat(currentBarBeat)}
+                </div>
+              )}
             </div>
 
             <div className="flex items-center space-x-10">
-              {/* Vocals Volume Control */}
-              <div className="flex items-center space-x-2">
-                <span className="text-sm text-[#626060] font-satoshi font-bold mb-[2px]">vocals</span>
-                              <Slider
-                value={vocalsVolume}
-                onValueChange={(value) => {
-                  setVocalsVolume(value);
-                  audioPlayer.setTrackVolume('vocals', value[0] / 100);
-                }}
-                max={100}
-                step={1}
-                className="w-20"
+              {/* Key change */}
+              <KeyChangeControl
+                semitones={audioPlayer.pitchShift}
+                shiftVocals={audioPlayer.shiftVocals}
+                onChange={audioPlayer.setPitchShift}
+                onShiftVocalsChange={audioPlayer.setShiftVocals}
+                disabled={audioPlayer.isLoading}
               />
-              </div>
-              
-              {/* Instruments Volume Control */}
-              <div className="flex items-center space-x-2">
-                <span className="text-sm text-[#626060] font-satoshi font-bold mb-[2px]">instruments</span>
-                              <Slider
-                value={instrumentsVolume}
-                onValueChange={(value) => {
-                  setInstrumentsVolume(value);
-                  // Set volume for all non-vocal tracks
-                  audioPlayer.setTrackVolume('drums', value[0] / 100);
-                  audioPlayer.setTrackVolume('bass', value[0] / 100);
-                  audioPlayer.setTrackVolume('other', value[0] / 100);
+
+              {/* Practice tempo */}
+              <TempoControl
+                rate={audioPlayer.playbackRate}
+                onChange={audioPlayer.setPlaybackRate}
+                bpm={beatData?.tempo_bpm}
+                disabled={audioPlayer.isLoading}
+              />
+
+              {/* Metronome */}
+              <ClickTrackControl
+                player={audioPlayer}
+                timeSignature={beatData?.time_signature}
+                disabled={audioPlayer.isLoading || !beatData?.beat_times.length}
+              />
+
+              {/* A-B loop */}
+              <LoopControls
+                hasRegion={loopSelection !== null}
+                isActive={isLoopEnabled && audioPlayer.loop !== null}
+                snapMode={snapMode}
+                canSnap={!!beatData?.beat_times.length}
+                onToggle={() => setIsLoopEnabled(prev => !prev)}
+                onClear={() => {
+                  setLoopSelection(null);
+                  setIsLoopEnabled(false);
                 }}
-                max={100}
-                step={1}
-                className="w-20"
+                onSnapModeChange={setSnapMode}
+              />
+
+              {/* Per-stem mixer */}
+              <MixerStrip player={audioPlayer} disabled={audioPlayer.isLoading} />
+
+              {/* Live microphone */}
+              <MicPanel player={audioPlayer} />
+
+              {/* Recorded takes */}
+              <TakesPanel
+                player={audioPlayer}
+                takes={takes}
+                baseName={baseName}
+                disabled={audioPlayer.isLoading}
               />
-              </div>
               
+              {/* Lyrics editor toggle */}
+              <Button
+                onClick={() => setLyricsTool(prev => (prev === 'editor' ? null : 'editor'))}
+                disabled={!transcription || tapSync.isActive}
+                className={`w-8 h-8 ${isEditingLyrics ? 'bg-[#FD5F57] hover:bg-[#FD5F57]/80' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+                aria-label="Edit lyrics timing"
+              >
+                <PenLine className="h-4 w-4" />
+              </Button>
+
+              {/* Tap sync toggle */}
+              <Button
+                onClick={() => setLyricsTool(prev => (prev === 'tapSync' ? null : 'tapSync'))}
+                disabled={!transcription || tapSync.isActive}
+                className={`w-8 h-8 ${lyricsTool === 'tapSync' ? 'bg-[#FD5F57] hover:bg-[#FD5F57]/80' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+                aria-label="Tap sync lyrics"
+              >
+                <Hand className="h-4 w-4" />
+              </Button>
+
+              {/* Offline copy */}
+              <OfflineControl offline={offlineSong} />
+
               {/* Download button */}
               <div className="relative group">
-                <Button className='bg-[#393939] hover:bg-[#393939]/80 w-8 h-8'>
-                  <ChevronDown className="h-4 w-4" />
-                </Button>
+                <DownloadMenu
+                  results={results}
+                  transcription={lyricsEditor.transcription}
+                  beatData={beatData}
+                  pitchAnalysis={pitchAnalysis.analysis}
+                  renderMixdown={audioPlayer.renderMixdown}
+                />
               </div>
             </div>
           </div>
         <div className='h-[240px] bg-black w-full flex'>
           {/* Sidebar */}
-          <div className='w-[55px] bg-[#1A1B1D] pt-[55px] pb-8 flex flex-col items-center justify-between'>
+          <div className='w-[55px] bg-[#1A1B1D] pt-[55px] pb-8 flex flex-col items-center justify-between relative'>
+            {/* Ruler units */}
+            <button
+              onClick={() => setRulerMode(mode => (mode === 'time' ? 'bars' : 'time'))}
+              disabled={!beatData?.beat_times.length}
+              className='absolute top-0 h-[35px] w-full text-[10px] text-[#656565] hover:text-white font-satoshi font-bold uppercase disabled:opacity-40 disabled:hover:text-[#656565]'
+              title={rulerMode === 'time' ? 'Show bars and beats' : 'Show minutes and seconds'}
+            >
+              {rulerMode === 'time' ? 'time' : 'bars'}
+            </button>
             <button onClick={() => handleTrackMute('vocals')}>
               <MicVocal  className='h-5 w-5 text-[#3E84E8]' />
             </button>
@@ -885,49 +1152,105 @@ export function AudioStudio({ jobId }: AudioStudioProps) {
             </button>
               
           </div>
-          <div className='w-[calc(100%-55px)] flex flex-col'>
+          <div ref={timelineRef} className='w-[calc(100%-55px)] flex flex-col relative overflow-hidden touch-pan-y'>
+            {/* Loop selection; also handles clicks on the timeline */}
+            <LoopRegionOverlay
+              duration={audioPlayer.duration}
+              view={timelineZoom.view}
+              region={loopSelection}
+              isActive={isLoopEnabled}
+              rulerHeight={35}
+              snap={snapLoopTime}
+              onChange={handleLoopChange}
+              onRulerClick={handleTimelineClick}
+            />
             {/* Timeline */}
-            <div 
-              className='h-[35px] bg-[#393839] w-full cursor-pointer'
-              onClick={handleTimelineClick}
-            >
-              <Timeline duration={audioPlayer.duration} currentTime={audioPlayer.currentTime} />
+            <div className='h-[35px] bg-[#393839] w-full cursor-pointer'>
+              <Timeline
+                duration={audioPlayer.duration}
+                currentTime={audioPlayer.currentTime}
+                beatData={beatData}
+                mode={rulerMode}
+                view={timelineZoom.view}
+              />
             </div>
             {/* Waveform */}
-            <div className='h-[210px] bg-black flex flex-col items-center justify-between pt-4 pb-8 px-4'>
-             {/* <RoundedTimeline file={waveformVocalsFile} /> */}
+            <div className='h-[210px] bg-black flex flex-col items-center justify-between pt-4 pb-8 px-4 relative'>
+             <div className='relative w-full'>
+               <RoundedTimeline
+                  data={waveforms.vocals}
+                  containerColor={audioPlayer.trackStates.vocals?.isAudible === false ? "#030C3D" : "#0561F0"} 
+                  waveformColor={audioPlayer.trackStates.vocals?.isAudible === false ? "#18253D" : "#8DAFFF"}  
+                  barRadius={26}
+                  view={timelineZoom.view}
+                />
+               {isEditingLyrics && (
+                 <LyricsEditorLane
+                   transcription={transcription}
+                   duration={audioPlayer.duration}
+                   view={timelineZoom.view}
+                   selectedWord={lyricsEditor.selectedWord}
+                   onSelectWord={lyricsEditor.selectWord}
+                   onWordTimingChange={lyricsEditor.setWordTiming}
+                   onWordMove={lyricsEditor.moveWord}
+                   onSegmentShift={lyricsEditor.shiftSegment}
+                 />
+               )}
+             </div>
              <RoundedTimeline
-                file={waveformVocalsFile}
-                containerColor={audioPlayer.trackStates.vocals?.isMuted ? "#030C3D" : "#0561F0"} 
-                waveformColor={audioPlayer.trackStates.vocals?.isMuted ? "#18253D" : "#8DAFFF"}  
+                data={waveforms.other}
+                containerColor={audioPlayer.trackStates.other?.isAudible === false ? "#3F1704" : "#FD7F00"} 
+                waveformColor={audioPlayer.trackStates.other?.isAudible === false ? "#3B281B" : "#FCC28C"}
                 barRadius={26}
-                silenceRms={0.005}
-                bucketMs={10}
+                view={timelineZoom.view}
               />
              <RoundedTimeline
-                file={waveformOtherFile}
-                containerColor={audioPlayer.trackStates.other?.isMuted ? "#3F1704" : "#FD7F00"} 
-                waveformColor={audioPlayer.trackStates.other?.isMuted ? "#3B281B" : "#FCC28C"}
+                data={waveforms.bass}
+                containerColor={audioPlayer.trackStates.bass?.isAudible === false ? "#6B0661" : "#DD2DF9"}
+                waveformColor={audioPlayer.trackStates.bass?.isAudible === false ? "rgba(239, 158, 251, 0.3)" : "#EF9EFB"}
                 barRadius={26}
-                silenceRms={0.005}
-                bucketMs={10}
+                view={timelineZoom.view}
               />
              <RoundedTimeline
-                file={waveformBassFile}
-                containerColor={audioPlayer.trackStates.bass?.isMuted ? "#6B0661" : "#DD2DF9"}
-                waveformColor={audioPlayer.trackStates.bass?.isMuted ? "rgba(239, 158, 251, 0.3)" : "#EF9EFB"}
+                data={waveforms.drums}
+                containerColor={audioPlayer.trackStates.drums?.isAudible === false ? "#4ef5c366" : "#4EF5C3"} 
+                waveformColor={audioPlayer.trackStates.drums?.isAudible === false ? "rgba(255, 255, 255, 0.2)" : "rgba(255, 255, 255, 0.7)"}
                 barRadius={26}
-                silenceRms={0.005}
-                bucketMs={10}
+                view={timelineZoom.view}
               />
-             <RoundedTimeline
-                file={waveformDrumsFile}
-                containerColor={audioPlayer.trackStates.drums?.isMuted ? "#4ef5c366" : "#4EF5C3"} 
-                waveformColor={audioPlayer.trackStates.drums?.isMuted ? "rgba(255, 255, 255, 0.2)" : "rgba(255, 255, 255, 0.7)"}
-                barRadius={26}
-                silenceRms={0.005}
-                bucketMs={10}
+              {/* Bars and beats across all lanes */}
+              <BeatGridOverlay
+                beatData={beatData}
+                view={timelineZoom.view}
+                className='absolute top-0 left-4 h-full w-[calc(100%-2rem)]'
+              />
+              {/* Playhead across the lanes; a positioned line so playback doesn't redraw the waveforms */}
+              {audioPlayer.currentTime >= timelineZoom.view.start && audioPlayer.currentTime <= timelineZoom.view.end && (
+                <div className='absolute top-4 bottom-8 inset-x-4 pointer-events-none'>
+                  <div
+                    className='absolute top-0 bottom-0 w-[2px] -translate-x-1/2 bg-white'
+                    style={{ left: `${timeToRatio(timelineZoom.view, audioPlayer.currentTime) * 100}%` }}
+                  />
+                </div>
+              )}
+              {/* Click, drag and hover on the lanes */}
+              <LaneScrubOverlay
+                view={timelineZoom.view}
+                duration={audioPlayer.duration}
+                transcription={transcription}
+                player={audioPlayer}
+                className='top-4 bottom-8 inset-x-4'
               />
+              {/* Zoom and scroll */}
+              <div className='absolute bottom-2 inset-x-4 flex items-center space-x-3'>
+                <TimelineZoomControls zoom={timelineZoom} duration={audioPlayer.duration} />
+                <TimelineScrollbar
+                  view={timelineZoom.view}
+                  duration={audioPlayer.duration}
+                  onScroll={timelineZoom.scrollTo}
+                  className='flex-1'
+                />
+              </div>
             </div>
           </div>
         </div>
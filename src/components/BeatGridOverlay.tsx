@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { BeatAnalysisData } from '@/types/api';
+import { getBeatsPerBar } from '@/lib/beatGrid';
+import { TimelineView } from '@/lib/timelineView';
+
+export interface BeatGridOverlayProps {
+  beatData: BeatAnalysisData | null;
+  view: TimelineView;
+  className?: string;
+}
+
+const BEAT_COLOR = 'rgba(255, 255, 255, 0.08)';
+const DOWNBEAT_COLOR = 'rgba(255, 255, 255, 0.25)';
+// Lines closer than this (px) are thinned out
+const MIN_LINE_SPACING = 4;
+
+// Beat and bar lines drawn over the waveform lanes; ignores pointer events
+export function BeatGridOverlay({ beatData, view, className = '' }: BeatGridOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      context.setTransform(dpr, 0, 0, dpr, 0, 0);
+      context.clearRect(0, 0, width, height);
+
+      if (!beatData || beatData.beat_times.length === 0 || view.end <= view.start) return;
+
+      const beatTimes = beatData.beat_times;
+      const beatsPerBar = getBeatsPerBar(beatData.time_signature);
+      const pixelsPerSecond = width / (view.end - view.start);
+      const averageBeat = (beatTimes[beatTimes.length - 1] - beatTimes[0]) / Math.max(1, beatTimes.length - 1);
+
+      // Drop individual beats when they crowd together, then whole bars
+      const showBeats = averageBeat * pixelsPerSecond >= MIN_LINE_SPACING;
+      let barStep = 1;
+      while (averageBeat * beatsPerBar * barStep * pixelsPerSecond < MIN_LINE_SPACING) barStep *= 2;
+
+      beatTimes.forEach((time, index) => {
+        if (time < view.start || time > view.end) return;
+        const isDownbeat = index % beatsPerBar === 0;
+        if (isDownbeat ? (index / beatsPerBar) % barStep !== 0 : !showBeats) return;
+
+        context.fillStyle = isDownbeat ? DOWNBEAT_COLOR : BEAT_COLOR;
+        context.fillRect(Math.round((time - view.start) * pixelsPerSecond), 0, 1, height);
+      });
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [beatData, view]);
+
+  return <canvas ref={canvasRef} className={`pointer-events-none ${className}`} aria-hidden="true" />;
+}
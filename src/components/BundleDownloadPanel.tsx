@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { Archive, Check, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { formatFileSize } from '@/lib/api';
+import { BundleFileProgress, UseBundleDownloadReturn } from '@/hooks/useBundleDownload';
+
+export interface BundleDownloadPanelProps {
+  bundle: UseBundleDownloadReturn;
+  baseName: string;
+  disabled?: boolean;
+}
+
+const FileRow = ({ file }: { file: BundleFileProgress }) => {
+  const percent = file.total > 0 ? (file.loaded / file.total) * 100 : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center space-x-1 text-white/80 truncate">
+          {file.status === 'done' && <Check className="h-3 w-3 text-green-400 shrink-0" />}
+          {file.status === 'downloading' && <Loader2 className="h-3 w-3 text-white/60 animate-spin shrink-0" />}
+          <span className="truncate">{file.path}</span>
+        </span>
+        <span className="text-white/50 shrink-0 ml-2">
+          {file.status === 'pending' ? 'Waiting' : formatFileSize(file.loaded)}
+        </span>
+      </div>
+      <Progress value={file.status === 'done' ? 100 : percent} className="h-1" />
+    </div>
+  );
+};
+
+export function BundleDownloadPanel({ bundle, baseName, disabled }: BundleDownloadPanelProps) {
+  const handleDownload = async () => {
+    try {
+      await bundle.download(`${baseName}.zip`);
+      toast.success('Bundle downloaded');
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
+      console.error('Failed to download bundle:', error);
+      toast.error('Bundle download failed', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  if (bundle.isDownloading) {
+    return (
+      <div className="px-2 space-y-2">
+        <div className="max-h-40 overflow-y-auto space-y-2 pr-1">
+          {bundle.files.map(file => <FileRow key={file.path} file={file} />)}
+        </div>
+        <button
+          onClick={bundle.cancel}
+          className="flex items-center text-xs text-white/70 hover:text-white"
+          aria-label="Cancel bundle download"
+        >
+          <X className="h-3 w-3 mr-1" /> Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-2">
+      <Button size="sm" variant="secondary" className="w-full" onClick={handleDownload} disabled={disabled}>
+        <Archive className="h-3 w-3 mr-1" /> Download bundle (.zip)
+      </Button>
+    </div>
+  );
+}
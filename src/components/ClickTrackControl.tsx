@@ -0,0 +1,78 @@
+'use client';
+
+import React from 'react';
+import { Timer, Volume2, VolumeX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { UseAudioPlayerReturn } from '@/hooks/useAudioPlayer';
+
+export interface ClickTrackControlProps {
+  player: Pick<UseAudioPlayerReturn, 'clickTrack' | 'setClickTrackState'>;
+  // Shown in the header, e.g. "4/4"
+  timeSignature?: string | null;
+  disabled?: boolean;
+}
+
+export function ClickTrackControl({ player, timeSignature, disabled }: ClickTrackControlProps) {
+  const { clickTrack, setClickTrackState } = player;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          disabled={disabled}
+          className={`w-8 h-8 ${clickTrack.enabled ? 'bg-[#3E84E8] hover:bg-[#3E84E8]/80' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+          aria-label="Click track"
+        >
+          <Timer className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-64 p-3 bg-[#2A2828] border-[#393939] text-white font-satoshi space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="click-enabled" className="text-sm font-bold">
+            Click track
+            {timeSignature && <span className="ml-2 text-xs font-normal text-white/50">{timeSignature}</span>}
+          </Label>
+          <Switch
+            id="click-enabled"
+            checked={clickTrack.enabled}
+            onCheckedChange={enabled => setClickTrackState({ enabled })}
+          />
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setClickTrackState({ isMuted: !clickTrack.isMuted })}
+            className={`h-6 w-6 p-0 ${clickTrack.isMuted ? 'text-[#FD5F57]' : 'text-white/70'}`}
+            aria-label={clickTrack.isMuted ? 'Unmute click' : 'Mute click'}
+          >
+            {clickTrack.isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+          </Button>
+          <Slider
+            value={[clickTrack.volume]}
+            onValueChange={(values) => setClickTrackState({ volume: values[0] })}
+            min={0}
+            max={100}
+            step={1}
+            className="flex-1"
+          />
+          <span className="w-9 text-right text-xs text-white/50">{clickTrack.volume}%</span>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="click-count-in" className="text-xs text-white/70">Count in one bar</Label>
+          <Switch
+            id="click-count-in"
+            checked={clickTrack.countIn}
+            onCheckedChange={countIn => setClickTrackState({ countIn })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, FileText, Gamepad2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { BeatAnalysisData, JobResultsResponse, TranscriptionData } from '@/types/api';
+import { api } from '@/lib/api';
+import { MixdownOptions } from '@/lib/audioEngine';
+import { PitchAnalysis, getNoteAt } from '@/lib/pitch';
+import {
+  LyricsExportFormat,
+  LYRICS_EXPORT_FORMATS,
+  exportLyrics
+} from '@/lib/lyricsExport';
+import { toUltraStar } from '@/lib/ultrastar';
+import { encodeWav } from '@/lib/wav';
+import { INSTRUMENTAL_TRACKS } from '@/lib/audioExport';
+import { AudioTags } from '@/lib/encoders';
+import { downloadBlob, toSafeFilename } from '@/lib/download';
+import { fetchWithOfflineCache } from '@/lib/offlineCache';
+import { useAudioExport } from '@/hooks/useAudioExport';
+import { useBundleDownload } from '@/hooks/useBundleDownload';
+import { AudioExportPanel } from '@/components/AudioExportPanel';
+import { BundleDownloadPanel } from '@/components/BundleDownloadPanel';
+
+export interface DownloadMenuProps {
+  results: JobResultsResponse;
+  transcription: TranscriptionData | null;
+  beatData: BeatAnalysisData | null;
+  // Melody for UltraStar note pitches, when it has been analysed
+  pitchAnalysis?: PitchAnalysis | null;
+  renderMixdown: (options?: MixdownOptions) => Promise<AudioBuffer>;
+}
+
+const MenuItem = ({ icon, label, onClick, disabled, isBusy }: {
+  icon: React.ReactNode;
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  isBusy?: boolean;
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled || isBusy}
+    className="w-full flex items-center space-x-2 px-2 py-1.5 rounded text-sm text-left text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent"
+  >
+    {isBusy ? <Loader2 className="h-4 w-4 text-white/60 animate-spin" /> : icon}
+    <span>{label}</span>
+  </button>
+);
+
+const MenuSection = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="space-y-1">
+    <div className="px-2 text-xs text-[#656565] font-bold uppercase tracking-wide">{title}</div>
+    {children}
+  </div>
+);
+
+export function DownloadMenu({ results, transcription, beatData, pitchAnalysis, renderMixdown }: DownloadMenuProps) {
+  const [busyItem, setBusyItem] = useState<string | null>(null);
+  const audioExport = useAudioExport(renderMixdown);
+  const bundle = useBundleDownload(results);
+  const metadata = results.audio_metadata;
+  const coverPath = metadata?.cover_image_path;
+
+  // Base name for downloaded files, e.g. "My Song"
+  const baseName = toSafeFilename(
+    metadata?.title || results.original_filename.replace(/\.[^.]+$/, '')
+  );
+
+  const handleLyricsExport = (format: LyricsExportFormat) => {
+    if (!transcription) return;
+
+    const info = LYRICS_EXPORT_FORMATS[format];
+    const content = exportLyrics(transcription, format, {
+      title: metadata?.title,
+      artist: metadata?.artist,
+      album: metadata?.album,
+      duration: metadata?.duration
+    });
+
+    downloadBlob(new Blob([content], { type: `${info.mimeType};charset=utf-8` }), `${baseName}.${info.extension}`);
+  };
+
+  // From the offline copy if there is one; a missing cover shouldn't fail an export
+  const fetchCover = async (): Promise<Blob | null> => {
+    if (!coverPath) return null;
+
+    try {
+      const response = await fetchWithOfflineCache(api.getFileDownloadURL(results.job_id, coverPath.split('/').pop() || ''));
+      return response.ok ? await response.blob() : null;
+    } catch (error) {
+      console.warn('Failed to fetch cover:', error);
+      return null;
+    }
+  };
+
+  // Tags for compressed exports
+  const getAudioTags = async (): Promise<AudioTags> => {
+    const tags: AudioTags = {
+      title: metadata?.title || baseName,
+      artist: metadata?.artist,
+      album: metadata?.album,
+      year: metadata?.year,
+      genre: metadata?.genre
+    };
+
+    const cover = await fetchCover();
+    if (cover) {
+      tags.cover = {
+        data: new Uint8Array(await cover.arrayBuffer()),
+        mimeType: cover.type || `image/${metadata?.cover_image_format?.toLowerCase() || 'jpeg'}`
+      };
+    }
+
+    return tags;
+  };
+
+  // UltraStar needs the song file, the instrumental and (optionally) the cover
+  const handleUltraStarExport = async () => {
+    if (!transcription) return;
+
+    setBusyItem('ultrastar');
+    try {
+      const audioFilename = `${baseName} [instrumental].wav`;
+      const coverExtension = coverPath?.split('.').pop() || 'jpg';
+      const coverFilename = coverPath ? `${baseName} [CO].${coverExtension}` : undefined;
+
+      const song = toUltraStar(transcription, beatData, {
+        title: metadata?.title || baseName,
+        artist: metadata?.artist || 'Unknown Artist',
+        audioFilename,
+        coverFilename,
+        language: transcription.language,
+        year: metadata?.year,
+        genre: metadata?.genre,
+        // UltraStar pitches count semitones from C4 (MIDI 60)
+        pitchAt: pitchAnalysis
+          ? (start, end) => {
+              const midi = getNoteAt(pitchAnalysis.notes, start, end);
+              return midi === null ? null : midi - 60;
+            }
+          : undefined
+      });
+      downloadBlob(new Blob([song], { type: 'text/plain;charset=utf-8' }), `${baseName}.txt`);
+
+      const instrumental = await renderMixdown({ includeTracks: INSTRUMENTAL_TRACKS });
+      downloadBlob(encodeWav(instrumental), audioFilename);
+
+      const cover = await fetchCover();
+      if (cover && coverFilename) {
+        downloadBlob(cover, coverFilename);
+      }
+
+      toast.success('UltraStar song exported', {
+        description: 'Put the downloaded files together in one folder of your songs directory.'
+      });
+    } catch (error) {
+      console.error('Failed to export UltraStar song:', error);
+      toast.error('UltraStar export failed', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      setBusyItem(null);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button className='bg-[#393939] hover:bg-[#393939]/80 w-8 h-8' aria-label="Downloads">
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-64 p-2 bg-[#2A2828] border-[#393939] font-satoshi space-y-2">
+        <MenuSection title="Everything">
+          <BundleDownloadPanel bundle={bundle} baseName={baseName} />
+        </MenuSection>
+        <MenuSection title="Audio">
+          <AudioExportPanel
+            exporter={audioExport}
+            baseName={baseName}
+            getTags={getAudioTags}
+            disabled={busyItem !== null}
+          />
+        </MenuSection>
+        <MenuSection title="Lyrics">
+          {(Object.keys(LYRICS_EXPORT_FORMATS) as LyricsExportFormat[]).map(format => (
+            <MenuItem
+              key={format}
+              icon={<FileText className="h-4 w-4 text-white/60" />}
+              label={LYRICS_EXPORT_FORMATS[format].label}
+              onClick={() => handleLyricsExport(format)}
+              disabled={!transcription}
+            />
+          ))}
+        </MenuSection>
+        <MenuSection title="Karaoke games">
+          <MenuItem
+            icon={<Gamepad2 className="h-4 w-4 text-white/60" />}
+            label="UltraStar song (.txt + audio)"
+            onClick={handleUltraStarExport}
+            disabled={!transcription || busyItem !== null || audioExport.isExporting}
+            isBusy={busyItem === 'ultrastar'}
+          />
+        </MenuSection>
+      </PopoverContent>
+    </Popover>
+  );
+}
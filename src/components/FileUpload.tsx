@@ -6,6 +6,7 @@ import { Music, AlertCircle, FileSearch, X, Loader } from 'lucide-react';
 import { MagneticButton } from '@/components/ui/buttons/magnetic';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { api, formatFileSize } from '@/lib/api';
+import { recordUpload } from '@/lib/library';
 import { ApiError, NetworkError, ValidationError } from '@/types/api';
 import { toast } from 'sonner';
 import { parseBlob } from 'music-metadata';
@@ -132,6 +133,7 @@ export function FileUpload({ onUploadSuccess, className }: FileUploadProps) {
       const result = await api.uploadFile(selectedFile, (progress) => {
         setUploadProgress(progress);
       });
+      recordUpload(result).catch(error => console.warn('Failed to add song to the library:', error));
 
       // toast.success('File uploaded successfully!', {
       //   description: `Processing started. Job ID: ${result.job_id}`,
@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+import { Minus, Plus, MicVocal } from 'lucide-react';
+import { MAX_PITCH_SHIFT } from '@/lib/audioEngine';
+
+export interface KeyChangeControlProps {
+  semitones: number;
+  shiftVocals: boolean;
+  onChange: (semitones: number) => void;
+  onShiftVocalsChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+const formatSemitones = (semitones: number) => (semitones > 0 ? `+${semitones}` : `${semitones}`);
+
+export function KeyChangeControl({
+  semitones,
+  shiftVocals,
+  onChange,
+  onShiftVocalsChange,
+  disabled
+}: KeyChangeControlProps) {
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-sm text-[#626060] font-satoshi font-bold mb-[2px]">key</span>
+      <button
+        onClick={() => onChange(semitones - 1)}
+        disabled={disabled || semitones <= -MAX_PITCH_SHIFT}
+        className="text-white/70 hover:text-white disabled:opacity-40"
+        aria-label="Lower key by a semitone"
+      >
+        <Minus className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onDoubleClick={() => onChange(0)}
+        disabled={disabled}
+        className={`w-7 text-center text-sm font-satoshi font-bold ${semitones === 0 ? 'text-white/60' : 'text-[#FD5F57]'}`}
+        title="Double-click to reset"
+      >
+        {formatSemitones(semitones)}
+      </button>
+      <button
+        onClick={() => onChange(semitones + 1)}
+        disabled={disabled || semitones >= MAX_PITCH_SHIFT}
+        className="text-white/70 hover:text-white disabled:opacity-40"
+        aria-label="Raise key by a semitone"
+      >
+        <Plus className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => onShiftVocalsChange(!shiftVocals)}
+        disabled={disabled}
+        className={`p-1 rounded ${shiftVocals ? 'bg-[#3E84E8]/30 text-[#3E84E8]' : 'text-white/40 hover:text-white/70'}`}
+        aria-label="Shift guide vocals too"
+        aria-pressed={shiftVocals}
+        title={shiftVocals ? 'Guide vocals follow the key change' : 'Guide vocals stay in the original key'}
+      >
+        <MicVocal className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
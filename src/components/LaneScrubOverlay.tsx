@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { TranscriptionData } from '@/types/api';
+import { findSegmentIndex, findWordIndex } from '@/lib/lyrics';
+import { TimelineView, ratioToTime, timeToRatio } from '@/lib/timelineView';
+import { UseAudioPlayerReturn } from '@/hooks/useAudioPlayer';
+
+// Pointer movement (px) before a press on a lane counts as a drag
+const DRAG_THRESHOLD = 4;
+
+interface ScrubState {
+  pointerId: number;
+  originX: number;
+  wasPlaying: boolean;
+  moved: boolean;
+  time: number;
+}
+
+export interface LaneScrubOverlayProps {
+  view: TimelineView;
+  duration: number;
+  transcription: TranscriptionData | null;
+  player: Pick<UseAudioPlayerReturn, 'isPlaying' | 'play' | 'pause' | 'seek' | 'scrub'>;
+  // Positions the overlay over the lanes
+  className?: string;
+}
+
+// "1:23.4": tenths matter once the timeline is zoomed in
+const formatPreciseTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
+
+const getWordAt = (transcription: TranscriptionData | null, time: number): string | null => {
+  if (!transcription) return null;
+  const segment = transcription.segments[findSegmentIndex(transcription.segments, time)];
+  const word = segment?.words[findWordIndex(segment, time)];
+  return word ? word.word.trim() : null;
+};
+
+// Covers the stem lanes: click to seek, drag to scrub (with audio), and hover
+// for the time and lyric under the pointer. Works with mouse, pen and touch.
+export function LaneScrubOverlay({ view, duration, transcription, player, className = '' }: LaneScrubOverlayProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const scrubRef = useRef<ScrubState | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+
+  const timeAt = (clientX: number): number => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const time = ratioToTime(view, Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)));
+    return Math.max(0, Math.min(duration, time));
+  };
+
+  const endScrub = () => {
+    scrubRef.current = null;
+    setScrubTime(null);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+
+    // A second finger means a pinch; give up the scrub
+    if (scrubRef.current) {
+      const { moved, wasPlaying } = scrubRef.current;
+      endScrub();
+      if (moved && wasPlaying) player.play().catch(error => console.error('Failed to resume playback:', error));
+      return;
+    }
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    scrubRef.current = {
+      pointerId: event.pointerId,
+      originX: event.clientX,
+      wasPlaying: player.isPlaying,
+      moved: false,
+      time: timeAt(event.clientX)
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const time = timeAt(event.clientX);
+    setHoverTime(time);
+
+    const scrub = scrubRef.current;
+    if (!scrub || scrub.pointerId !== event.pointerId) return;
+    if (!scrub.moved && Math.abs(event.clientX - scrub.originX) < DRAG_THRESHOLD) return;
+
+    // Scrubbing is heard while paused, so playback stops for the drag
+    if (!scrub.moved && scrub.wasPlaying) player.pause();
+    scrub.moved = true;
+    scrub.time = time;
+    setScrubTime(time);
+    player.scrub(time);
+  };
+
+  const handlePointerUp = async (event: React.PointerEvent<HTMLDivElement>) => {
+    const scrub = scrubRef.current;
+    if (!scrub || scrub.pointerId !== event.pointerId) return;
+    endScrub();
+
+    const time = scrub.moved ? scrub.time : timeAt(event.clientX);
+    try {
+      await player.seek(time);
+      if (scrub.moved && scrub.wasPlaying) await player.play();
+    } catch (error) {
+      console.error('Failed to seek:', error);
+    }
+  };
+
+  const handlePointerCancel = () => {
+    const scrub = scrubRef.current;
+    endScrub();
+    if (scrub?.moved && scrub.wasPlaying) player.play().catch(error => console.error('Failed to resume playback:', error));
+  };
+
+  const markerTime = scrubTime ?? hoverTime;
+  const markerLeft = markerTime === null ? 0 : timeToRatio(view, markerTime) * 100;
+  const word = markerTime === null ? null : getWordAt(transcription, markerTime);
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute cursor-pointer select-none ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onPointerLeave={() => setHoverTime(null)}
+    >
+      {markerTime !== null && (
+        <>
+          <div
+            className={`absolute top-0 bottom-0 w-px pointer-events-none ${scrubTime !== null ? 'bg-[#FD5F57]' : 'bg-white/40'}`}
+            style={{ left: `${markerLeft}%` }}
+          />
+          <div
+            className="absolute -top-3 -translate-x-1/2 px-1.5 py-0.5 rounded bg-black/80 text-[10px] text-white font-satoshi font-bold whitespace-nowrap pointer-events-none z-20"
+            style={{ left: `${markerLeft}%` }}
+          >
+            {formatPreciseTime(markerTime)}
+            {word && <span className="ml-1.5 text-white/60">{word}</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
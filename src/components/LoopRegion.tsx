@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { Repeat, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LoopRegion, MIN_LOOP_LENGTH } from '@/lib/audioEngine';
+import { SnapMode } from '@/lib/beatGrid';
+import { TimelineView, ratioToTime, timeToRatio } from '@/lib/timelineView';
+
+// Pointer movement (px) before a press on the ruler counts as a drag
+const DRAG_THRESHOLD = 4;
+
+type DragKind = 'create' | 'start' | 'end' | 'move';
+
+interface DragState {
+  kind: DragKind;
+  originX: number;
+  originTime: number;
+  region: LoopRegion | null;
+  moved: boolean;
+}
+
+export interface LoopRegionOverlayProps {
+  duration: number;
+  // Visible part of the song (the timeline may be zoomed)
+  view: TimelineView;
+  region: LoopRegion | null;
+  isActive: boolean;
+  rulerHeight: number; // px; drags on the ruler create a new region
+  snap: (time: number) => number;
+  onChange: (region: LoopRegion) => void;
+  // Plain clicks on the ruler (no drag) still seek
+  onRulerClick: (event: React.MouseEvent<HTMLDivElement>) => void;
+}
+
+// Covers the ruler and the waveform lanes; only the ruler strip and the
+// handles take pointer events
+export function LoopRegionOverlay({
+  duration,
+  view,
+  region,
+  isActive,
+  rulerHeight,
+  snap,
+  onChange,
+  onRulerClick
+}: LoopRegionOverlayProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const timeAt = (clientX: number): number => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return ratioToTime(view, Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)));
+  };
+
+  const handlePointerDown = (kind: DragKind) => (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || duration <= 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      kind,
+      originX: event.clientX,
+      originTime: timeAt(event.clientX),
+      region,
+      moved: false
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.moved && Math.abs(event.clientX - drag.originX) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+
+    const time = timeAt(event.clientX);
+    const original = drag.region;
+
+    switch (drag.kind) {
+      case 'create': {
+        const a = snap(drag.originTime);
+        const b = snap(time);
+        if (Math.abs(b - a) >= MIN_LOOP_LENGTH) {
+          onChange({ start: Math.min(a, b), end: Math.max(a, b) });
+        }
+        break;
+      }
+      case 'start':
+        if (original) {
+          onChange({ start: Math.min(snap(time), original.end - MIN_LOOP_LENGTH), end: original.end });
+        }
+        break;
+      case 'end':
+        if (original) {
+          onChange({ start: original.start, end: Math.max(snap(time), original.start + MIN_LOOP_LENGTH) });
+        }
+        break;
+      case 'move':
+        if (original) {
+          const length = original.end - original.start;
+          const start = Math.max(0, Math.min(duration - length, snap(original.start + time - drag.originTime)));
+          onChange({ start, end: start + length });
+        }
+        break;
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.kind === 'create' && !drag.moved) {
+      onRulerClick(event);
+    }
+  };
+
+  const dragHandlers = {
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: () => { dragRef.current = null; }
+  };
+
+  const viewLength = view.end - view.start;
+  const left = region && viewLength > 0 ? timeToRatio(view, region.start) * 100 : 0;
+  const width = region && viewLength > 0 ? ((region.end - region.start) / viewLength) * 100 : 0;
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none z-10">
+      {/* Ruler hit area: click to seek, drag to select a loop */}
+      <div
+        className="absolute top-0 inset-x-0 cursor-pointer pointer-events-auto"
+        style={{ height: rulerHeight }}
+        onPointerDown={handlePointerDown('create')}
+        {...dragHandlers}
+      />
+
+      {region && (
+        <div
+          className={`absolute top-0 bottom-0 border-x-2 ${isActive ? 'bg-[#FD5F57]/15 border-[#FD5F57]' : 'bg-white/5 border-white/30'}`}
+          style={{ left: `${left}%`, width: `${width}%` }}
+        >
+          {/* Ruler part of the region drags the whole loop */}
+          <div
+            className="absolute top-0 inset-x-0 cursor-grab active:cursor-grabbing pointer-events-auto"
+            style={{ height: rulerHeight }}
+            onPointerDown={handlePointerDown('move')}
+            {...dragHandlers}
+          />
+          <div
+            className="absolute top-0 bottom-0 -left-1.5 w-3 cursor-ew-resize pointer-events-auto"
+            onPointerDown={handlePointerDown('start')}
+            aria-label="Loop start"
+            {...dragHandlers}
+          />
+          <div
+            className="absolute top-0 bottom-0 -right-1.5 w-3 cursor-ew-resize pointer-events-auto"
+            onPointerDown={handlePointerDown('end')}
+            aria-label="Loop end"
+            {...dragHandlers}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+const SNAP_MODES: SnapMode[] = ['off', 'beat', 'bar'];
+
+export interface LoopControlsProps {
+  hasRegion: boolean;
+  isActive: boolean;
+  snapMode: SnapMode;
+  canSnap: boolean;
+  onToggle: () => void;
+  onClear: () => void;
+  onSnapModeChange: (mode: SnapMode) => void;
+}
+
+export function LoopControls({
+  hasRegion,
+  isActive,
+  snapMode,
+  canSnap,
+  onToggle,
+  onClear,
+  onSnapModeChange
+}: LoopControlsProps) {
+  const nextSnapMode = SNAP_MODES[(SNAP_MODES.indexOf(snapMode) + 1) % SNAP_MODES.length];
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Button
+        onClick={onToggle}
+        disabled={!hasRegion}
+        className={`w-8 h-8 ${isActive ? 'bg-[#FD5F57] hover:bg-[#FD5F57]/80' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+        aria-label={isActive ? 'Stop looping' : 'Loop selection'}
+        title={hasRegion ? undefined : 'Drag on the timeline to select a loop'}
+      >
+        <Repeat className="h-4 w-4" />
+      </Button>
+      <button
+        onClick={() => onSnapModeChange(nextSnapMode)}
+        disabled={!canSnap}
+        className="text-sm text-[#626060] hover:text-white/70 font-satoshi font-bold disabled:opacity-40 whitespace-nowrap"
+        title="Snap loop points to the beat grid"
+      >
+        snap: {canSnap ? snapMode : 'off'}
+      </button>
+      {hasRegion && (
+        <button onClick={onClear} className="text-white/40 hover:text-white/70" aria-label="Clear loop">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
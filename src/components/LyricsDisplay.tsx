@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { TranscriptionData, TranscriptionSegment } from '@/types/api';
+import {
+  findSegmentIndex,
+  findNextSegmentIndex,
+  getWordProgress
+} from '@/lib/lyrics';
+
+export interface LyricsDisplayProps {
+  transcription: TranscriptionData | null;
+  currentTime: number;
+  isLoading?: boolean;
+  className?: string;
+}
+
+const LyricsLine = ({ segment, currentTime, isActive }: {
+  segment: TranscriptionSegment;
+  currentTime: number;
+  isActive: boolean;
+}) => {
+  // Segments without word timings are highlighted as a whole line
+  if (segment.words.length === 0) {
+    return (
+      <div className={`font-satoshi font-bold ${isActive ? 'text-3xl text-white' : 'text-xl text-white/40'}`}>
+        {segment.text}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`font-satoshi font-bold flex flex-wrap justify-center gap-x-2 ${isActive ? 'text-3xl' : 'text-xl'}`}>
+      {segment.words.map((word, index) => {
+        const progress = isActive ? getWordProgress(word, currentTime) : 0;
+
+        return (
+          <span key={`${word.start}-${index}`} className="relative inline-block">
+            {/* Unsung text */}
+            <span className={isActive ? 'text-white/50' : 'text-white/30'}>
+              {word.word.trim()}
+            </span>
+            {/* Sung text, revealed left to right as the word plays */}
+            <span
+              className="absolute inset-0 overflow-hidden whitespace-nowrap text-[#FD5F57] transition-[width] duration-100 ease-linear pointer-events-none"
+              style={{ width: `${progress * 100}%` }}
+              aria-hidden
+            >
+              {word.word.trim()}
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export function LyricsDisplay({
+  transcription,
+  currentTime,
+  isLoading = false,
+  className = ''
+}: LyricsDisplayProps) {
+  if (isLoading) {
+    return (
+      <div className={`text-center text-white/50 text-lg ${className}`}>
+        Loading lyrics...
+      </div>
+    );
+  }
+
+  if (!transcription || transcription.segments.length === 0) {
+    return null;
+  }
+
+  const segments = transcription.segments;
+  const activeIndex = findSegmentIndex(segments, currentTime);
+
+  // Between lines we show the upcoming line dimmed, followed by the one after it
+  const currentIndex = activeIndex !== -1 ? activeIndex : findNextSegmentIndex(segments, currentTime);
+  if (currentIndex === -1) {
+    return null;
+  }
+
+  const currentSegment = segments[currentIndex];
+  const nextSegment = segments[currentIndex + 1];
+
+  return (
+    <div className={`flex flex-col items-center space-y-3 text-center px-8 ${className}`}>
+      <LyricsLine
+        key={`current-${currentIndex}`}
+        segment={currentSegment}
+        currentTime={currentTime}
+        isActive={activeIndex !== -1}
+      />
+      {nextSegment && (
+        <LyricsLine
+          key={`next-${currentIndex + 1}`}
+          segment={nextSegment}
+          currentTime={currentTime}
+          isActive={false}
+        />
+      )}
+    </div>
+  );
+}
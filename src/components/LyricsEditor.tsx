@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Undo2,
+  Redo2,
+  Split,
+  Merge,
+  Download,
+  RotateCcw,
+  X
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { TranscriptionData, TranscriptionWord } from '@/types/api';
+import { WordPosition, MIN_WORD_DURATION } from '@/lib/lyrics';
+import { TimelineView, timeToRatio } from '@/lib/timelineView';
+import { UseLyricsEditorReturn } from '@/hooks/useLyricsEditor';
+import { LyricsImportButton } from './LyricsImportButton';
+
+type DragMode = 'start' | 'end' | 'move' | 'segment';
+
+interface DragState {
+  mode: DragMode;
+  position: WordPosition;
+  originX: number;
+  laneWidth: number;
+  delta: number;
+}
+
+export interface LyricsEditorLaneProps {
+  transcription: TranscriptionData | null;
+  duration: number;
+  // Visible part of the song (the timeline may be zoomed)
+  view: TimelineView;
+  selectedWord: WordPosition | null;
+  onSelectWord: (position: WordPosition | null) => void;
+  onWordTimingChange: (position: WordPosition, start: number, end: number) => void;
+  onWordMove: (position: WordPosition, delta: number) => void;
+  onSegmentShift: (segmentIndex: number, delta: number) => void;
+}
+
+// Word boxes overlaid on the vocals lane. Drag the edges to move a word's
+// start/end, drag the body to move the word, shift+drag to move its segment.
+export function LyricsEditorLane({
+  transcription,
+  duration,
+  view,
+  selectedWord,
+  onSelectWord,
+  onWordTimingChange,
+  onWordMove,
+  onSegmentShift
+}: LyricsEditorLaneProps) {
+  const laneRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  if (!transcription || duration <= 0) {
+    return null;
+  }
+
+  // Apply the in-progress drag to a word for preview
+  const previewWord = (word: TranscriptionWord, position: WordPosition) => {
+    if (!drag) return word;
+
+    const sameSegment = drag.position.segmentIndex === position.segmentIndex;
+    const sameWord = sameSegment && drag.position.wordIndex === position.wordIndex;
+
+    if (drag.mode === 'segment' && sameSegment) {
+      return { ...word, start: word.start + drag.delta, end: word.end + drag.delta };
+    }
+    if (!sameWord) return word;
+
+    switch (drag.mode) {
+      case 'start':
+        return { ...word, start: Math.min(word.start + drag.delta, word.end - MIN_WORD_DURATION) };
+      case 'end':
+        return { ...word, end: Math.max(word.end + drag.delta, word.start + MIN_WORD_DURATION) };
+      case 'move':
+        return { ...word, start: word.start + drag.delta, end: word.end + drag.delta };
+      default:
+        return word;
+    }
+  };
+
+  const handlePointerDown = (
+    event: React.PointerEvent<HTMLDivElement>,
+    position: WordPosition,
+    mode: DragMode
+  ) => {
+    event.stopPropagation();
+    if (!laneRef.current) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSelectWord(position);
+    setDrag({
+      mode: mode === 'move' && event.shiftKey ? 'segment' : mode,
+      position,
+      originX: event.clientX,
+      laneWidth: laneRef.current.getBoundingClientRect().width,
+      delta: 0
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const delta = ((event.clientX - drag.originX) / drag.laneWidth) * (view.end - view.start);
+    setDrag({ ...drag, delta });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+
+    const { mode, position, delta } = drag;
+    setDrag(null);
+
+    // Ignore clicks that didn't really move anything
+    if (Math.abs(delta) < 0.005) return;
+
+    if (mode === 'segment') {
+      onSegmentShift(position.segmentIndex, delta);
+      return;
+    }
+    if (mode === 'move') {
+      onWordMove(position, delta);
+      return;
+    }
+
+    const word = transcription.segments[position.segmentIndex]?.words[position.wordIndex];
+    if (!word) return;
+
+    const updated = previewWord(word, position);
+    onWordTimingChange(position, updated.start, updated.end);
+  };
+
+  return (
+    <div
+      ref={laneRef}
+      className="absolute inset-0 z-10"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+      onPointerDown={() => onSelectWord(null)}
+    >
+      {transcription.segments.map((segment, segmentIndex) =>
+        segment.words.map((rawWord, wordIndex) => {
+          const position = { segmentIndex, wordIndex };
+          const word = previewWord(rawWord, position);
+          const isSelected = selectedWord?.segmentIndex === segmentIndex && selectedWord?.wordIndex === wordIndex;
+          const isSelectedSegment = selectedWord?.segmentIndex === segmentIndex;
+          if (word.end < view.start || word.start > view.end) return null;
+
+          return (
+            <div
+              key={`${segmentIndex}-${wordIndex}`}
+              className={`absolute top-0 h-full rounded-sm border text-[9px] leading-[23px] text-white font-satoshi font-bold overflow-hidden whitespace-nowrap cursor-grab select-none touch-none ${
+                isSelected
+                  ? 'bg-[#FD5F57]/80 border-white z-20'
+                  : isSelectedSegment
+                    ? 'bg-[#FD5F57]/40 border-[#FD5F57]'
+                    : 'bg-black/40 border-white/40 hover:bg-black/60'
+              }`}
+              style={{
+                left: `${timeToRatio(view, word.start) * 100}%`,
+                width: `${((word.end - word.start) / (view.end - view.start)) * 100}%`
+              }}
+              title={`${rawWord.word.trim()} (${word.start.toFixed(2)}s – ${word.end.toFixed(2)}s)`}
+              onPointerDown={(event) => handlePointerDown(event, position, 'move')}
+            >
+              <span className="px-1 pointer-events-none">{rawWord.word.trim()}</span>
+              {/* Edge handles */}
+              <div
+                className="absolute left-0 top-0 h-full w-1 cursor-ew-resize bg-white/60"
+                onPointerDown={(event) => handlePointerDown(event, position, 'start')}
+              />
+              <div
+                className="absolute right-0 top-0 h-full w-1 cursor-ew-resize bg-white/60"
+                onPointerDown={(event) => handlePointerDown(event, position, 'end')}
+              />
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+export interface LyricsEditorToolbarProps {
+  editor: UseLyricsEditorReturn;
+  // Unedited machine transcription, used to align imported lyrics
+  reference: TranscriptionData | null;
+  duration: number;
+  onClose: () => void;
+}
+
+// Step used by the segment nudge buttons, in seconds
+const SEGMENT_NUDGE = 0.1;
+
+export function LyricsEditorToolbar({ editor, reference, duration, onClose }: LyricsEditorToolbarProps) {
+  const { transcription, selectedWord, undo, redo } = editor;
+  const selected = selectedWord && transcription
+    ? transcription.segments[selectedWord.segmentIndex]?.words[selectedWord.wordIndex] || null
+    : null;
+
+  const [wordText, setWordText] = useState('');
+
+  // Keep the text field in sync with the selected word
+  useEffect(() => {
+    setWordText(selected ? selected.word.trim() : '');
+  }, [selected]);
+
+  // Undo/redo shortcuts while the editor is open
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const commitWordText = () => {
+    if (selectedWord && selected && wordText.trim() && wordText.trim() !== selected.word.trim()) {
+      editor.setWordText(selectedWord, wordText);
+    }
+  };
+
+  const canMerge = !!selectedWord && !!transcription &&
+    selectedWord.wordIndex < (transcription.segments[selectedWord.segmentIndex]?.words.length || 0) - 1;
+
+  return (
+    <div className="bg-black/70 backdrop-blur-sm rounded-lg p-3 text-white font-satoshi space-y-3 w-80">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold">
+          Lyrics editor {editor.isEdited && <span className="text-white/50 font-normal">(edited)</span>}
+        </span>
+        <button onClick={onClose} aria-label="Close lyrics editor">
+          <X className="h-4 w-4 text-white/70 hover:text-white" />
+        </button>
+      </div>
+
+      {/* Selected word */}
+      {selected && selectedWord ? (
+        <div className="space-y-2">
+          <div className="text-xs text-white/50">
+            {selected.start.toFixed(2)}s – {selected.end.toFixed(2)}s
+          </div>
+          <Input
+            value={wordText}
+            onChange={(event) => setWordText(event.target.value)}
+            onBlur={commitWordText}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') commitWordText();
+            }}
+            className="h-8 bg-white/10 border-white/20 text-white"
+          />
+          <div className="flex flex-wrap gap-1">
+            <Button size="sm" variant="secondary" onClick={() => editor.splitWord(selectedWord)}>
+              <Split className="h-3 w-3 mr-1" /> Split
+            </Button>
+            <Button size="sm" variant="secondary" disabled={!canMerge} onClick={() => editor.mergeWordWithNext(selectedWord)}>
+              <Merge className="h-3 w-3 mr-1" /> Merge next
+            </Button>
+          </div>
+          <div className="flex items-center gap-1 text-xs text-white/70">
+            <span className="mr-1">Line</span>
+            <Button size="sm" variant="secondary" onClick={() => editor.shiftSegment(selectedWord.segmentIndex, -SEGMENT_NUDGE)}>
+              −{SEGMENT_NUDGE}s
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => editor.shiftSegment(selectedWord.segmentIndex, SEGMENT_NUDGE)}>
+              +{SEGMENT_NUDGE}s
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-white/50">
+          Select a word on the vocals lane. Drag edges to re-time, shift+drag to move a whole line.
+        </p>
+      )}
+
+      {/* Import external lyrics */}
+      <div className="pt-2 border-t border-white/10">
+        <LyricsImportButton
+          reference={reference}
+          duration={duration}
+          onImport={editor.replaceTranscription}
+        />
+      </div>
+
+      {/* History and export */}
+      <div className="flex items-center gap-1 pt-2 border-t border-white/10">
+        <Button size="sm" variant="ghost" disabled={!editor.canUndo} onClick={editor.undo} aria-label="Undo">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" disabled={!editor.canRedo} onClick={editor.redo} aria-label="Redo">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" disabled={!editor.isEdited} onClick={editor.resetToOriginal} aria-label="Reset to original">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" className="ml-auto" disabled={!transcription} onClick={() => editor.exportJson()}>
+          <Download className="h-4 w-4 mr-1" /> JSON
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { TranscriptionData, ValidationError } from '@/types/api';
+import { parseLyricsFile, alignToTranscription } from '@/lib/lyricsImport';
+
+export interface LyricsImportButtonProps {
+  // Machine transcription to borrow word timings from
+  reference: TranscriptionData | null;
+  duration: number;
+  onImport: (data: TranscriptionData) => void;
+}
+
+export function LyricsImportButton({ reference, duration, onImport }: LyricsImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [alignWords, setAlignWords] = useState(true);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again later
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      const imported = parseLyricsFile(content, file.name, {
+        duration: duration || undefined,
+        language: reference?.language
+      });
+
+      const result = alignWords && reference ? alignToTranscription(imported, reference) : imported;
+      onImport(result);
+
+      toast.success('Lyrics imported', {
+        description: `${result.segments.length} lines from ${file.name}`
+      });
+    } catch (error) {
+      console.error('Failed to import lyrics:', error);
+      toast.error('Failed to import lyrics', {
+        description: error instanceof ValidationError ? error.message : 'The file could not be read.'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".lrc,.srt,.vtt,text/plain,text/vtt"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <Button size="sm" variant="secondary" className="w-full" onClick={() => inputRef.current?.click()}>
+        <Upload className="h-3 w-3 mr-1" /> Import LRC / SRT / VTT
+      </Button>
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="align-imported-lyrics"
+          checked={alignWords}
+          onCheckedChange={setAlignWords}
+          disabled={!reference}
+        />
+        <Label htmlFor="align-imported-lyrics" className="text-xs text-white/70">
+          Align words to the transcription
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  AudioInputDevice,
+  MAX_COMFORTABLE_MONITOR_LATENCY,
+  MicSettings,
+  listAudioInputDevices
+} from '@/lib/microphone';
+import { UseAudioPlayerReturn } from '@/hooks/useAudioPlayer';
+
+export interface MicPanelProps {
+  player: Pick<
+    UseAudioPlayerReturn,
+    'micStatus' | 'micSettings' | 'startMicrophone' | 'stopMicrophone' | 'setMicSettings' | 'getMicLevel'
+  >;
+}
+
+const selectClassName = 'w-full bg-[#393939] text-white text-sm rounded px-2 py-1 outline-none disabled:opacity-40';
+
+// Peak meter redrawn every frame without re-rendering React
+const MicLevelMeter = ({ getLevel }: { getLevel: () => number }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frameId: number;
+    const draw = () => {
+      const level = getLevel();
+      if (barRef.current) {
+        barRef.current.style.width = `${level * 100}%`;
+        barRef.current.style.backgroundColor = level > 0.9 ? '#FD5F57' : level > 0.6 ? '#F5C542' : '#4EF5C3';
+      }
+      frameId = requestAnimationFrame(draw);
+    };
+    frameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frameId);
+  }, [getLevel]);
+
+  return (
+    <div className="h-1.5 w-full bg-[#393939] rounded-full overflow-hidden" aria-label="Input level">
+      <div ref={barRef} className="h-full w-0 rounded-full" />
+    </div>
+  );
+};
+
+const SettingSlider = ({ label, value, display, min = 0, max = 100, step = 1, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="space-y-1.5">
+    <div className="flex items-center justify-between text-xs">
+      <span className="text-white/70">{label}</span>
+      <span className="text-white/50">{display}</span>
+    </div>
+    <Slider value={[value]} onValueChange={(values) => onChange(values[0])} min={min} max={max} step={step} />
+  </div>
+);
+
+export function MicPanel({ player }: MicPanelProps) {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const { micStatus, micSettings, setMicSettings } = player;
+
+  const refreshDevices = () => {
+    listAudioInputDevices()
+      .then(setDevices)
+      .catch(error => console.warn('Failed to list audio inputs:', error));
+  };
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, []);
+
+  const startMicrophone = async (deviceId?: string) => {
+    setIsStarting(true);
+    try {
+      await player.startMicrophone(deviceId);
+      // Device labels only become available after permission is granted
+      refreshDevices();
+    } catch (error) {
+      console.error('Failed to start microphone:', error);
+      toast.error('Could not open the microphone', {
+        description: error instanceof DOMException && error.name === 'NotAllowedError'
+          ? 'Allow microphone access in your browser to sing along.'
+          : error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    if (enabled) {
+      startMicrophone(micStatus.deviceId ?? undefined);
+    } else {
+      player.stopMicrophone();
+    }
+  };
+
+  const updateSetting = <K extends keyof MicSettings>(key: K, value: MicSettings[K]) => {
+    setMicSettings({ [key]: value } as Partial<MicSettings>);
+  };
+
+  const latencyMs = Math.round(micStatus.latency * 1000);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          className={`w-8 h-8 ${micStatus.isActive ? 'bg-[#FD5F57] hover:bg-[#FD5F57]/80' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+          aria-label="Microphone"
+        >
+          {micStatus.isActive ? <Mic className="h-4 w-4" /> : <MicOff className="h-4 w-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-72 p-3 bg-[#2A2828] border-[#393939] text-white font-satoshi space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="mic-enabled" className="text-sm font-bold">Microphone</Label>
+          <Switch
+            id="mic-enabled"
+            checked={micStatus.isActive}
+            onCheckedChange={handleToggle}
+            disabled={isStarting}
+          />
+        </div>
+
+        <select
+          value={micStatus.deviceId ?? ''}
+          onChange={event => startMicrophone(event.target.value || undefined)}
+          disabled={isStarting || devices.length === 0}
+          className={selectClassName}
+          aria-label="Input device"
+        >
+          {!micStatus.deviceId && <option value="">Default input</option>}
+          {devices.map(device => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+          ))}
+        </select>
+
+        {micStatus.isActive && <MicLevelMeter getLevel={player.getMicLevel} />}
+
+        <SettingSlider
+          label="Input gain"
+          value={micSettings.inputGain}
+          display={`${micSettings.inputGain}%`}
+          onChange={value => updateSetting('inputGain', value)}
+        />
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="mic-monitor" className="text-xs text-white/70">Hear yourself</Label>
+            <Switch
+              id="mic-monitor"
+              checked={micSettings.monitor}
+              onCheckedChange={value => updateSetting('monitor', value)}
+            />
+          </div>
+          {micStatus.isActive && (
+            <p className={`text-xs ${micStatus.latency > MAX_COMFORTABLE_MONITOR_LATENCY ? 'text-[#F5C542]' : 'text-white/50'}`}>
+              About {latencyMs} ms delay.
+              {micStatus.latency > MAX_COMFORTABLE_MONITOR_LATENCY && ' That may be noticeable; a wired headset helps.'}
+              {' '}Use headphones to avoid feedback.
+            </p>
+          )}
+        </div>
+
+        <SettingSlider
+          label="Reverb"
+          value={micSettings.reverb}
+          display={`${micSettings.reverb}%`}
+          onChange={value => updateSetting('reverb', value)}
+        />
+        <SettingSlider
+          label="Echo"
+          value={micSettings.echo}
+          display={`${micSettings.echo}%`}
+          onChange={value => updateSetting('echo', value)}
+        />
+        <SettingSlider
+          label="Echo time"
+          value={Math.round(micSettings.echoTime * 1000)}
+          display={`${Math.round(micSettings.echoTime * 1000)} ms`}
+          min={50}
+          max={1000}
+          step={10}
+          onChange={value => updateSetting('echoTime', value / 1000)}
+        />
+        <SettingSlider
+          label="Echo feedback"
+          value={micSettings.echoFeedback}
+          display={`${micSettings.echoFeedback}%`}
+          max={90}
+          onChange={value => updateSetting('echoFeedback', value)}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
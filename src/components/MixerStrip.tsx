@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TrackControl } from './TrackControl';
+import { UseAudioPlayerReturn } from '@/hooks/useAudioPlayer';
+
+// Same order as the waveform lanes
+const MIXER_TRACKS: { name: string; displayName: string }[] = [
+  { name: 'vocals', displayName: 'Vocals' },
+  { name: 'other', displayName: 'Other' },
+  { name: 'bass', displayName: 'Bass' },
+  { name: 'drums', displayName: 'Drums' }
+];
+
+export interface MixerStripProps {
+  player: Pick<
+    UseAudioPlayerReturn,
+    | 'trackStates'
+    | 'setTrackVolume'
+    | 'toggleTrackMuted'
+    | 'toggleTrackSolo'
+    | 'setTrackPan'
+    | 'setTrackEq'
+  >;
+  disabled?: boolean;
+}
+
+export function MixerStrip({ player, disabled }: MixerStripProps) {
+  const hasSolo = Object.values(player.trackStates).some(state => state.isSolo);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          disabled={disabled}
+          className={`w-8 h-8 ${hasSolo ? 'bg-[#3E84E8] hover:bg-[#3E84E8]/80' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+          aria-label="Mixer"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-[720px] p-2 bg-[#1A1B1D] border-[#393939] font-satoshi">
+        <div className="grid grid-cols-4 gap-2">
+          {MIXER_TRACKS.map(({ name, displayName }) => {
+            const state = player.trackStates[name];
+            if (!state) return null;
+
+            return (
+              <TrackControl
+                key={name}
+                trackName={name}
+                displayName={displayName}
+                volume={state.volume}
+                isMuted={state.isMuted}
+                isSolo={state.isSolo}
+                isAudible={state.isAudible}
+                onVolumeChange={(volume) => player.setTrackVolume(name, volume / 100)}
+                onMuteToggle={() => player.toggleTrackMuted(name)}
+                onSoloToggle={() => player.toggleTrackSolo(name)}
+                pan={state.pan}
+                onPanChange={(pan) => player.setTrackPan(name, pan)}
+                eq={state.eq}
+                onEqChange={(band, gainDb) => player.setTrackEq(name, band, gainDb)}
+                disabled={!state.isLoaded}
+              />
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { HardDriveDownload, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { formatFileSize } from '@/lib/api';
+import { StorageUsage } from '@/lib/offlineCache';
+import { UseOfflineSongReturn } from '@/hooks/useOfflineSong';
+
+export interface OfflineControlProps {
+  offline: UseOfflineSongReturn;
+}
+
+export const StorageUsageText = ({ storage, className = '' }: { storage: StorageUsage | null; className?: string }) => {
+  if (!storage || storage.quota === 0) return null;
+  return (
+    <span className={className}>
+      {formatFileSize(storage.usage)} of {formatFileSize(storage.quota)} used
+    </span>
+  );
+};
+
+// Keeps the song's stems, lyrics and beats in the browser so it can be sung
+// after the server deletes them
+export function OfflineControl({ offline }: OfflineControlProps) {
+  const { offlineSong, isSaving, progress, storage } = offline;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          disabled={!offline.isSupported}
+          className={`w-8 h-8 ${offlineSong ? 'bg-[#3E84E8] hover:bg-[#3E84E8]/80' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+          aria-label="Keep offline"
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <HardDriveDownload className="h-4 w-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-64 p-3 bg-[#2A2828] border-[#393939] text-white font-satoshi space-y-3">
+        <div className="space-y-1">
+          <div className="text-sm font-bold">Keep offline</div>
+          <p className="text-xs text-white/50">
+            {offlineSong
+              ? `Saved in this browser (${formatFileSize(offlineSong.bytes)}), so it stays playable after the server deletes it.`
+              : 'The server deletes songs after 24 hours. Save this one in the browser to keep singing it.'}
+          </p>
+        </div>
+
+        {isSaving && progress && (
+          <div className="space-y-1">
+            <Progress value={(progress.done / progress.total) * 100} className="h-1.5" />
+            <div className="text-xs text-white/50">Saving file {Math.min(progress.done + 1, progress.total)} of {progress.total}…</div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <StorageUsageText storage={storage} className="text-xs text-white/50" />
+          {isSaving ? (
+            <Button variant="ghost" size="sm" onClick={offline.cancelSave} className="h-7 text-white/70 hover:text-white hover:bg-white/10">
+              Cancel
+            </Button>
+          ) : offlineSong ? (
+            <Button variant="ghost" size="sm" onClick={offline.removeOffline} className="h-7 text-[#FD5F57] hover:text-[#FD5F57] hover:bg-white/10">
+              Remove
+            </Button>
+          ) : (
+            <Button size="sm" onClick={offline.keepOffline} className="h-7 bg-[#FD5F57] hover:bg-[#FD5F57]/80">
+              Save
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { PitchAnalysis, midiToNoteName } from '@/lib/pitch';
+import { PitchSample } from '@/lib/scoring';
+
+export interface PitchLaneProps {
+  analysis: PitchAnalysis;
+  currentTime: number;
+  isPlaying: boolean;
+  // Exact position for smooth scrolling while playing
+  getCurrentTime: () => number;
+  // Key change in semitones; the target melody follows it
+  transpose?: number;
+  // The singer's pitch, drawn over the melody while scoring
+  getSungPitches?: () => PitchSample[];
+  className?: string;
+}
+
+// Seconds of melody on screen, and where "now" sits across the lane
+const WINDOW_SECONDS = 6;
+const PLAYHEAD_RATIO = 0.25;
+
+// Smallest vertical range, so a narrow melody isn't stretched to fill the lane
+const MIN_SEMITONE_SPAN = 12;
+const RANGE_PADDING = 2;
+
+const NOTE_COLOR = 'rgba(255, 255, 255, 0.35)';
+const ACTIVE_NOTE_COLOR = '#4EF5C3';
+const GRID_COLOR = 'rgba(255, 255, 255, 0.08)';
+const LABEL_COLOR = 'rgba(255, 255, 255, 0.35)';
+const PLAYHEAD_COLOR = 'rgba(255, 255, 255, 0.6)';
+const SUNG_PITCH_COLOR = '#FD5F57';
+
+export function PitchLane({
+  analysis,
+  currentTime,
+  isPlaying,
+  getCurrentTime,
+  transpose = 0,
+  getSungPitches,
+  className = ''
+}: PitchLaneProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Fixed for the whole song so the lane doesn't jump around
+  const range = useMemo(() => {
+    if (analysis.notes.length === 0) return { low: 48, high: 72 };
+
+    const pitches = analysis.notes.map(note => note.midi);
+    let low = Math.min(...pitches) - RANGE_PADDING;
+    let high = Math.max(...pitches) + RANGE_PADDING;
+    if (high - low < MIN_SEMITONE_SPAN) {
+      const middle = (low + high) / 2;
+      low = Math.floor(middle - MIN_SEMITONE_SPAN / 2);
+      high = low + MIN_SEMITONE_SPAN;
+    }
+    return { low, high };
+  }, [analysis]);
+
+  // Redraw every frame while playing; once per position change otherwise
+  const pausedTime = isPlaying ? null : currentTime;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = (time: number) => {
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+        canvas.width = width * dpr;
+        canvas.height = height * dpr;
+      }
+      context.setTransform(dpr, 0, 0, dpr, 0, 0);
+      context.clearRect(0, 0, width, height);
+
+      const low = range.low + transpose;
+      const high = range.high + transpose;
+      const rowHeight = height / (high - low + 1);
+      const pixelsPerSecond = width / WINDOW_SECONDS;
+      const windowStart = time - WINDOW_SECONDS * PLAYHEAD_RATIO;
+      const windowEnd = windowStart + WINDOW_SECONDS;
+      const toX = (seconds: number) => (seconds - windowStart) * pixelsPerSecond;
+      const toY = (midi: number) => height - (midi - low + 1) * rowHeight;
+
+      // A line and label at every C
+      context.font = '10px sans-serif';
+      context.textBaseline = 'middle';
+      for (let midi = Math.ceil(low / 12) * 12; midi <= high; midi += 12) {
+        const y = toY(midi) + rowHeight / 2;
+        context.fillStyle = GRID_COLOR;
+        context.fillRect(0, y, width, 1);
+        context.fillStyle = LABEL_COLOR;
+        context.fillText(midiToNoteName(midi), 4, y - 6);
+      }
+
+      // Target notes
+      for (const note of analysis.notes) {
+        if (note.end < windowStart) continue;
+        if (note.start > windowEnd) break;
+
+        const midi = note.midi + transpose;
+        const isActive = note.start <= time && time < note.end;
+        const x = toX(note.start);
+        const barWidth = Math.max(2, (note.end - note.start) * pixelsPerSecond - 1);
+        const barHeight = Math.max(3, rowHeight - 2);
+
+        context.fillStyle = isActive ? ACTIVE_NOTE_COLOR : NOTE_COLOR;
+        context.beginPath();
+        context.roundRect(x, toY(midi) + (rowHeight - barHeight) / 2, barWidth, barHeight, barHeight / 2);
+        context.fill();
+      }
+
+      // Sung pitch, moved into the lane's octave range since any octave counts
+      const sungPitches = getSungPitches?.() ?? [];
+      context.fillStyle = SUNG_PITCH_COLOR;
+      for (const sample of sungPitches) {
+        if (sample.midi === null || sample.time < windowStart || sample.time > time) continue;
+
+        let midi = sample.midi + transpose;
+        while (midi < low) midi += 12;
+        while (midi > high) midi -= 12;
+        context.beginPath();
+        context.arc(toX(sample.time), toY(midi) + rowHeight / 2, 2, 0, Math.PI * 2);
+        context.fill();
+      }
+
+      // Now
+      context.fillStyle = PLAYHEAD_COLOR;
+      context.fillRect(Math.round(width * PLAYHEAD_RATIO), 0, 1, height);
+    };
+
+    if (pausedTime !== null) {
+      draw(pausedTime);
+      return;
+    }
+
+    let frameId: number;
+    const loop = () => {
+      draw(getCurrentTime());
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [analysis, range, transpose, pausedTime, getCurrentTime, getSungPitches]);
+
+  return (
+    <div className={`relative h-24 w-full ${className}`}>
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" aria-label="Vocal melody" />
+    </div>
+  );
+}
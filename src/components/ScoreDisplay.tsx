@@ -0,0 +1,124 @@
+'use client';
+
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { TranscriptionData } from '@/types/api';
+import { LINE_RATINGS, LineRating, LineScore, ScoreSummary, getLineRating } from '@/lib/scoring';
+
+const RATING_COLORS: Record<LineRating, string> = {
+  perfect: '#4EF5C3',
+  great: '#3E84E8',
+  good: '#F5C542',
+  ok: '#FFFFFF',
+  miss: '#FD5F57'
+};
+
+const getRatingLabel = (rating: LineRating) =>
+  LINE_RATINGS.find(entry => entry.rating === rating)?.label ?? rating;
+
+export interface ScoreBadgeProps {
+  score: number;
+  lines: LineScore[];
+}
+
+// Running score with the rating of the last finished line
+export function ScoreBadge({ score, lines }: ScoreBadgeProps) {
+  const lastLine = lines[lines.length - 1];
+
+  return (
+    <div className="flex items-center space-x-3 bg-black/60 backdrop-blur-sm rounded-lg px-3 py-2 font-satoshi text-white">
+      <div>
+        <div className="text-[10px] text-white/50 uppercase tracking-wide">Score</div>
+        <div className="text-xl font-bold tabular-nums">{score.toLocaleString()}</div>
+      </div>
+      {lastLine && (
+        // Keyed on the line so the rating animates in for each new line
+        <div
+          key={lastLine.segmentIndex}
+          className="text-sm font-bold animate-in fade-in zoom-in-75"
+          style={{ color: RATING_COLORS[lastLine.rating] }}
+        >
+          {getRatingLabel(lastLine.rating)}!
+        </div>
+      )}
+    </div>
+  );
+}
+
+export interface ScoreSummaryDialogProps {
+  summary: ScoreSummary | null;
+  transcription: TranscriptionData | null;
+  onSingAgain: () => void;
+  onClose: () => void;
+}
+
+export function ScoreSummaryDialog({ summary, transcription, onSingAgain, onClose }: ScoreSummaryDialogProps) {
+  const overallRating = summary ? getLineRating(summary.accuracy) : 'miss';
+
+  return (
+    <Dialog open={summary !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="bg-[#2A2828] border-[#393939] text-white font-satoshi sm:max-w-md">
+        {summary && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Song complete</DialogTitle>
+              <DialogDescription className="text-white/60">
+                {summary.wordsHit} of {summary.wordsScored} words on pitch
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="text-center space-y-1">
+              <div className="text-5xl font-bold tabular-nums">{summary.score.toLocaleString()}</div>
+              <div className="text-sm text-white/50">out of {summary.maxScore.toLocaleString()}</div>
+              <div className="text-lg font-bold" style={{ color: RATING_COLORS[overallRating] }}>
+                {getRatingLabel(overallRating)}
+              </div>
+            </div>
+
+            <div className="flex justify-between text-xs">
+              {LINE_RATINGS.map(({ rating, label }) => (
+                <div key={rating} className="text-center">
+                  <div className="font-bold text-base" style={{ color: RATING_COLORS[rating] }}>
+                    {summary.ratingCounts[rating]}
+                  </div>
+                  <div className="text-white/50">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            {summary.lines.length > 0 && (
+              <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                {summary.lines.map(line => (
+                  <div key={line.segmentIndex} className="flex items-center justify-between text-sm">
+                    <span className="truncate text-white/70 mr-2">
+                      {transcription?.segments[line.segmentIndex]?.text.trim() || `Line ${line.segmentIndex + 1}`}
+                    </span>
+                    <span className="shrink-0 font-bold" style={{ color: RATING_COLORS[line.rating] }}>
+                      {getRatingLabel(line.rating)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="secondary" onClick={onClose}>Close</Button>
+              <Button onClick={onSingAgain} className="bg-[#4EF5C3] hover:bg-[#4EF5C3]/80 text-black">
+                <RotateCcw className="h-4 w-4 mr-1" /> Sing again
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
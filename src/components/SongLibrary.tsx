@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronLeft, Clock, HardDriveDownload, Loader2, Music, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { formatDuration, formatFileSize } from '@/lib/api';
+import { LibraryEntry, LibraryStatus } from '@/lib/libraryStorage';
+import { OfflineSong } from '@/lib/offlineCache';
+import { StorageUsageText } from '@/components/OfflineControl';
+import { LibraryFilter, LibrarySort, getEntryArtist, getEntryTitle, useLibrary } from '@/hooks/useLibrary';
+
+const FILTERS: { value: LibraryFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'ready', label: 'Ready' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'offline', label: 'Offline' }
+];
+
+const SORTS: { value: LibrarySort; label: string }[] = [
+  { value: 'recent', label: 'Recently opened' },
+  { value: 'added', label: 'Date added' },
+  { value: 'title', label: 'Title' },
+  { value: 'artist', label: 'Artist' },
+  { value: 'duration', label: 'Duration' }
+];
+
+const STATUS_LABELS: Record<LibraryStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-600' },
+  processing: { label: 'Processing', className: 'bg-yellow-100 text-yellow-700' },
+  completed: { label: 'Ready', className: 'bg-green-100 text-green-700' },
+  completed_with_errors: { label: 'Ready', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-600' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-600' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-400' }
+};
+
+// Where a song opens: the studio once it's processed (or kept offline), the
+// progress page before
+const getEntryHref = (entry: LibraryEntry, isOffline: boolean): string | null => {
+  if (isOffline) return `/studio/${entry.jobId}`;
+  switch (entry.status) {
+    case 'completed':
+    case 'completed_with_errors':
+      return `/studio/${entry.jobId}`;
+    case 'queued':
+    case 'processing':
+      return `/processing/${entry.jobId}`;
+    default:
+      return null;
+  }
+};
+
+const CoverArt = ({ cover }: { cover: Blob | null }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cover) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(cover);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [cover]);
+
+  return url ? (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img src={url} alt="" className="w-14 h-14 rounded-lg object-cover shrink-0" />
+  ) : (
+    <div className="w-14 h-14 rounded-lg bg-gray-100 flex items-center justify-center shrink-0">
+      <Music className="h-5 w-5 text-gray-400" />
+    </div>
+  );
+};
+
+const LibraryRow = ({ entry, offlineSong, onRemove, onRemoveOffline }: {
+  entry: LibraryEntry;
+  offlineSong: OfflineSong | undefined;
+  onRemove: (jobId: string) => void;
+  onRemoveOffline: (jobId: string) => void;
+}) => {
+  const href = getEntryHref(entry, !!offlineSong);
+  const status = STATUS_LABELS[entry.status];
+  const artist = getEntryArtist(entry);
+  const details = [
+    entry.duration !== null ? formatDuration(entry.duration) : null,
+    entry.fileSize > 0 ? formatFileSize(entry.fileSize) : null,
+    new Date(entry.createdAt).toLocaleDateString()
+  ].filter(Boolean).join(' · ');
+
+  const content = (
+    <>
+      <CoverArt cover={entry.cover} />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="font-satoshi font-bold text-gray-900 truncate">{getEntryTitle(entry)}</span>
+          <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full shrink-0 ${status.className}`}>
+            {status.label}
+          </span>
+          {offlineSong && (
+            <span className="text-[11px] font-medium px-2 py-0.5 rounded-full shrink-0 bg-blue-100 text-blue-700">
+              Offline · {formatFileSize(offlineSong.bytes)}
+            </span>
+          )}
+        </div>
+        {artist && <div className="text-sm text-gray-600 truncate">{artist}</div>}
+        <div className="text-xs text-gray-400 truncate">
+          {entry.status === 'failed' && entry.errorMessage ? entry.errorMessage : details}
+        </div>
+      </div>
+    </>
+  );
+
+  return (
+    <li className={`flex items-center gap-3 rounded-xl border border-gray-200 bg-white/90 p-3 ${href ? '' : 'opacity-60'}`}>
+      {href ? (
+        <Link href={href} className="flex items-center gap-3 min-w-0 flex-1 hover:opacity-80 transition-opacity">
+          {content}
+        </Link>
+      ) : (
+        <div
+          className="flex items-center gap-3 min-w-0 flex-1"
+          title={entry.status === 'expired' ? 'The server only keeps processed songs for 24 hours' : undefined}
+        >
+          {content}
+        </div>
+      )}
+      {offlineSong && (
+        <button
+          onClick={() => onRemoveOffline(entry.jobId)}
+          className="p-2 text-blue-500 hover:text-[#FD5F57] transition-colors"
+          aria-label={`Remove the offline copy of ${getEntryTitle(entry)}`}
+          title="Remove offline copy"
+        >
+          <HardDriveDownload className="h-4 w-4" />
+        </button>
+      )}
+      <button
+        onClick={() => onRemove(entry.jobId)}
+        className="p-2 text-gray-400 hover:text-[#FD5F57] transition-colors"
+        aria-label={`Remove ${getEntryTitle(entry)} from the library`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </li>
+  );
+};
+
+// Every song processed in this browser, most recent first
+export function SongLibrary() {
+  const library = useLibrary();
+
+  const handleRemove = async (jobId: string) => {
+    try {
+      await library.removeEntry(jobId);
+    } catch (error) {
+      console.error('Failed to remove song from the library:', error);
+      toast.error('Failed to remove song', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  const handleRemoveOffline = async (jobId: string) => {
+    try {
+      await library.removeOffline(jobId);
+    } catch (error) {
+      console.error('Failed to remove offline copy:', error);
+      toast.error('Failed to remove offline copy', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-3xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <Link href="/" aria-label="Back to upload">
+              <ChevronLeft className="h-6 w-6 text-gray-900" />
+            </Link>
+            <h1 className="text-3xl font-black font-satoshi tracking-tight text-gray-900">Library</h1>
+          </div>
+          {library.isChecking ? (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              Checking for expired songs
+            </div>
+          ) : (
+            <StorageUsageText storage={library.storage} className="text-sm text-gray-500" />
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={library.query}
+              onChange={(event) => library.setQuery(event.target.value)}
+              placeholder="Search by title, artist, album or file name"
+              className="pl-9"
+            />
+          </div>
+          <select
+            value={library.sort}
+            onChange={(event) => library.setSort(event.target.value as LibrarySort)}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            aria-label="Sort songs"
+          >
+            {SORTS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => library.setFilter(option.value)}
+              className={`px-3 py-1 rounded-full text-sm font-satoshi font-bold transition-colors ${
+                library.filter === option.value
+                  ? 'bg-[#FD5F57] text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {library.isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 text-gray-400 animate-spin" />
+          </div>
+        ) : library.error ? (
+          <p className="text-center text-sm text-red-600 py-16">{library.error}</p>
+        ) : library.entries.length === 0 ? (
+          <div className="text-center py-16 space-y-2">
+            <Clock className="h-8 w-8 text-gray-300 mx-auto" />
+            <p className="text-gray-500">
+              {library.totalCount === 0 ? 'Songs you process will show up here.' : 'No songs match your search.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {library.entries.map(entry => (
+              <LibraryRow
+                key={entry.jobId}
+                entry={entry}
+                offlineSong={library.offlineSongs[entry.jobId]}
+                onRemove={handleRemove}
+                onRemoveOffline={handleRemoveOffline}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
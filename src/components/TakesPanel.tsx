@@ -0,0 +1,208 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Download, ListMusic, Loader2, Play, Square, Star, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TakeInfo } from '@/lib/takeStorage';
+import { downloadBlob } from '@/lib/download';
+import { UseAudioPlayerReturn } from '@/hooks/useAudioPlayer';
+import { UseTakesReturn } from '@/hooks/useTakes';
+
+export interface TakesPanelProps {
+  player: Pick<
+    UseAudioPlayerReturn,
+    'isRecording' | 'startRecording' | 'stopRecording' | 'micStatus' | 'loop' | 'isPlaying' | 'pause' | 'formatTime'
+  >;
+  takes: UseTakesReturn;
+  baseName: string;
+  disabled?: boolean;
+}
+
+const IconButton = ({ label, onClick, disabled, children }: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className="p-1 rounded text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent"
+    aria-label={label}
+    title={label}
+  >
+    {children}
+  </button>
+);
+
+export function TakesPanel({ player, takes, baseName, disabled }: TakesPanelProps) {
+  // Take being rendered, and the take whose mix is playing
+  const [busyTakeId, setBusyTakeId] = useState<string | null>(null);
+  const [auditionTakeId, setAuditionTakeId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const recordBlocker = !player.micStatus.isActive
+    ? 'Turn on the microphone to record'
+    : player.loop
+      ? 'Turn off the loop to record'
+      : null;
+
+  const stopAudition = () => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      audioRef.current = null;
+    }
+    setAuditionTakeId(null);
+  };
+
+  // Stop the audition when the panel goes away
+  useEffect(() => stopAudition, []);
+
+  const handleRecordToggle = async () => {
+    if (player.isRecording) {
+      player.stopRecording();
+      return;
+    }
+
+    stopAudition();
+    try {
+      await player.startRecording();
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      toast.error('Could not start recording', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  const withRenderedMix = async (take: TakeInfo, action: (blob: Blob) => void) => {
+    setBusyTakeId(take.id);
+    try {
+      action(await takes.renderTakeMix(take));
+    } catch (error) {
+      console.error('Failed to render take:', error);
+      toast.error(`Could not mix take ${take.number}`, {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      setBusyTakeId(null);
+    }
+  };
+
+  const handleAudition = (take: TakeInfo) => {
+    if (auditionTakeId === take.id) {
+      stopAudition();
+      return;
+    }
+
+    stopAudition();
+    withRenderedMix(take, blob => {
+      if (player.isPlaying) player.pause();
+
+      const audio = new Audio(URL.createObjectURL(blob));
+      audio.onended = stopAudition;
+      audioRef.current = audio;
+      setAuditionTakeId(take.id);
+      audio.play().catch(error => {
+        console.error('Failed to play take:', error);
+        stopAudition();
+      });
+    });
+  };
+
+  const handleDownload = (take: TakeInfo) => {
+    withRenderedMix(take, blob => downloadBlob(blob, `${baseName} [take ${take.number}].wav`));
+  };
+
+  const handleDelete = async (take: TakeInfo) => {
+    if (auditionTakeId === take.id) stopAudition();
+    try {
+      await takes.deleteTake(take.id);
+    } catch (error) {
+      console.error('Failed to delete take:', error);
+      toast.error(`Could not delete take ${take.number}`);
+    }
+  };
+
+  const handlePick = (take: TakeInfo) => {
+    takes.pickTake(take.isPicked ? null : take.id).catch(error => {
+      console.error('Failed to pick take:', error);
+    });
+  };
+
+  return (
+    <>
+      <Button
+        onClick={handleRecordToggle}
+        disabled={disabled || (!player.isRecording && recordBlocker !== null)}
+        className={`w-8 h-8 ${player.isRecording ? 'bg-[#FD5F57] hover:bg-[#FD5F57]/80 animate-pulse' : 'bg-[#393939] hover:bg-[#393939]/80'}`}
+        aria-label={player.isRecording ? 'Stop recording' : 'Record a take'}
+        title={player.isRecording ? 'Stop recording' : recordBlocker ?? 'Record a take'}
+      >
+        <Circle className={`h-4 w-4 ${player.isRecording ? 'fill-white' : 'fill-[#FD5F57] text-[#FD5F57]'}`} />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            disabled={disabled}
+            className="bg-[#393939] hover:bg-[#393939]/80 h-8 px-2"
+            aria-label="Takes"
+          >
+            <ListMusic className="h-4 w-4" />
+            {takes.takes.length > 0 && <span className="text-xs">{takes.takes.length}</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" side="top" className="w-72 p-2 bg-[#2A2828] border-[#393939] text-white font-satoshi space-y-1">
+          <div className="px-2 text-xs text-[#656565] font-bold uppercase tracking-wide">Takes</div>
+          {takes.takes.length === 0 ? (
+            <p className="px-2 py-1 text-xs text-white/50">
+              Turn on the microphone and press record to sing a take. Takes are saved in this browser.
+            </p>
+          ) : (
+            takes.takes.map(take => {
+              const isBusy = busyTakeId === take.id;
+              return (
+                <div key={take.id} className="flex items-center space-x-1 px-1 py-1 rounded hover:bg-white/5">
+                  <IconButton label={take.isPicked ? 'Unpick take' : 'Pick this take'} onClick={() => handlePick(take)}>
+                    <Star className={`h-3.5 w-3.5 ${take.isPicked ? 'fill-[#F5C542] text-[#F5C542]' : ''}`} />
+                  </IconButton>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm">Take {take.number}</div>
+                    <div className="text-xs text-white/50">
+                      {player.formatTime(Math.max(0, take.songOffset))} · {player.formatTime(take.duration)}
+                      {take.playbackRate !== 1 && ` · ${Math.round(take.playbackRate * 100)}% tempo`}
+                    </div>
+                  </div>
+                  <IconButton
+                    label={auditionTakeId === take.id ? 'Stop' : 'Play with the backing track'}
+                    onClick={() => handleAudition(take)}
+                    disabled={busyTakeId !== null && !isBusy}
+                  >
+                    {isBusy ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : auditionTakeId === take.id ? (
+                      <Square className="h-3.5 w-3.5" />
+                    ) : (
+                      <Play className="h-3.5 w-3.5" />
+                    )}
+                  </IconButton>
+                  <IconButton label="Download mix (WAV)" onClick={() => handleDownload(take)} disabled={busyTakeId !== null}>
+                    <Download className="h-3.5 w-3.5" />
+                  </IconButton>
+                  <IconButton label="Delete take" onClick={() => handleDelete(take)} disabled={isBusy}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </IconButton>
+                </div>
+              );
+            })
+          )}
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+}
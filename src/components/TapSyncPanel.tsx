@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { Hand, Rewind, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { TranscriptionData } from '@/types/api';
+import { getWordAtIndex } from '@/lib/lyrics';
+import { UseTapSyncReturn } from '@/hooks/useTapSync';
+
+export interface TapSyncPanelProps {
+  base: TranscriptionData | null;
+  tapSync: UseTapSyncReturn;
+  onApply: (data: TranscriptionData) => void;
+  onClose: () => void;
+}
+
+export function TapSyncPanel({ base, tapSync, onApply, onClose }: TapSyncPanelProps) {
+  const { isActive, mode, tapCount, targetCount, tap, rewind } = tapSync;
+
+  // Enter stamps the next line/word, Backspace rewinds
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        tap();
+      } else if (event.key === 'Backspace') {
+        event.preventDefault();
+        rewind().catch(console.error);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isActive, tap, rewind]);
+
+  const handleApply = () => {
+    const result = tapSync.finish();
+    if (result) {
+      onApply(result);
+    }
+    onClose();
+  };
+
+  const handleCancel = () => {
+    tapSync.cancel();
+    onClose();
+  };
+
+  // What the next tap will stamp
+  const nextLabel = !base
+    ? null
+    : mode === 'line'
+      ? base.segments[tapCount]?.text || null
+      : getWordAtIndex(base, tapCount)?.word.trim() || null;
+
+  return (
+    <div className="bg-black/70 backdrop-blur-sm rounded-lg p-3 text-white font-satoshi space-y-3 w-80">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold">Tap sync</span>
+        <button onClick={handleCancel} aria-label="Close tap sync">
+          <X className="h-4 w-4 text-white/70 hover:text-white" />
+        </button>
+      </div>
+
+      {!isActive ? (
+        <div className="space-y-2">
+          <p className="text-xs text-white/50">
+            Play the song and press Enter at the start of every line (or word). Backspace jumps back a few seconds to redo a section.
+          </p>
+          <div className="flex gap-1">
+            <Button size="sm" variant="secondary" disabled={!base} onClick={() => tapSync.start('line')}>
+              Sync lines
+            </Button>
+            <Button size="sm" variant="secondary" disabled={!base} onClick={() => tapSync.start('word')}>
+              Sync words
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-white/50">
+            <span>{mode === 'line' ? 'Lines' : 'Words'}</span>
+            <span>{tapCount} / {targetCount}</span>
+          </div>
+          <Progress value={targetCount > 0 ? (tapCount / targetCount) * 100 : 0} className="h-1" />
+          <div className="text-sm min-h-[20px] truncate">
+            {nextLabel ? (
+              <>
+                <span className="text-white/50">Next: </span>
+                {nextLabel}
+              </>
+            ) : (
+              <span className="text-white/50">All done</span>
+            )}
+          </div>
+          <div className="flex gap-1">
+            <Button size="sm" className="flex-1 bg-[#FD5F57] hover:bg-[#FD5F57]/80" disabled={!nextLabel} onClick={tap}>
+              <Hand className="h-3 w-3 mr-1" /> Tap
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => rewind().catch(console.error)} aria-label="Rewind">
+              <Rewind className="h-3 w-3" />
+            </Button>
+            <Button size="sm" variant="secondary" disabled={tapCount === 0} onClick={handleApply}>
+              <Check className="h-3 w-3 mr-1" /> Apply
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from '@/lib/audioEngine';
+
+export interface TempoControlProps {
+  rate: number; // 1 = original tempo
+  onChange: (rate: number) => void;
+  // Detected tempo of the song, used to show the practice BPM
+  bpm?: number | null;
+  disabled?: boolean;
+}
+
+export function TempoControl({ rate, onChange, bpm, disabled }: TempoControlProps) {
+  const percent = Math.round(rate * 100);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-sm text-[#626060] font-satoshi font-bold mb-[2px]">tempo</span>
+      <Slider
+        value={[percent]}
+        onValueChange={(value) => onChange(value[0] / 100)}
+        min={MIN_PLAYBACK_RATE * 100}
+        max={MAX_PLAYBACK_RATE * 100}
+        step={5}
+        disabled={disabled}
+        className="w-20"
+      />
+      <button
+        onDoubleClick={() => onChange(1)}
+        disabled={disabled}
+        className={`text-sm font-satoshi font-bold whitespace-nowrap ${rate === 1 ? 'text-white/60' : 'text-[#FD5F57]'}`}
+        title={bpm ? `${Math.round(bpm * rate)} BPM — double-click to reset` : 'Double-click to reset'}
+      >
+        {percent}%
+      </button>
+    </div>
+  );
+}
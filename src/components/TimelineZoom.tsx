@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { MIN_VIEW_DURATION, TimelineView, getZoom } from '@/lib/timelineView';
+import { UseTimelineZoomReturn } from '@/hooks/useTimelineZoom';
+
+export interface TimelineZoomControlsProps {
+  zoom: UseTimelineZoomReturn;
+  duration: number;
+}
+
+const buttonClassName = 'text-[#656565] hover:text-white disabled:opacity-40 disabled:hover:text-[#656565]';
+
+export function TimelineZoomControls({ zoom, duration }: TimelineZoomControlsProps) {
+  const isZoomedOut = zoom.zoom <= 1;
+  const isZoomedIn = zoom.view.end - zoom.view.start <= MIN_VIEW_DURATION;
+
+  return (
+    <div className="flex items-center space-x-1.5">
+      <button onClick={zoom.zoomOut} disabled={isZoomedOut} className={buttonClassName} aria-label="Zoom out">
+        <ZoomOut className="h-3.5 w-3.5" />
+      </button>
+      <button onClick={zoom.zoomIn} disabled={isZoomedIn || duration <= 0} className={buttonClassName} aria-label="Zoom in">
+        <ZoomIn className="h-3.5 w-3.5" />
+      </button>
+      <button onClick={zoom.resetZoom} disabled={isZoomedOut} className={buttonClassName} aria-label="Show the whole song">
+        <Maximize2 className="h-3.5 w-3.5" />
+      </button>
+      {!isZoomedOut && (
+        <span className="text-[10px] text-[#656565] font-satoshi font-bold tabular-nums">
+          {zoom.zoom < 10 ? zoom.zoom.toFixed(1) : Math.round(zoom.zoom)}×
+        </span>
+      )}
+    </div>
+  );
+}
+
+export interface TimelineScrollbarProps {
+  view: TimelineView;
+  duration: number;
+  onScroll: (start: number) => void;
+  className?: string;
+}
+
+// A native scrollbar over a spacer as wide as the zoomed song
+export function TimelineScrollbar({ view, duration, onScroll, className = '' }: TimelineScrollbarProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const zoom = getZoom(view, duration);
+
+  // Keep the scroll position in step with the view
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller || duration <= 0) return;
+    scroller.scrollLeft = (view.start / duration) * scroller.scrollWidth;
+  }, [view, duration, zoom]);
+
+  const handleScroll = () => {
+    const scroller = scrollerRef.current;
+    if (!scroller || scroller.scrollWidth === 0 || duration <= 0) return;
+
+    // Ignore the echo of the scroll position set above
+    const start = (scroller.scrollLeft / scroller.scrollWidth) * duration;
+    const pixels = Math.abs(start - view.start) * (scroller.scrollWidth / duration);
+    if (pixels >= 1) onScroll(start);
+  };
+
+  return (
+    <div
+      ref={scrollerRef}
+      onScroll={handleScroll}
+      className={`overflow-x-auto overflow-y-hidden h-2.5 ${zoom <= 1 ? 'invisible' : ''} ${className}`}
+      aria-label="Scroll timeline"
+    >
+      <div className="h-px" style={{ width: `${zoom * 100}%` }} />
+    </div>
+  );
+}
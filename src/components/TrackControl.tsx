@@ -1,10 +1,10 @@
 'use client';
 
 import React from 'react';
-import { 
-  Volume2, 
-  VolumeX, 
-  Play, 
+import {
+  Volume2,
+  VolumeX,
+  Play,
   Pause,
   Headphones
 } from 'lucide-react';
@@ -12,6 +12,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
+import { EqBand, MAX_EQ_GAIN, TrackEq } from '@/lib/audioEngine';
 
 export interface TrackControlProps {
   trackName: string;
@@ -19,26 +20,55 @@ export interface TrackControlProps {
   volume: number;
   isMuted: boolean;
   isSolo: boolean;
-  isPlaying: boolean;
+  // Dimmed when another track is soloed
+  isAudible?: boolean;
 
   onVolumeChange: (volume: number) => void;
   onMuteToggle: () => void;
   onSoloToggle: () => void;
-  onPlayPause: () => void;
+
+  // Per-track transport (omitted in the mixer, where all tracks play together)
+  isPlaying?: boolean;
+  onPlayPause?: () => void;
+
+  // Pan and EQ are shown when their handlers are given
+  pan?: number; // -1 to 1
+  onPanChange?: (pan: number) => void;
+  eq?: TrackEq;
+  onEqChange?: (band: EqBand, gainDb: number) => void;
+
   disabled?: boolean;
 }
 
+const EQ_LABELS: Record<EqBand, string> = {
+  low: 'Low',
+  mid: 'Mid',
+  high: 'High'
+};
+
+const formatPan = (pan: number) => {
+  if (Math.abs(pan) < 0.01) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+};
+
+const formatGain = (gainDb: number) => (gainDb > 0 ? `+${gainDb}` : `${gainDb}`);
+
 export function TrackControl({
   trackName,
   displayName,
   volume,
   isMuted,
   isSolo,
-  isPlaying,
+  isAudible = true,
   onVolumeChange,
   onMuteToggle,
   onSoloToggle,
+  isPlaying,
   onPlayPause,
+  pan,
+  onPanChange,
+  eq,
+  onEqChange,
   disabled = false,
 }: TrackControlProps) {
   const getTrackIcon = (track: string) => {
@@ -57,28 +87,25 @@ export function TrackControl({
   };
 
   return (
-    <Card className={`w-full transition-all duration-200 ${
-      isSolo ? 'ring-2 ring-blue-500 bg-blue-50' : ''
-    } ${isMuted ? 'opacity-60' : ''} ${disabled ? 'opacity-40' : ''}`}>
-      <CardContent className="p-4">
-        <div className="space-y-4">
+    <Card className={`w-full py-0 gap-0 bg-[#2A2828] border-[#393939] text-white transition-all duration-200 ${
+      isSolo ? 'ring-2 ring-[#3E84E8]' : ''
+    } ${!isAudible ? 'opacity-60' : ''} ${disabled ? 'opacity-40' : ''}`}>
+      <CardContent className="p-3">
+        <div className="space-y-3">
           {/* Track Header */}
           <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-3">
-              <div className="text-2xl">{getTrackIcon(trackName)}</div>
-              <div>
-                <h3 className="font-semibold text-gray-900">{displayName}</h3>
-                <p className="text-sm text-gray-500 capitalize">{trackName}</p>
-              </div>
+            <div className="flex items-center space-x-2">
+              <div className="text-xl">{getTrackIcon(trackName)}</div>
+              <h3 className="font-satoshi font-bold text-sm">{displayName}</h3>
             </div>
             <div className="flex space-x-1">
               {isSolo && (
-                <Badge variant="secondary" className="bg-blue-100 text-blue-700">
+                <Badge variant="secondary" className="bg-[#3E84E8]/20 text-[#3E84E8]">
                   SOLO
                 </Badge>
               )}
               {isMuted && (
-                <Badge variant="secondary" className="bg-red-100 text-red-700">
+                <Badge variant="secondary" className="bg-[#FD5F57]/20 text-[#FD5F57]">
                   MUTED
                 </Badge>
               )}
@@ -86,36 +113,38 @@ export function TrackControl({
           </div>
 
           {/* Play/Pause Button */}
-          <div className="flex justify-center">
-            <Button
-              variant={isPlaying ? "default" : "outline"}
-              size="sm"
-              onClick={onPlayPause}
-              disabled={disabled}
-              className="w-full"
-            >
-              {isPlaying ? (
-                <>
-                  <Pause className="h-4 w-4 mr-2" />
-                  Pause
-                </>
-              ) : (
-                <>
-                  <Play className="h-4 w-4 mr-2" />
-                  Play
-                </>
-              )}
-            </Button>
-          </div>
+          {onPlayPause && (
+            <div className="flex justify-center">
+              <Button
+                variant={isPlaying ? "default" : "outline"}
+                size="sm"
+                onClick={onPlayPause}
+                disabled={disabled}
+                className="w-full"
+              >
+                {isPlaying ? (
+                  <>
+                    <Pause className="h-4 w-4 mr-2" />
+                    Pause
+                  </>
+                ) : (
+                  <>
+                    <Play className="h-4 w-4 mr-2" />
+                    Play
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
 
           {/* Volume Control */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">Volume</span>
-              <span className="text-sm text-gray-500">{Math.round(volume)}%</span>
+              <span className="text-xs font-medium text-white/70">Volume</span>
+              <span className="text-xs text-white/50">{Math.round(volume)}%</span>
             </div>
             <div className="flex items-center space-x-2">
-              <VolumeX className="h-4 w-4 text-gray-400" />
+              <VolumeX className="h-3.5 w-3.5 text-white/40" />
               <Slider
                 value={[volume]}
                 onValueChange={(value) => onVolumeChange(value[0])}
@@ -124,14 +153,65 @@ export function TrackControl({
                 disabled={disabled}
                 className="flex-1"
               />
-              <Volume2 className="h-4 w-4 text-gray-400" />
+              <Volume2 className="h-3.5 w-3.5 text-white/40" />
             </div>
           </div>
 
+          {/* Pan Control */}
+          {onPanChange && pan !== undefined && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-white/70">Pan</span>
+                <button
+                  onDoubleClick={() => onPanChange(0)}
+                  className="text-xs text-white/50"
+                  title="Double-click to centre"
+                >
+                  {formatPan(pan)}
+                </button>
+              </div>
+              <Slider
+                value={[Math.round(pan * 100)]}
+                onValueChange={(value) => onPanChange(value[0] / 100)}
+                min={-100}
+                max={100}
+                step={1}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {/* EQ */}
+          {onEqChange && eq && (
+            <div className="space-y-2">
+              {(Object.keys(EQ_LABELS) as EqBand[]).map(band => (
+                <div key={band} className="flex items-center space-x-2">
+                  <span className="w-8 text-xs font-medium text-white/70">{EQ_LABELS[band]}</span>
+                  <Slider
+                    value={[eq[band]]}
+                    onValueChange={(value) => onEqChange(band, value[0])}
+                    min={-MAX_EQ_GAIN}
+                    max={MAX_EQ_GAIN}
+                    step={1}
+                    disabled={disabled}
+                    className="flex-1"
+                  />
+                  <button
+                    onDoubleClick={() => onEqChange(band, 0)}
+                    className="w-7 text-right text-xs text-white/50"
+                    title="Double-click to reset"
+                  >
+                    {formatGain(eq[band])}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Control Buttons */}
           <div className="flex space-x-2">
             <Button
-              variant={isMuted ? "destructive" : "outline"}
+              variant={isMuted ? "destructive" : "secondary"}
               size="sm"
               onClick={onMuteToggle}
               disabled={disabled}
@@ -139,24 +219,24 @@ export function TrackControl({
             >
               {isMuted ? (
                 <>
-                  <VolumeX className="h-4 w-4 mr-2" />
+                  <VolumeX className="h-4 w-4 mr-1" />
                   Unmute
                 </>
               ) : (
                 <>
-                  <Volume2 className="h-4 w-4 mr-2" />
+                  <Volume2 className="h-4 w-4 mr-1" />
                   Mute
                 </>
               )}
             </Button>
             <Button
-              variant={isSolo ? "secondary" : "outline"}
+              variant="secondary"
               size="sm"
               onClick={onSoloToggle}
               disabled={disabled}
-              className="flex-1"
+              className={`flex-1 ${isSolo ? 'bg-[#3E84E8] hover:bg-[#3E84E8]/80 text-white' : ''}`}
             >
-              <Headphones className="h-4 w-4 mr-2" />
+              <Headphones className="h-4 w-4 mr-1" />
               {isSolo ? 'Unsolo' : 'Solo'}
             </Button>
           </div>
@@ -164,4 +244,4 @@ export function TrackControl({
       </CardContent>
     </Card>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { useState, useCallback, useRef } from 'react';
+import { MixdownOptions } from '@/lib/audioEngine';
+import { AudioExportFormat, encodeAudioBuffer } from '@/lib/audioExport';
+import { AudioTags } from '@/lib/encoders';
+import { WavBitDepth } from '@/lib/wav';
+import { downloadBlob } from '@/lib/download';
+
+export interface AudioExportRequest {
+  mixdown: MixdownOptions;
+  format: AudioExportFormat;
+  bitDepth?: WavBitDepth;
+  bitrate?: number;
+  tags?: AudioTags;
+  filename: string;
+}
+
+export interface UseAudioExportReturn {
+  // State
+  isExporting: boolean;
+  progress: number; // 0-1
+
+  // Controls
+  exportAudio: (request: AudioExportRequest) => Promise<void>;
+  cancel: () => void;
+}
+
+export function useAudioExport(
+  renderMixdown: (options?: MixdownOptions) => Promise<AudioBuffer>
+): UseAudioExportReturn {
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Rejects with an AbortError when cancelled
+  const exportAudio = useCallback(async ({ mixdown, format, bitDepth, bitrate, tags, filename }: AudioExportRequest) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsExporting(true);
+    setProgress(0);
+
+    try {
+      const buffer = await renderMixdown(mixdown);
+      if (controller.signal.aborted) {
+        throw new DOMException('Export cancelled', 'AbortError');
+      }
+
+      const blob = await encodeAudioBuffer(buffer, format, {
+        bitDepth,
+        bitrate,
+        tags,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      downloadBlob(blob, filename);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      setIsExporting(false);
+    }
+  }, [renderMixdown]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return {
+    isExporting,
+    progress,
+    exportAudio,
+    cancel
+  };
+}
@@ -1,5 +1,15 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { AudioEngine, AudioEngineState } from '@/lib/audioEngine';
+import {
+  AudioEngine,
+  AudioEngineState,
+  EqBand,
+  LoopRegion,
+  MixdownOptions,
+  TrackState
+} from '@/lib/audioEngine';
+import { DEFAULT_MIC_SETTINGS, INACTIVE_MIC_STATUS, MicSettings, MicStatus } from '@/lib/microphone';
+import { RecordedTake } from '@/lib/recording';
+import { ClickTrackState, DEFAULT_CLICK_TRACK_STATE } from '@/lib/metronome';
 
 export interface UseAudioPlayerOptions {
   trackUrls?: Record<string, string>;
@@ -15,26 +25,73 @@ export interface UseAudioPlayerReturn {
   error: string | null;
   
   // Track states
-  trackStates: Record<string, { volume: number; isMuted: boolean; isLoaded: boolean }>;
+  trackStates: Record<string, TrackState>;
   
   // Controls
   play: () => Promise<void>;
   pause: () => void;
   stop: () => void;
   seek: (time: number) => Promise<void>;
+  // Snippet of the mix at a position while dragging the playhead (paused only)
+  scrub: (time: number) => void;
   
   // Track controls
   setTrackVolume: (trackName: string, volume: number) => void;
   setTrackMuted: (trackName: string, muted: boolean) => void;
   toggleTrackMuted: (trackName: string) => void;
+  setTrackSolo: (trackName: string, solo: boolean) => void;
+  toggleTrackSolo: (trackName: string) => void;
+  setTrackPan: (trackName: string, pan: number) => void;
+  setTrackEq: (trackName: string, band: EqBand, gainDb: number) => void;
   setMasterVolume: (volume: number) => void;
   
+  // Key change
+  pitchShift: number; // semitones
+  shiftVocals: boolean;
+  setPitchShift: (semitones: number) => void;
+  setShiftVocals: (enabled: boolean) => void;
+  
+  // Practice tempo (positions stay in song time at any rate)
+  playbackRate: number;
+  setPlaybackRate: (rate: number) => void;
+  
+  // A-B loop
+  loop: LoopRegion | null;
+  setLoop: (region: LoopRegion | null) => void;
+  
+  // Click track (beats from the beat analysis)
+  clickTrack: ClickTrackState;
+  setClickTrack: (beatTimes: number[], beatsPerBar: number) => void;
+  setClickTrackState: (state: Partial<ClickTrackState>) => void;
+  
+  // Microphone
+  micStatus: MicStatus;
+  micSettings: MicSettings;
+  startMicrophone: (deviceId?: string) => Promise<void>;
+  stopMicrophone: () => void;
+  setMicSettings: (settings: Partial<MicSettings>) => void;
+  getMicLevel: () => number;
+  getMicPitch: () => number | null;
+  
+  // Recording (takes end when playback stops or jumps)
+  isRecording: boolean;
+  startRecording: () => Promise<void>;
+  stopRecording: () => void;
+  setTakeRecordedCallback: (callback: ((take: RecordedTake) => void) | null) => void;
+  
   // Loading
   loadTracks: (trackUrls: Record<string, string>) => Promise<void>;
   
+  // Export
+  renderMixdown: (options?: MixdownOptions) => Promise<AudioBuffer>;
+  
+  // Analysis
+  getTrackBuffer: (trackName: string) => AudioBuffer | null;
+  
   // Utility
   formatTime: (seconds: number) => string;
   isTrackLoaded: (trackName: string) => boolean;
+  getCurrentTime: () => number;
 }
 
 export function useAudioPlayer(): UseAudioPlayerReturn {
@@ -53,11 +110,29 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     currentTime: 0,
     duration: 0,
     isLoading: false,
-    error: null
+    error: null,
+    isRecording: false
   });
   
   // Track states
-  const [trackStates, setTrackStates] = useState<Record<string, { volume: number; isMuted: boolean; isLoaded: boolean }>>({});
+  const [trackStates, setTrackStates] = useState<Record<string, TrackState>>({});
+  
+  // Key change
+  const [pitchShift, setPitchShiftState] = useState(0);
+  const [shiftVocals, setShiftVocalsState] = useState(false);
+  
+  // Practice tempo
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  
+  // A-B loop
+  const [loop, setLoopState] = useState<LoopRegion | null>(null);
+  
+  // Click track
+  const [clickTrack, setClickTrackStateValue] = useState<ClickTrackState>(DEFAULT_CLICK_TRACK_STATE);
+  
+  // Microphone
+  const [micStatus, setMicStatus] = useState<MicStatus>(INACTIVE_MIC_STATUS);
+  const [micSettings, setMicSettingsState] = useState<MicSettings>(DEFAULT_MIC_SETTINGS);
   
   // Initialize audio engine
   useEffect(() => {
@@ -68,16 +143,19 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
       // Set up state change callback with proper throttling
       let lastUpdate = 0;
       let lastIsPlaying = false;
+      let lastIsRecording = false;
       
       audioEngineRef.current.setStateChangeCallback((newState) => {
         const now = Date.now();
         
-        // Check if play/pause state actually changed
-        const isPlayingChanged = lastIsPlaying !== newState.isPlaying;
+        // Check if play/pause or recording state actually changed
+        const isPlayingChanged = lastIsPlaying !== newState.isPlaying ||
+          lastIsRecording !== newState.isRecording;
         
         // Only update immediately for actual play/pause changes, otherwise throttle
         if (isPlayingChanged) {
           lastIsPlaying = newState.isPlaying;
+          lastIsRecording = newState.isRecording;
           lastUpdate = now; // Reset throttle timer
           setEngineState(newState);
           if (audioEngineRef.current) {
@@ -140,6 +218,10 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     }
   }, []);
   
+  const scrub = useCallback((time: number): void => {
+    audioEngineRef.current?.scrub(time);
+  }, []);
+  
   const seek = useCallback(async (time: number): Promise<void> => {
     if (!audioEngineRef.current) {
       throw new Error('Audio engine not initialized');
@@ -176,12 +258,137 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     }
   }, [trackStates, setTrackMuted]);
   
+  const setTrackSolo = useCallback((trackName: string, solo: boolean): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setTrackSolo(trackName, solo);
+      // Solo changes which other tracks are audible
+      setTrackStates(audioEngineRef.current.getTrackStates());
+    }
+  }, []);
+  
+  const toggleTrackSolo = useCallback((trackName: string): void => {
+    const currentState = trackStates[trackName];
+    if (currentState) {
+      setTrackSolo(trackName, !currentState.isSolo);
+    }
+  }, [trackStates, setTrackSolo]);
+  
+  const setTrackPan = useCallback((trackName: string, pan: number): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setTrackPan(trackName, pan);
+      setTrackStates(audioEngineRef.current.getTrackStates());
+    }
+  }, []);
+  
+  const setTrackEq = useCallback((trackName: string, band: EqBand, gainDb: number): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setTrackEq(trackName, band, gainDb);
+      setTrackStates(audioEngineRef.current.getTrackStates());
+    }
+  }, []);
+  
   const setMasterVolume = useCallback((volume: number): void => {
     if (audioEngineRef.current) {
       audioEngineRef.current.setMasterVolume(volume);
     }
   }, []);
   
+  const setPitchShift = useCallback((semitones: number): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setPitchShift(semitones);
+      // The engine clamps the value
+      setPitchShiftState(audioEngineRef.current.getPitchShift());
+    }
+  }, []);
+  
+  const setShiftVocals = useCallback((enabled: boolean): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setShiftVocals(enabled);
+      setShiftVocalsState(enabled);
+    }
+  }, []);
+  
+  const setPlaybackRate = useCallback((rate: number): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setPlaybackRate(rate);
+      // The engine clamps the value
+      setPlaybackRateState(audioEngineRef.current.getPlaybackRate());
+    }
+  }, []);
+  
+  const setLoop = useCallback((region: LoopRegion | null): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setLoop(region);
+      // The engine clamps the region and drops ones that are too short
+      setLoopState(audioEngineRef.current.getLoop());
+    }
+  }, []);
+  
+  const setClickTrack = useCallback((beatTimes: number[], beatsPerBar: number): void => {
+    audioEngineRef.current?.setClickTrack(beatTimes, beatsPerBar);
+  }, []);
+  
+  const setClickTrackState = useCallback((state: Partial<ClickTrackState>): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setClickTrackState(state);
+      // The engine clamps the volume
+      setClickTrackStateValue(audioEngineRef.current.getClickTrackState());
+    }
+  }, []);
+  
+  const startMicrophone = useCallback(async (deviceId?: string): Promise<void> => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    try {
+      await audioEngineRef.current.startMicrophone(deviceId);
+    } finally {
+      // A failed switch stops the previous device too
+      setMicStatus(audioEngineRef.current.getMicStatus());
+    }
+  }, []);
+  
+  const stopMicrophone = useCallback((): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.stopMicrophone();
+      setMicStatus(audioEngineRef.current.getMicStatus());
+    }
+  }, []);
+  
+  const setMicSettings = useCallback((settings: Partial<MicSettings>): void => {
+    if (audioEngineRef.current) {
+      audioEngineRef.current.setMicSettings(settings);
+      setMicSettingsState(audioEngineRef.current.getMicSettings());
+    }
+  }, []);
+  
+  // Read on demand (e.g. every animation frame) rather than kept in state
+  const getMicLevel = useCallback((): number => {
+    return audioEngineRef.current?.getMicLevel() ?? 0;
+  }, []);
+  
+  // Read on demand, like the level
+  const getMicPitch = useCallback((): number | null => {
+    return audioEngineRef.current?.getMicPitch() ?? null;
+  }, []);
+  
+  const startRecording = useCallback(async (): Promise<void> => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    await audioEngineRef.current.startRecording();
+  }, []);
+  
+  const stopRecording = useCallback((): void => {
+    audioEngineRef.current?.stopRecording();
+  }, []);
+  
+  const setTakeRecordedCallback = useCallback((callback: ((take: RecordedTake) => void) | null): void => {
+    audioEngineRef.current?.setTakeRecordedCallback(callback);
+  }, []);
+  
   const loadTracks = useCallback(async (trackUrls: Record<string, string>): Promise<void> => {
     if (!audioEngineRef.current) {
       throw new Error('Audio engine not initialized');
@@ -197,6 +404,18 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     }
   }, []);
   
+  const renderMixdown = useCallback(async (options?: MixdownOptions): Promise<AudioBuffer> => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    return audioEngineRef.current.renderMixdown(options);
+  }, []);
+  
+  const getTrackBuffer = useCallback((trackName: string): AudioBuffer | null => {
+    return audioEngineRef.current?.getTrackBuffer(trackName) ?? null;
+  }, []);
+  
   // Utility functions
   const formatTime = useCallback((seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -208,6 +427,11 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     return trackStates[trackName]?.isLoaded || false;
   }, [trackStates]);
   
+  // Exact playback position, bypassing the throttled state updates
+  const getCurrentTime = useCallback((): number => {
+    return audioEngineRef.current?.getState().currentTime || 0;
+  }, []);
+  
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
@@ -268,18 +492,64 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     pause,
     stop,
     seek,
+    scrub,
     
     // Track controls
     setTrackVolume,
     setTrackMuted,
     toggleTrackMuted,
+    setTrackSolo,
+    toggleTrackSolo,
+    setTrackPan,
+    setTrackEq,
     setMasterVolume,
     
+    // Key change
+    pitchShift,
+    shiftVocals,
+    setPitchShift,
+    setShiftVocals,
+    
+    // Practice tempo
+    playbackRate,
+    setPlaybackRate,
+    
+    // A-B loop
+    loop,
+    setLoop,
+    
+    // Click track
+    clickTrack,
+    setClickTrack,
+    setClickTrackState,
+    
+    // Microphone
+    micStatus,
+    micSettings,
+    startMicrophone,
+    stopMicrophone,
+    setMicSettings,
+    getMicLevel,
+    getMicPitch,
+    
+    // Recording
+    isRecording: engineState.isRecording,
+    startRecording,
+    stopRecording,
+    setTakeRecordedCallback,
+    
     // Loading
     loadTracks,
     
+    // Export
+    renderMixdown,
+    
+    // Analysis
+    getTrackBuffer,
+    
     // Utility
     formatTime,
-    isTrackLoaded
+    isTrackLoaded,
+    getCurrentTime
   };
 } 
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { useState, useCallback, useRef } from 'react';
+import { FileListResponse, JobResultsResponse } from '@/types/api';
+import { api } from '@/lib/api';
+import {
+  collectBundleEntries,
+  createBundleManifest,
+  createZipSink,
+  writeZipBundle
+} from '@/lib/zipBundle';
+
+export type BundleFileStatus = 'pending' | 'downloading' | 'done';
+
+export interface BundleFileProgress {
+  path: string;
+  loaded: number;
+  total: number; // 0 if unknown
+  status: BundleFileStatus;
+}
+
+export interface UseBundleDownloadReturn {
+  // State
+  isDownloading: boolean;
+  files: BundleFileProgress[];
+
+  // Controls
+  download: (filename: string) => Promise<void>;
+  cancel: () => void;
+}
+
+// Progress updates for a file are skipped until it moves by this much
+const PROGRESS_STEP = 0.01;
+
+export function useBundleDownload(results: JobResultsResponse): UseBundleDownloadReturn {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [files, setFiles] = useState<BundleFileProgress[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Rejects with an AbortError when cancelled or the save dialog is dismissed
+  const download = useCallback(async (filename: string) => {
+    // Open the save dialog first, while we still have the user gesture
+    const sink = await createZipSink(filename);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsDownloading(true);
+
+    try {
+      let fileList: FileListResponse | null = null;
+      try {
+        fileList = await api.getFileList(results.job_id);
+      } catch (error) {
+        console.warn('Failed to fetch file list, using result links:', error);
+      }
+
+      const entries = collectBundleEntries(results, fileList);
+      setFiles(entries.map(entry => ({
+        path: entry.path,
+        loaded: 0,
+        total: entry.size ?? 0,
+        status: 'pending'
+      })));
+
+      const reported: number[] = entries.map(() => -1);
+      await writeZipBundle({
+        entries,
+        manifest: createBundleManifest(results, entries),
+        sink,
+        signal: controller.signal,
+        onFileProgress: (index, loaded, total) => {
+          const isDone = total > 0 && loaded >= total;
+          const fraction = total > 0 ? loaded / total : 0;
+          if (!isDone && reported[index] >= 0 && fraction - reported[index] < PROGRESS_STEP) return;
+          reported[index] = fraction;
+
+          setFiles(prev => prev.map((file, i) => i === index
+            ? { ...file, loaded, total, status: isDone ? 'done' : 'downloading' }
+            : file
+          ));
+        }
+      });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      setIsDownloading(false);
+    }
+  }, [results]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return {
+    isDownloading,
+    files,
+    download,
+    cancel
+  };
+}
@@ -3,9 +3,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { api } from '@/lib/api';
+import { recordJobStatus, recordResults } from '@/lib/library';
 import { 
   JobStatusResponse, 
   JobResultsResponse,
+  JobStatusSubscription,
+  JobStatusTransport,
   ApiError,
   NetworkError 
 } from '@/types/api';
@@ -25,6 +28,8 @@ interface UseJobStatusReturn {
   isLoading: boolean;
   error: string | null;
   isPolling: boolean;
+  // How updates are arriving: a WebSocket or SSE stream, or polling
+  transport: JobStatusTransport | null;
   retryCount: number;
   estimatedTimeRemaining: string | null;
   startPolling: () => void;
@@ -33,6 +38,19 @@ interface UseJobStatusReturn {
   clearError: () => void;
 }
 
+const getErrorMessage = (err: unknown): string => {
+  if (err instanceof ApiError) {
+    if (err.statusCode === 404) {
+      return 'Job not found. It may have been deleted or expired.';
+    }
+    return err.message;
+  }
+  if (err instanceof NetworkError) {
+    return 'Network error. Please check your connection.';
+  }
+  return 'Failed to fetch job status';
+};
+
 export function useJobStatus({
   jobId,
   pollInterval = 2000,
@@ -48,11 +66,12 @@ export function useJobStatus({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isPolling, setIsPolling] = useState(false);
+  const [transport, setTransport] = useState<JobStatusTransport | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<string | null>(null);
 
   // Refs for cleanup
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const subscriptionRef = useRef<JobStatusSubscription | null>(null);
   const isMountedRef = useRef(true);
 
   // Calculate estimated time remaining
@@ -76,6 +95,18 @@ export function useJobStatus({
     }
   }, []);
 
+  // Record a status update
+  const applyStatus = useCallback((response: JobStatusResponse) => {
+    setStatus(response);
+    setError(null);
+    setRetryCount(0);
+    
+    // Calculate estimated time
+    setEstimatedTimeRemaining(calculateEstimatedTime(response));
+    
+    recordJobStatus(response).catch(err => console.warn('Failed to update the song library:', err));
+  }, [calculateEstimatedTime]);
+
   // Fetch job status
   const fetchStatus = useCallback(async (): Promise<JobStatusResponse | null> => {
     try {
@@ -83,43 +114,26 @@ export function useJobStatus({
       
       if (!isMountedRef.current) return null;
       
-      setStatus(response);
-      setError(null);
-      setRetryCount(0);
-      
-      // Calculate estimated time
-      const estimatedTime = calculateEstimatedTime(response);
-      setEstimatedTimeRemaining(estimatedTime);
-      
+      applyStatus(response);
       return response;
     } catch (err) {
       if (!isMountedRef.current) return null;
       
-      let errorMessage = 'Failed to fetch job status';
-      
-      if (err instanceof ApiError) {
-        errorMessage = err.message;
-        if (err.statusCode === 404) {
-          errorMessage = 'Job not found. It may have been deleted or expired.';
-        }
-      } else if (err instanceof NetworkError) {
-        errorMessage = 'Network error. Please check your connection.';
-      }
-      
-      setError(errorMessage);
+      setError(getErrorMessage(err));
       
       // Increment retry count
       setRetryCount(prev => prev + 1);
       
       throw err;
     }
-  }, [jobId, calculateEstimatedTime]);
+  }, [jobId, applyStatus]);
 
   // Handle job completion
   const handleCompletion = useCallback(async () => {
     try {
       // Fetch final results
       const results = await api.getJobResults(jobId);
+      recordResults(results).catch(err => console.warn('Failed to add song to the library:', err));
       
       if (!isMountedRef.current) return;
       
@@ -158,137 +172,62 @@ export function useJobStatus({
     }
   }, [onError]);
 
-    // Use refs to avoid stale closures in polling
-  const isPollingRef = useRef(false);
-  const retryCountRef = useRef(0);
-
-  // Update refs when state changes
-  useEffect(() => {
-    isPollingRef.current = isPolling;
-  }, [isPolling]);
-
-  useEffect(() => {
-    retryCountRef.current = retryCount;
-  }, [retryCount]);
+  // Stop following updates
+  const stopPolling = useCallback(() => {
+    setIsPolling(false);
+    subscriptionRef.current?.close();
+    subscriptionRef.current = null;
+  }, []);
 
-  // Single poll iteration
-  const pollOnce = useCallback(async () => {
-    console.log('🔄 POLL: Starting poll iteration, isPolling:', isPollingRef.current, 'isMounted:', isMountedRef.current);
+  // Follow status updates; the API client streams them over a WebSocket or
+  // SSE when the backend offers one and otherwise polls with backoff
+  const startPolling = useCallback(() => {
+    if (subscriptionRef.current) return;
     
-    if (!isPollingRef.current || !isMountedRef.current) {
-      console.log('❌ POLL: Skipping poll - not polling or not mounted');
-      return;
-    }
+    setIsPolling(true);
+    setError(null);
+    setRetryCount(0);
     
-    try {
-      console.log('📡 POLL: Fetching job status...');
-      const response = await fetchStatus();
-      
-      if (!response || !isMountedRef.current || !isPollingRef.current) {
-        console.log('❌ POLL: No response, not mounted, or polling stopped');
-        return;
-      }
-      
-      console.log('📊 POLL: Got response:', {
-        status: response.status,
-        progress: response.progress,
-        current_step: response.current_step
-      });
-      
-      // Check if job is complete (case-insensitive)
-      const statusLower = response.status.toLowerCase();
-      if (statusLower === 'completed' || statusLower === 'completed_with_errors') {
-        console.log('✅ POLL: Job complete, stopping polling and redirecting');
-        setIsPolling(false);
-        isPollingRef.current = false; // Set ref immediately
-        await handleCompletion();
-        return;
-      }
-      
-      // Check if job failed
-      if (statusLower === 'failed') {
-        console.log('❌ POLL: Job failed, stopping polling');
-        setIsPolling(false);
-        isPollingRef.current = false; // Set ref immediately
-        handleFailure(response);
-        return;
-      }
-      
-      // Continue polling for any status that isn't completed or failed
-      // This ensures we keep polling even for new processing steps like beat analysis
-      console.log(`🔄 POLL: Job status ${response.status}, continuing to poll in ${pollInterval}ms`);
-      // Schedule next poll
-      if (isMountedRef.current && isPollingRef.current) {
-        pollIntervalRef.current = setTimeout(pollOnce, pollInterval);
-      }
-      
-    } catch (err) {
-      // Handle polling errors with retry logic
-      const currentRetryCount = retryCountRef.current;
-      if (currentRetryCount < maxRetries) {
-        console.warn(`Polling failed (attempt ${currentRetryCount + 1}/${maxRetries}):`, err);
-        
-        // Increment retry count
-        setRetryCount(prev => prev + 1);
-        
-        // Retry with exponential backoff
-        const retryDelay = Math.min(pollInterval * Math.pow(2, currentRetryCount), 30000);
+    subscriptionRef.current = api.subscribeToJobStatus(jobId, {
+      onStatus: (response) => {
+        if (!isMountedRef.current) return;
+        applyStatus(response);
         
-        if (isMountedRef.current && isPollingRef.current) {
-          pollIntervalRef.current = setTimeout(pollOnce, retryDelay);
+        // Check if job is complete (case-insensitive); the subscription
+        // closes itself on completion and failure
+        const statusLower = response.status.toLowerCase();
+        if (statusLower === 'completed' || statusLower === 'completed_with_errors') {
+          subscriptionRef.current = null;
+          setIsPolling(false);
+          handleCompletion();
+        } else if (statusLower === 'failed') {
+          subscriptionRef.current = null;
+          setIsPolling(false);
+          handleFailure(response);
         }
-      } else {
+      },
+      onRetry: (attempt, err) => {
+        if (!isMountedRef.current) return;
+        console.warn(`Status update failed (attempt ${attempt}/${maxRetries}):`, err);
+        setError(getErrorMessage(err));
+        setRetryCount(attempt);
+      },
+      onError: (err) => {
+        if (!isMountedRef.current) return;
         // Max retries reached
+        subscriptionRef.current = null;
         setIsPolling(false);
-        isPollingRef.current = false; // Set ref immediately
-        
-        const errorMessage = err instanceof Error ? err.message : 'Polling failed after maximum retries';
-        setError(errorMessage);
+        setError(err.message || 'Polling failed after maximum retries');
         
         // toast.error('Connection lost', {
         //   description: 'Unable to track processing progress. You can check back later.',
         // });
-      }
-    }
-  }, [
-    fetchStatus, 
-    handleCompletion, 
-    handleFailure, 
-    maxRetries, 
-    pollInterval
-  ]);
-
-  // Start polling
-  const startPolling = useCallback(() => {
-    console.log('🚀 POLL: Starting polling, current isPolling:', isPollingRef.current);
-    
-    if (isPollingRef.current) {
-      console.log('⚠️ POLL: Already polling, skipping start');
-      return;
-    }
-    
-    console.log('✅ POLL: Setting up polling');
-    setIsPolling(true);
-    isPollingRef.current = true; // Set ref immediately for synchronous access
-    setError(null);
-    setRetryCount(0);
-    retryCountRef.current = 0; // Set ref immediately for synchronous access
-    
-    // Start first poll immediately
-    console.log('🔄 POLL: Triggering first poll');
-    pollOnce();
-  }, [pollOnce]);
-
-  // Stop polling
-  const stopPolling = useCallback(() => {
-    setIsPolling(false);
-    isPollingRef.current = false; // Set ref immediately for synchronous access
-    
-    if (pollIntervalRef.current) {
-      clearTimeout(pollIntervalRef.current);
-      pollIntervalRef.current = null;
-    }
-  }, []);
+      },
+      onTransportChange: (next) => {
+        if (isMountedRef.current) setTransport(next);
+      },
+    }, { pollInterval, maxRetries });
+  }, [jobId, applyStatus, handleCompletion, handleFailure, maxRetries, pollInterval]);
 
   // Retry after error
   const retry = useCallback(() => {
@@ -322,7 +261,7 @@ export function useJobStatus({
         
         const statusLower = response.status.toLowerCase();
         if (statusLower === 'processing' || statusLower === 'queued') {
-          console.log('🔄 INIT: Job is processing/queued, starting polling');
+          console.log('🔄 INIT: Job is processing/queued, following status updates');
           startPolling();
         } else if (statusLower === 'completed' || statusLower === 'completed_with_errors') {
           console.log('✅ INIT: Job already complete, redirecting immediately');
@@ -346,12 +285,9 @@ export function useJobStatus({
     return () => {
       mounted = false;
       isMountedRef.current = false;
-      
-      if (pollIntervalRef.current) {
-        clearTimeout(pollIntervalRef.current);
-      }
+      stopPolling();
     };
-  }, [jobId, fetchStatus, startPolling, handleCompletion, handleFailure]);
+  }, [jobId, fetchStatus, startPolling, stopPolling, handleCompletion, handleFailure]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -366,6 +302,7 @@ export function useJobStatus({
     isLoading,
     error,
     isPolling,
+    transport,
     retryCount,
     estimatedTimeRemaining,
     startPolling,
@@ -0,0 +1,179 @@
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { checkLibraryEntry } from '@/lib/library';
+import { LibraryEntry, deleteLibraryEntry, listLibraryEntries } from '@/lib/libraryStorage';
+import { OfflineSong, StorageUsage, getStorageUsage, listOfflineSongs, removeOfflineSong } from '@/lib/offlineCache';
+import { deletePitchAnalysis } from '@/lib/pitchStorage';
+
+export type LibrarySort = 'recent' | 'added' | 'title' | 'artist' | 'duration';
+export type LibraryFilter = 'all' | 'ready' | 'processing' | 'failed' | 'expired' | 'offline';
+
+export interface UseLibraryReturn {
+  // State
+  entries: LibraryEntry[]; // after search, filter and sort
+  totalCount: number;
+  isLoading: boolean;
+  isChecking: boolean; // asking the backend which jobs have expired
+  error: string | null;
+  query: string;
+  sort: LibrarySort;
+  filter: LibraryFilter;
+  // Songs kept offline, by job id
+  offlineSongs: Record<string, OfflineSong>;
+  storage: StorageUsage | null;
+
+  // Controls
+  setQuery: (query: string) => void;
+  setSort: (sort: LibrarySort) => void;
+  setFilter: (filter: LibraryFilter) => void;
+  removeEntry: (jobId: string) => Promise<void>; // also drops its offline copy
+  removeOffline: (jobId: string) => Promise<void>;
+}
+
+export const getEntryTitle = (entry: LibraryEntry): string =>
+  entry.metadata?.title || entry.filename.replace(/\.[^.]+$/, '');
+
+export const getEntryArtist = (entry: LibraryEntry): string =>
+  entry.metadata?.artist || entry.metadata?.albumartist || '';
+
+const matchesFilter = (entry: LibraryEntry, filter: LibraryFilter, isOffline: boolean): boolean => {
+  switch (filter) {
+    case 'offline':
+      return isOffline;
+    case 'ready':
+      return entry.status === 'completed' || entry.status === 'completed_with_errors';
+    case 'processing':
+      return entry.status === 'queued' || entry.status === 'processing';
+    case 'failed':
+      return entry.status === 'failed' || entry.status === 'skipped';
+    case 'expired':
+      return entry.status === 'expired';
+    default:
+      return true;
+  }
+};
+
+const matchesQuery = (entry: LibraryEntry, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [getEntryTitle(entry), getEntryArtist(entry), entry.metadata?.album ?? '', entry.filename]
+    .some(field => field.toLowerCase().includes(needle));
+};
+
+const compareEntries = (sort: LibrarySort) => (a: LibraryEntry, b: LibraryEntry): number => {
+  switch (sort) {
+    case 'added':
+      return b.createdAt - a.createdAt;
+    case 'title':
+      return getEntryTitle(a).localeCompare(getEntryTitle(b));
+    case 'artist':
+      // Songs without an artist go last
+      return (getEntryArtist(a) || '\uffff').localeCompare(getEntryArtist(b) || '\uffff')
+        || getEntryTitle(a).localeCompare(getEntryTitle(b));
+    case 'duration':
+      return (b.duration ?? 0) - (a.duration ?? 0);
+    default:
+      return (b.lastOpenedAt ?? b.createdAt) - (a.lastOpenedAt ?? a.createdAt);
+  }
+};
+
+// The local song library, with expired jobs detected in the background
+export function useLibrary(): UseLibraryReturn {
+  const [allEntries, setAllEntries] = useState<LibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<LibrarySort>('recent');
+  const [filter, setFilter] = useState<LibraryFilter>('all');
+  const [offlineSongs, setOfflineSongs] = useState<Record<string, OfflineSong>>({});
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+
+  const refreshOffline = useCallback(async () => {
+    try {
+      const [songs, usage] = await Promise.all([listOfflineSongs(), getStorageUsage()]);
+      setOfflineSongs(Object.fromEntries(songs.map(song => [song.jobId, song])));
+      setStorage(usage);
+    } catch (err) {
+      console.warn('Failed to read offline songs:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshOffline();
+  }, [refreshOffline]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const load = async () => {
+      let stored: LibraryEntry[];
+      try {
+        stored = await listLibraryEntries();
+      } catch (err) {
+        console.warn('Failed to load the song library:', err);
+        if (!isCancelled) setError(err instanceof Error ? err.message : 'Failed to load the song library');
+        return;
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+      if (isCancelled) return;
+      setAllEntries(stored);
+
+      // One job at a time, to go easy on the backend
+      setIsChecking(true);
+      for (const entry of stored) {
+        if (isCancelled) return;
+        const checked = await checkLibraryEntry(entry);
+        if (checked !== entry && !isCancelled) {
+          setAllEntries(prev => prev.map(other => other.jobId === checked.jobId ? checked : other));
+        }
+      }
+      if (!isCancelled) setIsChecking(false);
+    };
+
+    load();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const removeOffline = useCallback(async (jobId: string) => {
+    await removeOfflineSong(jobId);
+    await refreshOffline();
+  }, [refreshOffline]);
+
+  const removeEntry = useCallback(async (jobId: string) => {
+    await deleteLibraryEntry(jobId);
+    setAllEntries(prev => prev.filter(entry => entry.jobId !== jobId));
+    await Promise.all([
+      removeOffline(jobId),
+      deletePitchAnalysis(jobId).catch(error => console.warn('Failed to delete pitch analysis:', error))
+    ]);
+  }, [removeOffline]);
+
+  const entries = useMemo(
+    () => allEntries
+      .filter(entry => matchesFilter(entry, filter, entry.jobId in offlineSongs) && matchesQuery(entry, query))
+      .sort(compareEntries(sort)),
+    [allEntries, filter, query, sort, offlineSongs]
+  );
+
+  return {
+    entries,
+    totalCount: allEntries.length,
+    isLoading,
+    isChecking,
+    error,
+    query,
+    sort,
+    filter,
+    offlineSongs,
+    storage,
+    setQuery,
+    setSort,
+    setFilter,
+    removeEntry,
+    removeOffline
+  };
+}
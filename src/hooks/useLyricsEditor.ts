@@ -0,0 +1,206 @@
+import { useEffect, useState, useCallback } from 'react';
+import { TranscriptionData } from '@/types/api';
+import {
+  WordPosition,
+  setWordTiming,
+  moveWord,
+  setWordText,
+  splitWord,
+  mergeWordWithNext,
+  shiftSegment
+} from '@/lib/lyrics';
+import {
+  loadEditedTranscription,
+  saveEditedTranscription,
+  clearEditedTranscription
+} from '@/lib/lyricsStorage';
+import { downloadJson } from '@/lib/download';
+
+// Cap the undo history so long editing sessions don't grow without bound
+const MAX_HISTORY = 100;
+
+interface EditorHistory {
+  jobId: string | null; // whose lyrics these are, for persisting
+  past: TranscriptionData[];
+  present: TranscriptionData | null;
+  future: TranscriptionData[];
+}
+
+export interface UseLyricsEditorReturn {
+  // State
+  transcription: TranscriptionData | null;
+  isEdited: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  selectedWord: WordPosition | null;
+
+  // Selection
+  selectWord: (position: WordPosition | null) => void;
+
+  // Edits
+  setWordTiming: (position: WordPosition, start: number, end: number) => void;
+  moveWord: (position: WordPosition, delta: number) => void;
+  setWordText: (position: WordPosition, text: string) => void;
+  splitWord: (position: WordPosition) => void;
+  mergeWordWithNext: (position: WordPosition) => void;
+  shiftSegment: (segmentIndex: number, delta: number) => void;
+  replaceTranscription: (data: TranscriptionData) => void;
+
+  // History
+  undo: () => void;
+  redo: () => void;
+  resetToOriginal: () => void;
+
+  // Export
+  exportJson: (filename?: string) => void;
+}
+
+export function useLyricsEditor(
+  jobId: string,
+  original: TranscriptionData | null
+): UseLyricsEditorReturn {
+  const [history, setHistory] = useState<EditorHistory>({ jobId: null, past: [], present: null, future: [] });
+  const [selectedWord, setSelectedWord] = useState<WordPosition | null>(null);
+  // Anything but the original itself (a saved edit, or undo/redo landing elsewhere)
+  const isEdited = history.present !== null && history.present !== original;
+
+  // Start from the locally saved edit if there is one, otherwise the original
+  useEffect(() => {
+    if (!original) {
+      setHistory({ jobId: null, past: [], present: null, future: [] });
+      return;
+    }
+
+    const saved = loadEditedTranscription(jobId);
+    setHistory({ jobId, past: [], present: saved || original, future: [] });
+    setSelectedWord(null);
+  }, [jobId, original]);
+
+  // Persist whatever is current; back at the original, drop the saved copy
+  useEffect(() => {
+    if (!history.jobId || !history.present) return;
+
+    if (isEdited) {
+      saveEditedTranscription(history.jobId, history.present);
+    } else {
+      clearEditedTranscription(history.jobId);
+    }
+  }, [history.jobId, history.present, isEdited]);
+
+  // Apply an edit as a new undoable step; edits that change nothing are skipped
+  const applyEdit = useCallback((edit: (data: TranscriptionData) => TranscriptionData) => {
+    setHistory(prev => {
+      if (!prev.present) return prev;
+
+      const next = edit(prev.present);
+      if (next === prev.present) return prev;
+
+      return {
+        ...prev,
+        past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: []
+      };
+    });
+  }, []);
+
+  const updateWordTiming = useCallback((position: WordPosition, start: number, end: number) => {
+    applyEdit(data => setWordTiming(data, position, start, end));
+  }, [applyEdit]);
+
+  const moveWordBy = useCallback((position: WordPosition, delta: number) => {
+    applyEdit(data => moveWord(data, position, delta));
+  }, [applyEdit]);
+
+  const updateWordText = useCallback((position: WordPosition, text: string) => {
+    applyEdit(data => setWordText(data, position, text));
+  }, [applyEdit]);
+
+  const splitSelectedWord = useCallback((position: WordPosition) => {
+    applyEdit(data => splitWord(data, position));
+  }, [applyEdit]);
+
+  const mergeWithNextWord = useCallback((position: WordPosition) => {
+    applyEdit(data => mergeWordWithNext(data, position));
+  }, [applyEdit]);
+
+  const moveSegment = useCallback((segmentIndex: number, delta: number) => {
+    applyEdit(data => shiftSegment(data, segmentIndex, delta));
+  }, [applyEdit]);
+
+  // Swap in a whole new transcription (e.g. from tap sync or an import) as one undoable step
+  const replaceTranscription = useCallback((data: TranscriptionData) => {
+    applyEdit(() => data);
+    setSelectedWord(null);
+  }, [applyEdit]);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (!prev.present || prev.past.length === 0) return prev;
+
+      const previous = prev.past[prev.past.length - 1];
+      return {
+        ...prev,
+        past: prev.past.slice(0, -1),
+        present: previous,
+        future: [prev.present, ...prev.future]
+      };
+    });
+    setSelectedWord(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (!prev.present || prev.future.length === 0) return prev;
+
+      const next = prev.future[0];
+      return {
+        ...prev,
+        past: [...prev.past, prev.present],
+        present: next,
+        future: prev.future.slice(1)
+      };
+    });
+    setSelectedWord(null);
+  }, []);
+
+  // Throw away all local edits for this job (the saved copy goes with them)
+  const resetToOriginal = useCallback(() => {
+    setHistory({ jobId: original ? jobId : null, past: [], present: original, future: [] });
+    setSelectedWord(null);
+  }, [jobId, original]);
+
+  const exportJson = useCallback((filename?: string) => {
+    if (!history.present) return;
+    downloadJson(history.present, filename || `transcription-${jobId}.json`);
+  }, [history.present, jobId]);
+
+  return {
+    // State
+    transcription: history.present,
+    isEdited,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    selectedWord,
+
+    // Selection
+    selectWord: setSelectedWord,
+
+    // Edits
+    setWordTiming: updateWordTiming,
+    moveWord: moveWordBy,
+    setWordText: updateWordText,
+    splitWord: splitSelectedWord,
+    mergeWordWithNext: mergeWithNextWord,
+    shiftSegment: moveSegment,
+    replaceTranscription,
+
+    // History
+    undo,
+    redo,
+    resetToOriginal,
+
+    // Export
+    exportJson
+  };
+}
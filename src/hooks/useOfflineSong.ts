@@ -0,0 +1,108 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+import {
+  OfflineSaveProgress,
+  OfflineSong,
+  StorageUsage,
+  getOfflineSong,
+  getStorageUsage,
+  isOfflineCacheSupported,
+  removeOfflineSong,
+  saveOfflineSong
+} from '@/lib/offlineCache';
+import { JobResultsResponse } from '@/types/api';
+
+export interface UseOfflineSongReturn {
+  // State
+  isSupported: boolean;
+  offlineSong: OfflineSong | null; // set once the song is kept offline
+  isSaving: boolean;
+  progress: OfflineSaveProgress | null;
+  storage: StorageUsage | null;
+
+  // Controls
+  keepOffline: () => Promise<void>;
+  cancelSave: () => void;
+  removeOffline: () => Promise<void>;
+}
+
+// The "keep offline" state of one song
+export function useOfflineSong(results: JobResultsResponse | null): UseOfflineSongReturn {
+  const [offlineSong, setOfflineSong] = useState<OfflineSong | null>(null);
+  const [progress, setProgress] = useState<OfflineSaveProgress | null>(null);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const jobId = results?.job_id ?? null;
+
+  const refreshStorage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorage)
+      .catch(error => console.warn('Failed to estimate storage usage:', error));
+  }, []);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setOfflineSong(null);
+    if (!jobId) return;
+
+    getOfflineSong(jobId)
+      .then(song => {
+        if (!isCancelled) setOfflineSong(song);
+      })
+      .catch(error => console.warn('Failed to read the offline cache:', error));
+    refreshStorage();
+
+    return () => {
+      isCancelled = true;
+      abortRef.current?.abort();
+    };
+  }, [jobId, refreshStorage]);
+
+  const keepOffline = useCallback(async () => {
+    if (!results || abortRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: 1 });
+
+    try {
+      const song = await saveOfflineSong(results.job_id, api.getOfflineFileURLs(results), setProgress, controller.signal);
+      setOfflineSong(song);
+      toast.success('Song kept offline');
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Failed to keep song offline:', error);
+        toast.error('Failed to keep song offline', {
+          description: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refreshStorage();
+    }
+  }, [results, refreshStorage]);
+
+  const cancelSave = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const removeOffline = useCallback(async () => {
+    if (!jobId) return;
+    await removeOfflineSong(jobId);
+    setOfflineSong(null);
+    refreshStorage();
+  }, [jobId, refreshStorage]);
+
+  return {
+    isSupported: isOfflineCacheSupported(),
+    offlineSong,
+    isSaving: progress !== null,
+    progress,
+    storage,
+    keepOffline,
+    cancelSave,
+    removeOffline
+  };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { PitchAnalysis } from '@/lib/pitch';
+import { analyzeVocalPitch } from '@/lib/pitchAnalysis';
+import { loadPitchAnalysis, savePitchAnalysis } from '@/lib/pitchStorage';
+import { UseAudioPlayerReturn } from './useAudioPlayer';
+
+const VOCALS_TRACK = 'vocals';
+
+export interface UsePitchAnalysisReturn {
+  analysis: PitchAnalysis | null;
+  isAnalyzing: boolean;
+  progress: number; // 0-1
+}
+
+// Pitch of the vocals stem: from the cache, or analysed once the stem has loaded
+export function usePitchAnalysis(
+  jobId: string,
+  player: Pick<UseAudioPlayerReturn, 'trackStates' | 'getTrackBuffer'>
+): UsePitchAnalysisReturn {
+  const [analysis, setAnalysis] = useState<PitchAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const isVocalsLoaded = !!player.trackStates[VOCALS_TRACK]?.isLoaded;
+  const { getTrackBuffer } = player;
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      const cached = await loadPitchAnalysis(jobId);
+      if (controller.signal.aborted) return;
+      setAnalysis(cached);
+      if (cached || !isVocalsLoaded) return;
+
+      const buffer = getTrackBuffer(VOCALS_TRACK);
+      if (!buffer) return;
+
+      setIsAnalyzing(true);
+      setProgress(0);
+      try {
+        const result = await analyzeVocalPitch(buffer, { onProgress: setProgress, signal: controller.signal });
+        savePitchAnalysis(jobId, result);
+        setAnalysis(result);
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('Failed to analyze vocal pitch:', error);
+      } finally {
+        if (!controller.signal.aborted) setIsAnalyzing(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      controller.abort();
+      setIsAnalyzing(false);
+    };
+  }, [jobId, isVocalsLoaded, getTrackBuffer]);
+
+  return { analysis, isAnalyzing, progress };
+}
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { TranscriptionData } from '@/types/api';
+import { PitchAnalysis } from '@/lib/pitch';
+import {
+  LineScore,
+  PitchSample,
+  ScoreState,
+  ScoreSummary,
+  advanceScore,
+  createScoreSheet,
+  createScoreState,
+  getLineScores,
+  summarizeScore
+} from '@/lib/scoring';
+import { UseAudioPlayerReturn } from './useAudioPlayer';
+
+// Live pitch is read this often (detection is too costly for every frame)
+const SAMPLE_INTERVAL_MS = 40;
+// Jumping back further than this (seek, loop) starts a new score
+const REWIND_THRESHOLD = 0.5;
+// Samples this far behind the next word to score are no longer needed
+const SAMPLE_RETENTION = 2;
+// Playback stopping this close to the end counts as finishing the song
+const END_OF_SONG_MARGIN = 0.5;
+
+export interface UseSingingScoreReturn {
+  // Mic, melody and lyrics are all available
+  isAvailable: boolean;
+  score: number;
+  maxScore: number;
+  lines: LineScore[];
+  // Set once the song has been sung to the end
+  summary: ScoreSummary | null;
+  // Recent sung pitches (key change removed) for drawing
+  getSungPitches: () => PitchSample[];
+  reset: () => void;
+  dismissSummary: () => void;
+}
+
+// Scores the singer against the vocals stem while the mic is on
+export function useSingingScore(
+  transcription: TranscriptionData | null,
+  analysis: PitchAnalysis | null,
+  player: Pick<
+    UseAudioPlayerReturn,
+    'micStatus' | 'isPlaying' | 'currentTime' | 'duration' | 'pitchShift' | 'playbackRate' | 'getCurrentTime' | 'getMicPitch'
+  >
+): UseSingingScoreReturn {
+  const sheet = useMemo(
+    () => (transcription && analysis ? createScoreSheet(transcription, analysis) : null),
+    [transcription, analysis]
+  );
+  const [state, setState] = useState<ScoreState | null>(null);
+  const [summary, setSummary] = useState<ScoreSummary | null>(null);
+  const stateRef = useRef<ScoreState | null>(null);
+  const samplesRef = useRef<PitchSample[]>([]);
+
+  const isAvailable = sheet !== null && sheet.words.length > 0 && player.micStatus.isActive;
+  const { isPlaying, getCurrentTime, getMicPitch, pitchShift, playbackRate } = player;
+  const latency = player.micStatus.latency;
+
+  const reset = useCallback(() => {
+    const next = sheet ? createScoreState(sheet) : null;
+    stateRef.current = next;
+    samplesRef.current = [];
+    setState(next);
+    setSummary(null);
+  }, [sheet]);
+
+  // New lyrics or melody invalidate the score
+  useEffect(() => {
+    reset();
+  }, [reset]);
+
+  useEffect(() => {
+    if (!isAvailable || !isPlaying || !sheet || !analysis) return;
+
+    const intervalId = window.setInterval(() => {
+      // The singer hears the song late and we hear them late, so the pitch
+      // read now belongs to an earlier point in the song
+      const time = getCurrentTime() - latency * playbackRate;
+      const pitch = getMicPitch();
+      const samples = samplesRef.current;
+
+      const lastSample = samples[samples.length - 1];
+      if (lastSample && time < lastSample.time - REWIND_THRESHOLD) {
+        stateRef.current = createScoreState(sheet);
+        samplesRef.current = [];
+        setState(stateRef.current);
+        setSummary(null);
+      }
+
+      // Scored relative to the original key
+      samplesRef.current.push({ time, midi: pitch === null ? null : pitch - pitchShift });
+
+      const current = stateRef.current ?? createScoreState(sheet);
+      const next = advanceScore(current, sheet, analysis, samplesRef.current, time);
+      if (next !== current || !stateRef.current) {
+        stateRef.current = next;
+        setState(next);
+
+        const oldest = (sheet.words[next.nextWord]?.start ?? time) - SAMPLE_RETENTION;
+        samplesRef.current = samplesRef.current.filter(sample => sample.time >= oldest);
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => window.clearInterval(intervalId);
+  }, [isAvailable, isPlaying, sheet, analysis, latency, playbackRate, pitchShift, getCurrentTime, getMicPitch]);
+
+  // Finishing the song scores the remaining words and produces the summary
+  const hasFinished = !player.isPlaying && player.duration > 0 &&
+    player.currentTime >= player.duration - END_OF_SONG_MARGIN;
+
+  useEffect(() => {
+    const current = stateRef.current;
+    if (!hasFinished || !sheet || !analysis || !current || samplesRef.current.length === 0) return;
+
+    const final = advanceScore(current, sheet, analysis, samplesRef.current, Infinity);
+    stateRef.current = final;
+    setState(final);
+    setSummary(summarizeScore(sheet, final));
+  }, [hasFinished, sheet, analysis]);
+
+  const lines = useMemo(() => (sheet && state ? getLineScores(sheet, state) : []), [sheet, state]);
+
+  const getSungPitches = useCallback(() => samplesRef.current, []);
+
+  const dismissSummary = useCallback(() => setSummary(null), []);
+
+  return {
+    isAvailable,
+    score: Math.round(state?.score ?? 0),
+    maxScore: sheet?.maxScore ?? 0,
+    lines,
+    summary,
+    getSungPitches,
+    reset,
+    dismissSummary
+  };
+}
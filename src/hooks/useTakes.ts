@@ -0,0 +1,89 @@
+import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { INSTRUMENTAL_TRACKS } from '@/lib/audioExport';
+import { TakeInfo, deleteTake as deleteStoredTake, listTakes, loadTake, pickTake as pickStoredTake, saveTake } from '@/lib/takeStorage';
+import { encodeWav } from '@/lib/wav';
+import { UseAudioPlayerReturn } from './useAudioPlayer';
+
+export interface UseTakesReturn {
+  // State
+  takes: TakeInfo[];
+
+  // Controls
+  pickTake: (id: string | null) => Promise<void>;
+  deleteTake: (id: string) => Promise<void>;
+  // WAV of the take over the current instrumental mix
+  renderTakeMix: (take: TakeInfo) => Promise<Blob>;
+}
+
+// Saves every take the engine records for this job and lists them
+export function useTakes(
+  jobId: string,
+  player: Pick<UseAudioPlayerReturn, 'setTakeRecordedCallback' | 'renderMixdown'>
+): UseTakesReturn {
+  const [takes, setTakes] = useState<TakeInfo[]>([]);
+  const { setTakeRecordedCallback, renderMixdown } = player;
+
+  useEffect(() => {
+    let isCancelled = false;
+    setTakes([]);
+
+    listTakes(jobId)
+      .then(stored => {
+        if (!isCancelled) setTakes(stored);
+      })
+      .catch(error => console.warn('Failed to load saved takes:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [jobId]);
+
+  useEffect(() => {
+    setTakeRecordedCallback(take => {
+      saveTake(jobId, take)
+        .then(info => {
+          setTakes(prev => [...prev, info]);
+          toast.success(`Take ${info.number} saved`);
+        })
+        .catch(error => {
+          console.error('Failed to save take:', error);
+          toast.error('Failed to save take', {
+            description: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+    });
+
+    return () => setTakeRecordedCallback(null);
+  }, [jobId, setTakeRecordedCallback]);
+
+  const pickTake = useCallback(async (id: string | null) => {
+    setTakes(await pickStoredTake(jobId, id));
+  }, [jobId]);
+
+  const deleteTake = useCallback(async (id: string) => {
+    await deleteStoredTake(id);
+    setTakes(prev => prev.filter(take => take.id !== id));
+  }, []);
+
+  const renderTakeMix = useCallback(async (info: TakeInfo) => {
+    const take = await loadTake(info);
+    if (!take) {
+      throw new Error('The recording for this take is missing');
+    }
+
+    const buffer = await renderMixdown({
+      includeTracks: INSTRUMENTAL_TRACKS,
+      useCurrentMix: true,
+      vocalTake: take
+    });
+    return encodeWav(buffer);
+  }, [renderMixdown]);
+
+  return {
+    takes,
+    pickTake,
+    deleteTake,
+    renderTakeMix
+  };
+}
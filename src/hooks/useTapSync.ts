@@ -0,0 +1,104 @@
+import { useMemo, useState, useCallback } from 'react';
+import { TranscriptionData } from '@/types/api';
+import { applyLineTaps, applyWordTaps, countWords } from '@/lib/lyrics';
+
+export type TapSyncMode = 'line' | 'word';
+
+export interface UseTapSyncOptions {
+  base: TranscriptionData | null;
+  getCurrentTime: () => number;
+  seek: (time: number) => Promise<void>;
+  rewindSeconds?: number;
+}
+
+export interface UseTapSyncReturn {
+  // State
+  isActive: boolean;
+  mode: TapSyncMode;
+  tapCount: number;
+  targetCount: number;
+  transcription: TranscriptionData | null;
+
+  // Controls
+  start: (mode: TapSyncMode) => void;
+  cancel: () => void;
+  tap: () => void;
+  rewind: () => Promise<void>;
+  finish: () => TranscriptionData | null;
+}
+
+export function useTapSync({
+  base,
+  getCurrentTime,
+  seek,
+  rewindSeconds = 5
+}: UseTapSyncOptions): UseTapSyncReturn {
+  const [isActive, setIsActive] = useState(false);
+  const [mode, setMode] = useState<TapSyncMode>('line');
+  const [taps, setTaps] = useState<number[]>([]);
+
+  // Number of taps needed to stamp the whole song
+  const targetCount = useMemo(() => {
+    if (!base) return 0;
+    return mode === 'line' ? base.segments.length : countWords(base);
+  }, [base, mode]);
+
+  // Lyrics re-timed with the taps so far, used by the lyrics view while syncing
+  const transcription = useMemo(() => {
+    if (!base || !isActive) return base;
+    return mode === 'line' ? applyLineTaps(base, taps) : applyWordTaps(base, taps);
+  }, [base, isActive, mode, taps]);
+
+  const start = useCallback((nextMode: TapSyncMode) => {
+    setMode(nextMode);
+    setTaps([]);
+    setIsActive(true);
+  }, []);
+
+  const cancel = useCallback(() => {
+    setIsActive(false);
+    setTaps([]);
+  }, []);
+
+  // Stamp the next line/word with the current playback time
+  const tap = useCallback(() => {
+    const time = getCurrentTime();
+    setTaps(prev => {
+      if (prev.length >= targetCount) return prev;
+      // Taps must move forward in time
+      if (prev.length > 0 && time <= prev[prev.length - 1]) return prev;
+      return [...prev, time];
+    });
+  }, [getCurrentTime, targetCount]);
+
+  // Jump back a few seconds and forget the taps made after that point
+  const rewind = useCallback(async () => {
+    const time = Math.max(0, getCurrentTime() - rewindSeconds);
+    setTaps(prev => prev.filter(t => t < time));
+    await seek(time);
+  }, [getCurrentTime, rewindSeconds, seek]);
+
+  // Stop syncing and hand back the re-timed lyrics
+  const finish = useCallback((): TranscriptionData | null => {
+    const result = taps.length > 0 ? transcription : null;
+    setIsActive(false);
+    setTaps([]);
+    return result;
+  }, [taps, transcription]);
+
+  return {
+    // State
+    isActive,
+    mode,
+    tapCount: taps.length,
+    targetCount,
+    transcription,
+
+    // Controls
+    start,
+    cancel,
+    tap,
+    rewind,
+    finish
+  };
+}
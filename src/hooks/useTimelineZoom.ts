@@ -0,0 +1,171 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  TimelineView,
+  ZOOM_STEP,
+  getFullView,
+  getZoom,
+  ratioToTime,
+  scrollView,
+  zoomView
+} from '@/lib/timelineView';
+
+// Wheel travel (px) that zooms by a factor of e
+const WHEEL_ZOOM_SENSITIVITY = 200;
+// Wheel deltas in lines are converted at this many px per line
+const WHEEL_LINE_HEIGHT = 16;
+// When following playback, the playhead lands this far into the next view
+const FOLLOW_MARGIN = 0.1;
+
+export interface UseTimelineZoomReturn {
+  view: TimelineView;
+  zoom: number; // 1 = whole song
+  zoomIn: () => void;
+  zoomOut: () => void;
+  resetZoom: () => void;
+  scrollTo: (start: number) => void;
+}
+
+// Zoom and scroll for the studio timeline. Ctrl/cmd+wheel (and trackpad or
+// touch pinches) zoom around the pointer, horizontal or shift+wheel scrolls,
+// and the view pages along with the playhead while playing.
+export function useTimelineZoom(
+  containerRef: RefObject<HTMLElement | null>,
+  duration: number,
+  currentTime: number,
+  isPlaying: boolean
+): UseTimelineZoomReturn {
+  const [view, setView] = useState<TimelineView>(() => getFullView(duration));
+
+  // A new song starts zoomed out
+  useEffect(() => {
+    setView(getFullView(duration));
+  }, [duration]);
+
+  // Buttons zoom around the playhead when it's on screen
+  const zoomBy = useCallback((factor: number) => {
+    setView(prev => {
+      const anchor = currentTime >= prev.start && currentTime <= prev.end
+        ? currentTime
+        : (prev.start + prev.end) / 2;
+      return zoomView(prev, factor, anchor, duration);
+    });
+  }, [currentTime, duration]);
+
+  const zoomIn = useCallback(() => zoomBy(ZOOM_STEP), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy]);
+  const resetZoom = useCallback(() => setView(getFullView(duration)), [duration]);
+
+  const scrollTo = useCallback((start: number) => {
+    setView(prev => scrollView(prev, start, duration));
+  }, [duration]);
+
+  // Wheel: needs a non-passive listener to keep ctrl+wheel from zooming the page
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || duration <= 0) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      const rect = container.getBoundingClientRect();
+      if (rect.width === 0) return;
+
+      const scale = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      const ratio = (event.clientX - rect.left) / rect.width;
+
+      // Trackpad pinches arrive as ctrl+wheel too
+      if (event.ctrlKey || event.metaKey) {
+        event.preventDefault();
+        const factor = Math.exp((-event.deltaY * scale) / WHEEL_ZOOM_SENSITIVITY);
+        setView(prev => zoomView(prev, factor, ratioToTime(prev, ratio), duration));
+        return;
+      }
+
+      const delta = (event.shiftKey ? event.deltaY || event.deltaX : event.deltaX) * scale;
+      if (delta === 0 || (!event.shiftKey && Math.abs(event.deltaX) < Math.abs(event.deltaY))) return;
+
+      event.preventDefault();
+      setView(prev => scrollView(prev, prev.start + (delta / rect.width) * (prev.end - prev.start), duration));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [containerRef, duration]);
+
+  // Two-finger pinch on touch screens
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || duration <= 0) return;
+
+    const touches = new Map<number, number>(); // pointerId -> clientX
+    let lastSpread = 0;
+
+    const getSpread = () => {
+      const [a, b] = Array.from(touches.values());
+      return Math.abs(a - b);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.pointerType !== 'touch') return;
+      touches.set(event.pointerId, event.clientX);
+      lastSpread = touches.size === 2 ? getSpread() : 0;
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!touches.has(event.pointerId)) return;
+      touches.set(event.pointerId, event.clientX);
+      if (touches.size !== 2) return;
+
+      const spread = getSpread();
+      const rect = container.getBoundingClientRect();
+      if (lastSpread > 0 && spread > 0 && rect.width > 0) {
+        const [a, b] = Array.from(touches.values());
+        const ratio = ((a + b) / 2 - rect.left) / rect.width;
+        const factor = spread / lastSpread;
+        setView(prev => zoomView(prev, factor, ratioToTime(prev, ratio), duration));
+      }
+      lastSpread = spread;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      touches.delete(event.pointerId);
+      lastSpread = 0;
+    };
+
+    container.addEventListener('pointerdown', handlePointerDown);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerup', handlePointerUp);
+    container.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      container.removeEventListener('pointerdown', handlePointerDown);
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerup', handlePointerUp);
+      container.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [containerRef, duration]);
+
+  // Follow the playhead when it leaves the view by playing (or looping) out
+  // of it; if the user has scrolled away, leave the view where it is
+  const previousTimeRef = useRef(currentTime);
+  useEffect(() => {
+    const previous = previousTimeRef.current;
+    previousTimeRef.current = currentTime;
+    if (!isPlaying) return;
+
+    setView(prev => {
+      const wasVisible = previous >= prev.start && previous <= prev.end;
+      const isVisible = currentTime >= prev.start && currentTime < prev.end;
+      if (!wasVisible || isVisible) return prev;
+
+      const next = scrollView(prev, currentTime - FOLLOW_MARGIN * (prev.end - prev.start), duration);
+      return next.start === prev.start ? prev : next;
+    });
+  }, [currentTime, isPlaying, duration]);
+
+  return {
+    view,
+    zoom: getZoom(view, duration),
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    scrollTo
+  };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_WAVEFORM_OPTIONS, WaveformData } from '@/lib/waveform';
+import { getStemWaveform } from '@/lib/waveformAnalysis';
+import { loadWaveform } from '@/lib/waveformStorage';
+import { UseAudioPlayerReturn } from './useAudioPlayer';
+
+const WAVEFORM_STEMS = ['vocals', 'other', 'bass', 'drums'];
+
+export type StemWaveforms = Record<string, WaveformData | null>;
+
+// Peaks for every stem lane. Cached peaks are shown as soon as the job opens;
+// the rest are computed one stem at a time from the engine's decoded buffers.
+export function useWaveforms(
+  jobId: string,
+  player: Pick<UseAudioPlayerReturn, 'trackStates' | 'getTrackBuffer'>
+): StemWaveforms {
+  const [waveforms, setWaveforms] = useState<StemWaveforms>({});
+  const { trackStates, getTrackBuffer } = player;
+  const options = DEFAULT_WAVEFORM_OPTIONS;
+
+  // Cached peaks, before any audio has loaded
+  useEffect(() => {
+    let isCancelled = false;
+    setWaveforms({});
+
+    WAVEFORM_STEMS.forEach(stem => {
+      loadWaveform(jobId, stem, options).then(data => {
+        if (!isCancelled && data) {
+          setWaveforms(prev => (prev[stem] ? prev : { ...prev, [stem]: data }));
+        }
+      });
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [jobId, options]);
+
+  // The next stem that has loaded but has no peaks yet; finishing it
+  // re-renders with the one after
+  const nextStem = WAVEFORM_STEMS.find(stem => trackStates[stem]?.isLoaded && !waveforms[stem]);
+
+  useEffect(() => {
+    const buffer = nextStem ? getTrackBuffer(nextStem) : null;
+    if (!nextStem || !buffer) return;
+
+    const controller = new AbortController();
+    getStemWaveform(jobId, nextStem, buffer, options, controller.signal)
+      .then(data => {
+        if (!controller.signal.aborted) {
+          setWaveforms(prev => ({ ...prev, [nextStem]: data }));
+        }
+      })
+      .catch(error => {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error(`Failed to analyze the ${nextStem} waveform:`, error);
+      });
+
+    return () => controller.abort();
+  }, [jobId, options, nextStem, getTrackBuffer]);
+
+  return waveforms;
+}
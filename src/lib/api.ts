@@ -12,7 +12,12 @@ import {
   ApiError,
   NetworkError,
   ValidationError,
+  JobStatusHandlers,
+  JobStatusSubscription,
+  JobStatusSubscriptionOptions,
 } from '@/types/api';
+import { JobStatusFeed } from '@/lib/jobStatusTransport';
+import { fetchWithOfflineCache, matchOfflineFile } from '@/lib/offlineCache';
 
 /**
  * API Client for Karaoke Backend
@@ -164,7 +169,43 @@ export class KaraokeAPI {
    * Get Job Results - Get complete job results and processed files
    */
   async getJobResults(jobId: string): Promise<JobResultsResponse> {
-    return this.fetchWithErrorHandling<JobResultsResponse>(`/api/results/${jobId}`);
+    try {
+      return await this.fetchWithErrorHandling<JobResultsResponse>(`/api/results/${jobId}`);
+    } catch (error) {
+      // Songs kept offline outlive the backend's copy
+      const cached = await matchOfflineFile(this.getJobResultsURL(jobId));
+      if (cached) {
+        return cached.json() as Promise<JobResultsResponse>;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get Job Results URL - Where getJobResults fetches from
+   */
+  getJobResultsURL(jobId: string): string {
+    return `${this.baseURL}/api/results/${jobId}`;
+  }
+
+  /**
+   * Get Offline File URLs - Everything the studio loads for a job, so it can
+   * be kept in the offline cache
+   */
+  getOfflineFileURLs(results: JobResultsResponse): string[] {
+    const jobId = results.job_id;
+    const links = results.download_links;
+    const coverPath = results.audio_metadata?.cover_image_path;
+    const linked = [links.vocals_stem, links.drums_stem, links.bass_stem, links.other_stem, links.beat_analysis, links.beat_beats, coverPath]
+      .filter((link): link is string => !!link)
+      .map(link => this.getFileDownloadURL(jobId, link.split('/').pop() || ''));
+
+    return [
+      this.getJobResultsURL(jobId),
+      ...linked,
+      // Lyrics are loaded inline, by name (see getTranscriptionData)
+      ...(links.transcription ? [this.getFileDownloadURL(jobId, 'transcription.json', true)] : []),
+    ];
   }
 
   /**
@@ -191,7 +232,11 @@ export class KaraokeAPI {
         `/api/files/${jobId}/${filename}`,
         { method: 'HEAD' }
       );
-      return (response as Response).ok;
+      // Only a 404 means the file is gone; other errors are rethrown below
+      if (!response.ok) {
+        throw new ApiError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+      }
+      return true;
     } catch (error) {
       if (error instanceof ApiError && error.statusCode === 404) {
         return false;
@@ -205,7 +250,7 @@ export class KaraokeAPI {
    */
   async getTranscriptionData(jobId: string): Promise<TranscriptionData> {
     const url = this.getFileDownloadURL(jobId, 'transcription.json', true);
-    const response = await fetch(url);
+    const response = await fetchWithOfflineCache(url);
     
     if (!response.ok) {
       throw new ApiError('Failed to fetch transcription data', response.status);
@@ -219,7 +264,7 @@ export class KaraokeAPI {
    */
   async getBeatAnalysisData(jobId: string): Promise<BeatAnalysisData> {
     const url = this.getFileDownloadURL(jobId, 'analysis.json', true);
-    const response = await fetch(url);
+    const response = await fetchWithOfflineCache(url);
     
     if (!response.ok) {
       throw new ApiError('Failed to fetch beat analysis data', response.status);
@@ -229,7 +274,20 @@ export class KaraokeAPI {
   }
 
   /**
-   * Poll Job Status - Poll status until completion or failure
+   * Subscribe to Job Status - Stream status updates over WebSocket or SSE,
+   * falling back to polling; stops by itself once the job completes or fails
+   */
+  subscribeToJobStatus(
+    jobId: string,
+    handlers: JobStatusHandlers,
+    options?: JobStatusSubscriptionOptions
+  ): JobStatusSubscription {
+    const source = { baseURL: this.baseURL, getJobStatus: (id: string) => this.getJobStatus(id) };
+    return new JobStatusFeed(source, jobId, handlers, options);
+  }
+
+  /**
+   * Poll Job Status - Follow status until completion or failure
    */
   async pollJobStatus(
     jobId: string,
@@ -237,30 +295,22 @@ export class KaraokeAPI {
     pollInterval = 2000 // 2 seconds
   ): Promise<JobResultsResponse> {
     return new Promise((resolve, reject) => {
-      const poll = async () => {
-        try {
-          const status = await this.getJobStatus(jobId);
-          
+      this.subscribeToJobStatus(jobId, {
+        onStatus: (status) => {
           if (onProgress) {
             onProgress(status);
           }
 
-          if (status.status === 'completed' || status.status === 'completed_with_errors') {
+          const statusLower = status.status.toLowerCase();
+          if (statusLower === 'completed' || statusLower === 'completed_with_errors') {
             // Get final results
-            const results = await this.getJobResults(jobId);
-            resolve(results);
-          } else if (status.status === 'failed') {
+            this.getJobResults(jobId).then(resolve, reject);
+          } else if (statusLower === 'failed') {
             reject(new ApiError(status.error_message || 'Job processing failed', 500));
-          } else {
-            // Continue polling
-            setTimeout(poll, pollInterval);
           }
-        } catch (error) {
-          reject(error);
-        }
-      };
-
-      poll();
+        },
+        onError: reject,
+      }, { pollInterval });
     });
   }
 
@@ -1,14 +1,59 @@
 // Audio Engine for synchronized multi-track playback
 // Handles loading, playing, and controlling multiple audio stems
 
+import {
+  DEFAULT_MIC_SETTINGS,
+  INACTIVE_MIC_STATUS,
+  MicSettings,
+  MicStatus,
+  MicrophoneInput,
+  createMicEffects
+} from './microphone';
+import { RecordedTake, TakeRecorder } from './recording';
+import {
+  ClickSounds,
+  ClickTrackState,
+  DEFAULT_CLICK_TRACK_STATE,
+  createClickSounds,
+  findBeatIndex,
+  getBeatInterval
+} from './metronome';
+import { fetchWithOfflineCache } from './offlineCache';
+
+export type EqBand = 'low' | 'mid' | 'high';
+
+// Per-band gain in dB
+export type TrackEq = Record<EqBand, number>;
+
+// Per-track processing between the source and the track gain
+export interface TrackProcessingNodes {
+  eq: Record<EqBand, BiquadFilterNode>;
+  panner: StereoPannerNode;
+}
+
 export interface AudioTrack {
   name: string;
   url: string;
   buffer: AudioBuffer | null;
   gainNode: GainNode | null;
   source: AudioBufferSourceNode | null;
+  processing: TrackProcessingNodes | null;
   isMuted: boolean;
+  isSolo: boolean;
   volume: number; // 0-100
+  pan: number; // -1 (left) to 1 (right)
+  eq: TrackEq;
+}
+
+export interface TrackState {
+  volume: number;
+  isMuted: boolean;
+  isSolo: boolean;
+  // False when muted, or when other tracks are soloed and this one isn't
+  isAudible: boolean;
+  pan: number;
+  eq: TrackEq;
+  isLoaded: boolean;
 }
 
 export interface AudioEngineState {
@@ -17,8 +62,68 @@ export interface AudioEngineState {
   duration: number;
   isLoading: boolean;
   error: string | null;
+  isRecording: boolean;
 }
 
+// A-B loop boundaries in song time (seconds)
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+export interface MixdownOptions {
+  // Only render these tracks (defaults to all loaded tracks)
+  includeTracks?: string[];
+  // Apply each track's current volume/mute, the master volume and the key
+  // change (otherwise every track is rendered at unity gain, in the original key)
+  useCurrentMix?: boolean;
+  // Mix in a recorded take with the current mic effects. The song is
+  // rendered at the tempo the take was sung at.
+  vocalTake?: RecordedTake;
+}
+
+// Key change range in semitones
+export const MAX_PITCH_SHIFT = 12;
+
+// Practice tempo range (1 = original tempo)
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 1.25;
+
+// Shortest loop the engine accepts, in seconds
+export const MIN_LOOP_LENGTH = 0.1;
+
+// EQ band gain range in dB
+export const MAX_EQ_GAIN = 12;
+
+// Low shelf, peaking mid and high shelf, tuned for separated stems
+const EQ_BANDS: Record<EqBand, { type: BiquadFilterType; frequency: number; Q?: number }> = {
+  low: { type: 'lowshelf', frequency: 250 },
+  mid: { type: 'peaking', frequency: 1000, Q: 0.9 },
+  high: { type: 'highshelf', frequency: 4000 }
+};
+
+const FLAT_EQ: TrackEq = { low: 0, mid: 0, high: 0 };
+
+// Guide vocals are only pitch-shifted when asked to
+const VOCALS_TRACK = 'vocals';
+
+// Served from public/; see that file for how the shifter works
+const PITCH_SHIFTER_URL = '/worklets/pitch-shifter.js';
+
+// Fixed delay through the pitch shifter (half its window plus one sample)
+const PITCH_SHIFT_LATENCY_SAMPLES = 1025;
+
+// Clicks are scheduled this far ahead on the audio clock, topped up every
+// CLICK_SCHEDULE_INTERVAL_MS so timer jitter never makes one late
+const CLICK_LOOKAHEAD = 0.12;
+const CLICK_SCHEDULE_INTERVAL_MS = 25;
+
+// Scrubbing plays snippets this long, at most one per SCRUB_INTERVAL, with
+// short fades so they don't click
+const SCRUB_SNIPPET = 0.08;
+const SCRUB_INTERVAL = 0.06;
+const SCRUB_FADE = 0.01;
+
 export class AudioEngine {
   private audioContext: AudioContext | null = null;
   private masterGainNode: GainNode | null = null;
@@ -28,9 +133,43 @@ export class AudioEngine {
   private animationFrameId: number | null = null;
   private stateChangeCallback: ((state: AudioEngineState) => void) | null = null;
   private isSeeking: boolean = false;
+  private masterVolume: number = 100; // 0-100
+  // Tracks that follow the key change go through keyShiftNode; guide vocals
+  // that stay in key go through guideShiftNode, which only undoes the pitch
+  // change from the tempo. Both add the same latency, so stems stay aligned.
+  private keyShiftNode: AudioWorkletNode | null = null;
+  private guideShiftNode: AudioWorkletNode | null = null;
+  private pitchShift: number = 0; // semitones
+  private shiftVocals: boolean = false;
+  private playbackRate: number = 1;
+  private startOffset: number = 0; // song position at startTime
+  private loop: LoopRegion | null = null;
+  private microphone: MicrophoneInput | null = null;
+  private micSettings: MicSettings = { ...DEFAULT_MIC_SETTINGS };
+  private recorder: TakeRecorder | null = null;
+  // Playback clock when the take started, to place it on the song timeline
+  private recordingAnchor: {
+    startTime: number;
+    startOffset: number;
+    playbackRate: number;
+    latency: number;
+    sampleRate: number;
+  } | null = null;
+  private takeRecordedCallback: ((take: RecordedTake) => void) | null = null;
+  // Click track: beats in song time, scheduled ahead on the audio clock
+  private clickBeats: number[] = [];
+  private beatsPerBar: number = 4;
+  private clickTrack: ClickTrackState = { ...DEFAULT_CLICK_TRACK_STATE };
+  private clickGainNode: GainNode | null = null;
+  private clickSounds: ClickSounds | null = null;
+  private clickSchedulerId: number | null = null;
+  private clickScheduledUntil: number = 0; // unwrapped song position
+  private scheduledClicks: Set<AudioBufferSourceNode> = new Set();
+  private lastScrubTime: number = -Infinity; // context time of the last snippet
+  private graphReady: Promise<void>;
 
   constructor() {
-    this.initializeAudioContext();
+    this.graphReady = this.initializeAudioContext();
   }
 
   private async initializeAudioContext() {
@@ -50,9 +189,49 @@ export class AudioEngine {
     } catch (error) {
       console.error('Failed to initialize audio context:', error);
       this.updateState({ error: 'Failed to initialize audio system' });
+      return;
+    }
+
+    // Key change is optional: without AudioWorklet support tracks go straight
+    // to the master gain
+    try {
+      await this.setupPitchShifter();
+    } catch (error) {
+      console.warn('Pitch shifting unavailable:', error);
     }
   }
 
+  private async setupPitchShifter(): Promise<void> {
+    const context = this.audioContext;
+    if (!context || !this.masterGainNode) return;
+
+    const { keyShiftNode, guideShiftNode } = await this.createPitchShiftNodes(context, this.masterGainNode);
+    this.keyShiftNode = keyShiftNode;
+    this.guideShiftNode = guideShiftNode;
+    this.applyPitchShift();
+  }
+
+  private async createPitchShiftNodes(
+    context: BaseAudioContext,
+    destination: AudioNode
+  ): Promise<{ keyShiftNode: AudioWorkletNode; guideShiftNode: AudioWorkletNode }> {
+    await context.audioWorklet.addModule(PITCH_SHIFTER_URL);
+
+    const createShifter = () => {
+      const node = new AudioWorkletNode(context, 'pitch-shifter', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+        channelCount: 2,
+        channelCountMode: 'explicit'
+      });
+      node.connect(destination);
+      return node;
+    };
+
+    return { keyShiftNode: createShifter(), guideShiftNode: createShifter() };
+  }
+
   // Load audio tracks from URLs
   async loadTracks(trackUrls: Record<string, string>): Promise<void> {
     if (!this.audioContext) {
@@ -66,8 +245,8 @@ export class AudioEngine {
         try {
           console.log(`Loading track: ${trackName} from ${url}`);
           
-          // Fetch audio file
-          const response = await fetch(url);
+          // Fetch audio file; songs kept offline load from the local cache
+          const response = await fetchWithOfflineCache(url);
           if (!response.ok) {
             throw new Error(`Failed to fetch ${trackName}: ${response.statusText}`);
           }
@@ -84,8 +263,12 @@ export class AudioEngine {
             buffer: audioBuffer,
             gainNode: null,
             source: null,
+            processing: null,
             isMuted: false,
-            volume: 75
+            isSolo: false,
+            volume: 75,
+            pan: 0,
+            eq: { ...FLAT_EQ }
           };
           
           this.tracks.set(trackName, track);
@@ -100,8 +283,12 @@ export class AudioEngine {
             buffer: null,
             gainNode: null,
             source: null,
+            processing: null,
             isMuted: false,
-            volume: 75
+            isSolo: false,
+            volume: 75,
+            pan: 0,
+            eq: { ...FLAT_EQ }
           };
           this.tracks.set(trackName, track);
           throw error;
@@ -138,6 +325,8 @@ export class AudioEngine {
       throw new Error('Audio engine not initialized');
     }
 
+    await this.graphReady;
+
     console.log('=== PLAY CALLED ===');
     console.log('Current pausedAt:', this.pausedAt);
     console.log('AudioContext state:', this.audioContext.state);
@@ -166,9 +355,13 @@ export class AudioEngine {
       }
       console.log(`Stopped ${existingCount} existing sources`);
 
-      // Create and start sources for all tracks
-      const currentTime = this.audioContext.currentTime;
-      this.startTime = currentTime - this.pausedAt;
+      // Playback past the loop jumps back into it
+      this.pausedAt = this.getLoopEntryPosition(this.pausedAt);
+
+      // Create and start sources for all tracks, after the count-in if there is one
+      const currentTime = this.audioContext.currentTime + this.scheduleCountIn(this.pausedAt);
+      this.startTime = currentTime;
+      this.startOffset = this.pausedAt;
       
       console.log('Starting playback:', {
         currentTime,
@@ -185,8 +378,10 @@ export class AudioEngine {
           
           // Set up audio graph
           track.source.buffer = track.buffer;
-          track.source.connect(track.gainNode);
-          track.gainNode.connect(this.masterGainNode);
+          track.source.playbackRate.value = this.playbackRate;
+          this.applyLoop(track.source);
+          track.processing = this.connectTrackProcessing(this.audioContext, track, track.source, track.gainNode, true);
+          track.gainNode.connect(this.getTrackDestination(track.name));
           
           // Apply current volume and mute settings
           this.updateTrackGain(track);
@@ -203,6 +398,8 @@ export class AudioEngine {
         }
       }
 
+      this.startClickTrack();
+
       console.log('Setting isPlaying: true and starting time updates...');
       this.updateState({ isPlaying: true });
       this.startTimeUpdates();
@@ -224,9 +421,11 @@ export class AudioEngine {
       return;
     }
 
+    this.stopRecording();
+
     // Update paused position first
     if (this.startTime !== 0) {
-      this.pausedAt = this.audioContext.currentTime - this.startTime;
+      this.pausedAt = this.getPlaybackPosition();
     }
 
     // Stop all sources immediately
@@ -241,6 +440,8 @@ export class AudioEngine {
       }
     }
 
+    this.stopClickTrack();
+
     // Stop time updates first
     this.stopTimeUpdates();
     
@@ -258,10 +459,48 @@ export class AudioEngine {
     this.updateState({ currentTime: 0 });
   }
 
+  // Audible preview while dragging the playhead: a short snippet of the mix at
+  // `position`. Only while paused; calls closer together than SCRUB_INTERVAL
+  // are dropped.
+  scrub(position: number): void {
+    const context = this.audioContext;
+    if (!context || this.getState().isPlaying) return;
+
+    const now = context.currentTime;
+    if (now - this.lastScrubTime < SCRUB_INTERVAL) return;
+    this.lastScrubTime = now;
+
+    if (context.state === 'suspended') {
+      context.resume().catch(error => console.warn('Failed to resume audio for scrubbing:', error));
+    }
+
+    for (const track of this.tracks.values()) {
+      if (!track.buffer || position < 0 || position >= track.buffer.duration) continue;
+
+      const source = context.createBufferSource();
+      source.buffer = track.buffer;
+      source.playbackRate.value = this.playbackRate;
+
+      const level = this.getTrackGainValue(track);
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(level, now + SCRUB_FADE);
+      gain.gain.setValueAtTime(level, now + SCRUB_SNIPPET - SCRUB_FADE);
+      gain.gain.linearRampToValueAtTime(0, now + SCRUB_SNIPPET);
+
+      this.connectTrackProcessing(context, track, source, gain, true);
+      gain.connect(this.getTrackDestination(track.name));
+      source.start(now, position, SCRUB_SNIPPET * this.playbackRate);
+    }
+  }
+
     // Seek to specific time
   async seek(time: number): Promise<void> {
     const wasPlaying = this.getState().isPlaying;
     const duration = this.getState().duration;
+
+    // A take only makes sense as one continuous stretch of the song
+    this.stopRecording();
     
     // Set the new position (clamp to valid range)
     this.pausedAt = Math.max(0, Math.min(time, duration));
@@ -273,6 +512,7 @@ export class AudioEngine {
     try {
       // Always stop current playback first
       this.stopTimeUpdates();
+      this.stopClickTrack();
       
       // Stop all current sources
       for (const track of this.tracks.values()) {
@@ -311,15 +551,22 @@ export class AudioEngine {
       throw new Error('Audio engine not initialized');
     }
 
+    await this.graphReady;
+
     // Resume audio context if needed
     if (this.audioContext.state === 'suspended') {
       await this.audioContext.resume();
     }
 
+    // Playback past the loop jumps back into it
+    position = this.getLoopEntryPosition(position);
+    this.pausedAt = position;
+
     // Calculate timing
     const startDelay = 0.01;
     const currentTime = this.audioContext.currentTime + startDelay;
-    this.startTime = currentTime - position;
+    this.startTime = currentTime;
+    this.startOffset = position;
 
     // Create and start all sources
     for (const track of this.tracks.values()) {
@@ -330,8 +577,10 @@ export class AudioEngine {
         
         // Set up audio graph
         track.source.buffer = track.buffer;
-        track.source.connect(track.gainNode);
-        track.gainNode.connect(this.masterGainNode);
+        track.source.playbackRate.value = this.playbackRate;
+        this.applyLoop(track.source);
+        track.processing = this.connectTrackProcessing(this.audioContext, track, track.source, track.gainNode, true);
+        track.gainNode.connect(this.getTrackDestination(track.name));
         
         // Apply current volume and mute settings
         this.updateTrackGain(track);
@@ -352,6 +601,8 @@ export class AudioEngine {
       }
     }
 
+    this.startClickTrack();
+
     // Update state and restart time updates
     this.updateState({ isPlaying: true });
     this.startTimeUpdates();
@@ -359,6 +610,86 @@ export class AudioEngine {
 
 
 
+  // Render the loaded stems offline into a single buffer
+  async renderMixdown(options: MixdownOptions = {}): Promise<AudioBuffer> {
+    const tracks = Array.from(this.tracks.values()).filter(track =>
+      track.buffer && (!options.includeTracks || options.includeTracks.includes(track.name))
+    );
+
+    if (tracks.length === 0) {
+      throw new Error('No audio tracks loaded');
+    }
+
+    const buffers = tracks.map(track => track.buffer!);
+    const channels = Math.max(...buffers.map(buffer => buffer.numberOfChannels));
+    const sampleRate = buffers[0].sampleRate;
+    const take = options.vocalTake;
+    const playbackRate = take?.playbackRate ?? (options.useCurrentMix ? this.playbackRate : 1);
+    const isShifted = this.keyShiftNode !== null &&
+      (playbackRate !== 1 || (!!options.useCurrentMix && this.pitchShift !== 0));
+
+    // The take skips the shifter, so it waits out the shifter's latency to
+    // stay in line with the song
+    const takeStart = take
+      ? take.songOffset / playbackRate + (isShifted ? PITCH_SHIFT_LATENCY_SAMPLES / sampleRate : 0)
+      : 0;
+    const takeEnd = take ? Math.ceil((takeStart + take.samples.length / take.sampleRate) * sampleRate) : 0;
+
+    // Stretch to the practice tempo and leave room for the shifter's latency
+    // so the tail isn't cut off
+    const length = Math.max(
+      takeEnd,
+      Math.ceil(Math.max(...buffers.map(buffer => buffer.length)) / playbackRate) +
+        (isShifted ? PITCH_SHIFT_LATENCY_SAMPLES : 0)
+    );
+
+    const OfflineAudioContextClass = window.OfflineAudioContext ||
+      (window as unknown as { webkitOfflineAudioContext: typeof OfflineAudioContext }).webkitOfflineAudioContext;
+    const offlineContext = new OfflineAudioContextClass(channels, length, sampleRate);
+
+    // Mirror the live graph: source -> track gain -> [key change] -> master gain -> destination
+    const masterGain = offlineContext.createGain();
+    masterGain.gain.value = options.useCurrentMix ? this.getMasterGainValue() : 1;
+    masterGain.connect(offlineContext.destination);
+
+    const shiftNodes = isShifted ? await this.createPitchShiftNodes(offlineContext, masterGain) : null;
+    const keyShiftRatio = options.useCurrentMix
+      ? this.getKeyShiftRatio(playbackRate)
+      : this.getGuideShiftRatio(playbackRate);
+    shiftNodes?.keyShiftNode.parameters.get('pitchRatio')?.setValueAtTime(keyShiftRatio, 0);
+    shiftNodes?.guideShiftNode.parameters.get('pitchRatio')?.setValueAtTime(this.getGuideShiftRatio(playbackRate), 0);
+
+    for (const track of tracks) {
+      const source = offlineContext.createBufferSource();
+      const gain = offlineContext.createGain();
+      source.buffer = track.buffer;
+      source.playbackRate.value = playbackRate;
+      gain.gain.value = options.useCurrentMix ? this.getTrackGainValue(track) : 1;
+      this.connectTrackProcessing(offlineContext, track, source, gain, !!options.useCurrentMix);
+      if (shiftNodes) {
+        gain.connect(this.isTrackShifted(track.name) ? shiftNodes.keyShiftNode : shiftNodes.guideShiftNode);
+      } else {
+        gain.connect(masterGain);
+      }
+      source.start(0);
+    }
+
+    if (take) {
+      const takeBuffer = offlineContext.createBuffer(1, take.samples.length, take.sampleRate);
+      takeBuffer.copyToChannel(take.samples, 0);
+
+      const source = offlineContext.createBufferSource();
+      const effects = createMicEffects(offlineContext, this.micSettings);
+      source.buffer = takeBuffer;
+      source.connect(effects.input);
+      effects.output.connect(masterGain);
+      // A take that started before the song is trimmed
+      source.start(Math.max(0, takeStart), Math.max(0, -takeStart));
+    }
+
+    return offlineContext.startRendering();
+  }
+
   // Set track volume (0-1 range)
   setTrackVolume(trackName: string, volume: number): void {
     const track = this.tracks.get(trackName);
@@ -378,22 +709,323 @@ export class AudioEngine {
     }
   }
 
+  // Solo in place: while any track is soloed only soloed tracks are heard
+  setTrackSolo(trackName: string, solo: boolean): void {
+    const track = this.tracks.get(trackName);
+    if (track) {
+      track.isSolo = solo;
+      // Soloing one track changes what every other track should sound like
+      for (const other of this.tracks.values()) {
+        this.updateTrackGain(other);
+      }
+    }
+  }
+
+  // Set track pan (-1 left to 1 right)
+  setTrackPan(trackName: string, pan: number): void {
+    const track = this.tracks.get(trackName);
+    if (track) {
+      track.pan = Math.max(-1, Math.min(1, pan));
+      track.processing?.panner.pan.setValueAtTime(track.pan, this.audioContext?.currentTime || 0);
+    }
+  }
+
+  // Set one EQ band's gain in dB (±MAX_EQ_GAIN)
+  setTrackEq(trackName: string, band: EqBand, gainDb: number): void {
+    const track = this.tracks.get(trackName);
+    if (track) {
+      track.eq = { ...track.eq, [band]: Math.max(-MAX_EQ_GAIN, Math.min(MAX_EQ_GAIN, gainDb)) };
+      track.processing?.eq[band].gain.setValueAtTime(track.eq[band], this.audioContext?.currentTime || 0);
+    }
+  }
+
   // Set master volume (0-100)
   setMasterVolume(volume: number): void {
+    this.masterVolume = Math.max(0, Math.min(100, volume));
     if (this.masterGainNode) {
-      const gain = (Math.max(0, Math.min(100, volume)) / 100) ** 2; // Quadratic scaling
-      this.masterGainNode.gain.setValueAtTime(gain, this.audioContext?.currentTime || 0);
+      this.masterGainNode.gain.setValueAtTime(this.getMasterGainValue(), this.audioContext?.currentTime || 0);
+    }
+  }
+
+  // Set the key change in semitones (clamped to ±MAX_PITCH_SHIFT)
+  setPitchShift(semitones: number): void {
+    this.pitchShift = Math.max(-MAX_PITCH_SHIFT, Math.min(MAX_PITCH_SHIFT, semitones));
+    this.applyPitchShift();
+  }
+
+  getPitchShift(): number {
+    return this.pitchShift;
+  }
+
+  // Set the practice tempo (1 = original) without changing pitch. Positions
+  // reported by the engine stay in song time, so beat and lyric timings
+  // line up at any tempo.
+  setPlaybackRate(rate: number): void {
+    const nextRate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+    if (nextRate === this.playbackRate) return;
+
+    this.stopRecording();
+
+    const isPlaying = this.getState().isPlaying;
+    // During a count-in the sources are still waiting to start at startTime
+    const isCountingIn = isPlaying && !!this.audioContext && this.startTime > this.audioContext.currentTime;
+    if (isPlaying && this.audioContext && !isCountingIn) {
+      // Re-anchor the clock so time already played keeps its old rate
+      this.startOffset = this.getPlaybackPosition();
+      this.startTime = this.audioContext.currentTime;
+    }
+
+    this.playbackRate = nextRate;
+
+    // Change every source at the same instant so the stems stay aligned
+    const time = this.audioContext?.currentTime || 0;
+    for (const track of this.tracks.values()) {
+      track.source?.playbackRate.setValueAtTime(nextRate, time);
+    }
+    this.applyPitchShift();
+
+    // Clicks already scheduled assumed the old rate. The count-in bar keeps
+    // its clicks; the song's own clicks are only scheduled as it starts.
+    if (isPlaying && !isCountingIn) {
+      this.startClickTrack();
+    }
+
+    if (!this.keyShiftNode && nextRate !== 1) {
+      console.warn('Pitch shifting unavailable: tempo changes will also change pitch');
+    }
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  // Loop a region of the song, or pass null to stop looping. The loop runs on
+  // the sources themselves (AudioBufferSourceNode.loopStart/loopEnd), so it is
+  // sample-accurate and the same for every stem.
+  setLoop(region: LoopRegion | null): void {
+    const duration = this.getState().duration;
+    let nextLoop: LoopRegion | null = null;
+    if (region) {
+      const start = Math.max(0, Math.min(region.start, region.end));
+      const end = Math.min(duration || Infinity, Math.max(region.start, region.end));
+      if (end - start >= MIN_LOOP_LENGTH) {
+        nextLoop = { start, end };
+      }
+    }
+
+    // Takes aren't recorded across loop jumps
+    if (nextLoop) {
+      this.stopRecording();
+    }
+
+    if (!this.getState().isPlaying || !this.audioContext) {
+      this.loop = nextLoop;
+      return;
+    }
+
+    // Re-anchor the clock on the current position before the loop changes
+    const position = this.getPlaybackPosition();
+    this.startOffset = position;
+    this.startTime = this.audioContext.currentTime;
+    this.loop = nextLoop;
+
+    if (nextLoop && position >= nextLoop.end) {
+      // Already past the new loop: restart inside it
+      this.seek(nextLoop.start).catch(error => console.error('Failed to jump into loop:', error));
+      return;
+    }
+
+    for (const track of this.tracks.values()) {
+      if (track.source) this.applyLoop(track.source);
+    }
+    this.startClickTrack();
+  }
+
+  getLoop(): LoopRegion | null {
+    return this.loop;
+  }
+
+  // Whether the guide vocals follow the key change
+  setShiftVocals(enabled: boolean): void {
+    this.shiftVocals = enabled;
+
+    // Re-route the vocals if they're playing
+    const track = this.tracks.get(VOCALS_TRACK);
+    if (track?.gainNode) {
+      track.gainNode.disconnect();
+      track.gainNode.connect(this.getTrackDestination(track.name));
+    }
+  }
+
+  // Beats for the click track, in song time. The first beat is taken to be a
+  // downbeat, as elsewhere.
+  setClickTrack(beatTimes: number[], beatsPerBar: number): void {
+    this.clickBeats = [...beatTimes].sort((a, b) => a - b);
+    this.beatsPerBar = Math.max(1, beatsPerBar);
+    if (this.getState().isPlaying) {
+      this.startClickTrack();
     }
   }
 
+  setClickTrackState(state: Partial<ClickTrackState>): void {
+    const wasEnabled = this.clickTrack.enabled;
+    this.clickTrack = {
+      ...this.clickTrack,
+      ...state,
+      volume: Math.max(0, Math.min(100, state.volume ?? this.clickTrack.volume))
+    };
+    this.updateClickGain();
+
+    if (this.clickTrack.enabled !== wasEnabled && this.getState().isPlaying) {
+      if (this.clickTrack.enabled) {
+        this.startClickTrack();
+      } else {
+        this.stopClickTrack();
+      }
+    }
+  }
+
+  getClickTrackState(): ClickTrackState {
+    return this.clickTrack;
+  }
+
+  // Start (or switch) the live microphone; it joins the master bus
+  async startMicrophone(deviceId?: string): Promise<void> {
+    if (!this.audioContext || !this.masterGainNode) {
+      throw new Error('Audio engine not initialized');
+    }
+
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    if (!this.microphone) {
+      this.microphone = new MicrophoneInput(this.audioContext, this.masterGainNode, this.micSettings);
+    }
+    this.stopRecording();
+    await this.microphone.start(deviceId);
+  }
+
+  stopMicrophone(): void {
+    this.stopRecording();
+    this.microphone?.stop();
+  }
+
+  setMicSettings(settings: Partial<MicSettings>): void {
+    this.micSettings = { ...this.micSettings, ...settings };
+    this.microphone?.updateSettings(this.micSettings);
+  }
+
+  getMicSettings(): MicSettings {
+    return this.micSettings;
+  }
+
+  getMicStatus(): MicStatus {
+    return this.microphone?.getStatus() ?? INACTIVE_MIC_STATUS;
+  }
+
+  // Peak mic input level (0-1) for metering
+  getMicLevel(): number {
+    return this.microphone?.getLevel() ?? 0;
+  }
+
+  // Live sung pitch (MIDI notes), or null when not singing
+  getMicPitch(): number | null {
+    return this.microphone?.getPitch() ?? null;
+  }
+
+  // Record a take from the microphone, starting playback if needed. The take
+  // ends when playback stops or jumps (pause, seek, tempo or loop change) and
+  // is handed to the take callback.
+  async startRecording(): Promise<void> {
+    if (!this.audioContext) {
+      throw new Error('Audio engine not initialized');
+    }
+    if (!this.microphone?.isActive) {
+      throw new Error('Turn on the microphone to record a take');
+    }
+    if (this.loop) {
+      throw new Error('Turn off the loop to record a take');
+    }
+    if (this.recorder) return;
+
+    if (!this.getState().isPlaying) {
+      await this.play();
+    }
+
+    // A sample recorded now was sung along to audio that left the graph
+    // `latency` seconds ago (mic input + output latency, plus the shifter's
+    // delay on every stem)
+    const sampleRate = this.audioContext.sampleRate;
+    const anchor = {
+      startTime: this.startTime,
+      startOffset: this.startOffset,
+      playbackRate: this.playbackRate,
+      latency: this.microphone.getStatus().latency +
+        (this.keyShiftNode ? PITCH_SHIFT_LATENCY_SAMPLES / sampleRate : 0),
+      sampleRate
+    };
+
+    const recorder = await TakeRecorder.start(this.audioContext, this.microphone.getRecordingNode());
+
+    // Playback stopped while the recorder was starting
+    if (!this.getState().isPlaying || this.startTime !== anchor.startTime) {
+      recorder.stop().catch(() => {});
+      return;
+    }
+
+    this.recorder = recorder;
+    this.recordingAnchor = anchor;
+    this.updateState({});
+  }
+
+  // Finish the current take; it reaches the take callback once the recorder
+  // has flushed
+  stopRecording(): void {
+    const recorder = this.recorder;
+    const anchor = this.recordingAnchor;
+    if (!recorder || !anchor) return;
+
+    this.recorder = null;
+    this.recordingAnchor = null;
+    this.updateState({});
+
+    recorder.stop()
+      .then(({ samples, startFrame }) => {
+        if (samples.length === 0) return;
+
+        const elapsed = startFrame / anchor.sampleRate - anchor.startTime - anchor.latency;
+        this.takeRecordedCallback?.({
+          samples,
+          sampleRate: anchor.sampleRate,
+          songOffset: anchor.startOffset + elapsed * anchor.playbackRate,
+          playbackRate: anchor.playbackRate
+        });
+      })
+      .catch(error => console.error('Failed to finish recording:', error));
+  }
+
+  setTakeRecordedCallback(callback: ((take: RecordedTake) => void) | null): void {
+    this.takeRecordedCallback = callback;
+  }
+
+  // Decoded audio for a track, for analysis
+  getTrackBuffer(trackName: string): AudioBuffer | null {
+    return this.tracks.get(trackName)?.buffer ?? null;
+  }
+
   // Get current track states
-  getTrackStates(): Record<string, { volume: number; isMuted: boolean; isLoaded: boolean }> {
-    const states: Record<string, { volume: number; isMuted: boolean; isLoaded: boolean }> = {};
+  getTrackStates(): Record<string, TrackState> {
+    const states: Record<string, TrackState> = {};
     
     for (const [name, track] of this.tracks) {
       states[name] = {
         volume: track.volume,
         isMuted: track.isMuted,
+        isSolo: track.isSolo,
+        isAudible: this.isTrackAudible(track),
+        pan: track.pan,
+        eq: { ...track.eq },
         isLoaded: track.buffer !== null
       };
     }
@@ -414,7 +1046,8 @@ export class AudioEngine {
       currentTime: this.getCurrentTime(isPlaying),
       duration,
       isLoading: false,
-      error: null
+      error: null,
+      isRecording: this.recorder !== null
     };
   }
 
@@ -425,8 +1058,15 @@ export class AudioEngine {
 
   // Clean up resources
   dispose(): void {
+    // The context is closing, so there's no take to flush
+    this.recorder = null;
+    this.recordingAnchor = null;
+    this.takeRecordedCallback = null;
     this.stop();
+    this.stopClickTrack();
     this.stopTimeUpdates();
+    this.microphone?.dispose();
+    this.microphone = null;
     
     if (this.audioContext && this.audioContext.state !== 'closed') {
       this.audioContext.close();
@@ -435,16 +1075,234 @@ export class AudioEngine {
     this.tracks.clear();
     this.audioContext = null;
     this.masterGainNode = null;
+    this.keyShiftNode = null;
+    this.guideShiftNode = null;
+    this.clickGainNode = null;
+    this.clickSounds = null;
     this.stateChangeCallback = null;
   }
 
   // Private methods
   private updateTrackGain(track: AudioTrack): void {
     if (track.gainNode) {
-      const volume = track.isMuted ? 0 : track.volume / 100;
-      const gain = volume ** 2; // Quadratic scaling for more natural volume control
-      track.gainNode.gain.setValueAtTime(gain, this.audioContext?.currentTime || 0);
+      track.gainNode.gain.setValueAtTime(this.getTrackGainValue(track), this.audioContext?.currentTime || 0);
+    }
+  }
+
+  private getTrackGainValue(track: AudioTrack): number {
+    const volume = this.isTrackAudible(track) ? track.volume / 100 : 0;
+    return volume ** 2; // Quadratic scaling for more natural volume control
+  }
+
+  private isTrackAudible(track: AudioTrack): boolean {
+    if (track.isMuted) return false;
+    const hasSolo = Array.from(this.tracks.values()).some(other => other.isSolo);
+    return !hasSolo || track.isSolo;
+  }
+
+  // source -> low shelf -> mid peak -> high shelf -> panner -> destination.
+  // With applyMix off the chain is flat and centred (for plain stem renders).
+  private connectTrackProcessing(
+    context: BaseAudioContext,
+    track: AudioTrack,
+    source: AudioNode,
+    destination: AudioNode,
+    applyMix: boolean
+  ): TrackProcessingNodes {
+    const createBand = (band: EqBand) => {
+      const filter = context.createBiquadFilter();
+      filter.type = EQ_BANDS[band].type;
+      filter.frequency.value = EQ_BANDS[band].frequency;
+      if (EQ_BANDS[band].Q !== undefined) filter.Q.value = EQ_BANDS[band].Q;
+      filter.gain.value = applyMix ? track.eq[band] : 0;
+      return filter;
+    };
+
+    const eq = { low: createBand('low'), mid: createBand('mid'), high: createBand('high') };
+    const panner = context.createStereoPanner();
+    panner.pan.value = applyMix ? track.pan : 0;
+
+    source.connect(eq.low);
+    eq.low.connect(eq.mid);
+    eq.mid.connect(eq.high);
+    eq.high.connect(panner);
+    panner.connect(destination);
+
+    return { eq, panner };
+  }
+
+  // Clicks bypass the pitch shifter, so they wait out its latency to stay on
+  // the beat of the stems
+  private getClickLatency(): number {
+    return this.keyShiftNode && this.audioContext ? PITCH_SHIFT_LATENCY_SAMPLES / this.audioContext.sampleRate : 0;
+  }
+
+  private getClickGainValue(): number {
+    const { enabled, isMuted, volume } = this.clickTrack;
+    return enabled && !isMuted ? (volume / 100) ** 2 : 0;
+  }
+
+  private updateClickGain(): void {
+    this.clickGainNode?.gain.setValueAtTime(this.getClickGainValue(), this.audioContext?.currentTime || 0);
+  }
+
+  private playClick(time: number, isDownbeat: boolean): void {
+    const context = this.audioContext;
+    if (!context || !this.masterGainNode) return;
+
+    if (!this.clickGainNode || !this.clickSounds) {
+      this.clickGainNode = context.createGain();
+      this.clickGainNode.gain.value = this.getClickGainValue();
+      this.clickGainNode.connect(this.masterGainNode);
+      this.clickSounds = createClickSounds(context);
     }
+
+    const source = context.createBufferSource();
+    source.buffer = isDownbeat ? this.clickSounds.accent : this.clickSounds.beat;
+    source.connect(this.clickGainNode);
+    source.onended = () => this.scheduledClicks.delete(source);
+    source.start(time);
+    this.scheduledClicks.add(source);
+  }
+
+  // Schedules one bar of clicks from now and returns how long it lasts, or 0
+  // when there's no count-in
+  private scheduleCountIn(position: number): number {
+    const { enabled, isMuted, countIn } = this.clickTrack;
+    if (!this.audioContext || !enabled || isMuted || !countIn || this.clickBeats.length === 0) return 0;
+
+    const interval = getBeatInterval(this.clickBeats, position) / this.playbackRate;
+    const start = this.audioContext.currentTime + this.getClickLatency();
+    for (let beat = 0; beat < this.beatsPerBar; beat++) {
+      this.playClick(start + beat * interval, beat === 0);
+    }
+    return this.beatsPerBar * interval;
+  }
+
+  // (Re)start scheduling from the current clock anchor
+  private startClickTrack(): void {
+    this.stopClickTrack();
+    if (!this.clickTrack.enabled || this.clickBeats.length === 0) return;
+
+    this.clickScheduledUntil = this.startOffset;
+    this.scheduleClicks();
+    this.clickSchedulerId = window.setInterval(() => this.scheduleClicks(), CLICK_SCHEDULE_INTERVAL_MS);
+  }
+
+  private stopClickTrack(): void {
+    if (this.clickSchedulerId !== null) {
+      window.clearInterval(this.clickSchedulerId);
+      this.clickSchedulerId = null;
+    }
+
+    for (const source of this.scheduledClicks) {
+      try {
+        source.stop(0);
+      } catch {
+        // Ignore errors from already stopped sources
+      }
+    }
+    this.scheduledClicks.clear();
+  }
+
+  // Schedule the beats that play in the next CLICK_LOOKAHEAD seconds. Positions
+  // here are "unwrapped": they keep counting up through loop repeats, and are
+  // folded back into the loop to find the beats.
+  private scheduleClicks(): void {
+    const context = this.audioContext;
+    if (!context) return;
+
+    const rate = this.playbackRate;
+    const latency = this.getClickLatency();
+    const scheduleEnd = this.startOffset + (context.currentTime + CLICK_LOOKAHEAD - this.startTime) * rate;
+    const loop = this.loop && this.startOffset < this.loop.end ? this.loop : null;
+
+    let unwrapped = this.clickScheduledUntil;
+    while (unwrapped < scheduleEnd) {
+      // Find the stretch of unwrapped time that plays the song linearly
+      let stretchStart = unwrapped;
+      let songStart = unwrapped;
+      let stretchEnd = scheduleEnd;
+      if (loop && unwrapped >= loop.end) {
+        const length = loop.end - loop.start;
+        stretchStart = loop.end + Math.floor((unwrapped - loop.end) / length) * length;
+        songStart = loop.start;
+        stretchEnd = Math.min(scheduleEnd, stretchStart + length);
+      } else if (loop) {
+        stretchEnd = Math.min(scheduleEnd, loop.end);
+      }
+
+      const shift = stretchStart - songStart;
+      for (let index = findBeatIndex(this.clickBeats, unwrapped - shift); index < this.clickBeats.length; index++) {
+        const beatUnwrapped = this.clickBeats[index] + shift;
+        if (beatUnwrapped >= stretchEnd) break;
+
+        const time = this.startTime + (beatUnwrapped - this.startOffset) / rate + latency;
+        if (time >= context.currentTime) {
+          this.playClick(time, index % this.beatsPerBar === 0);
+        }
+      }
+      unwrapped = stretchEnd;
+    }
+    this.clickScheduledUntil = Math.max(this.clickScheduledUntil, scheduleEnd);
+  }
+
+  private getMasterGainValue(): number {
+    return (this.masterVolume / 100) ** 2; // Quadratic scaling
+  }
+
+  // Song position while playing: sources advance `playbackRate` seconds of
+  // audio per second of context time (and stand still during a count-in)
+  private getPlaybackPosition(): number {
+    const elapsed = Math.max(0, (this.audioContext?.currentTime ?? this.startTime) - this.startTime);
+    const position = this.startOffset + elapsed * this.playbackRate;
+
+    // Sources that started before the loop end wrap back to its start
+    if (this.loop && this.startOffset < this.loop.end && position >= this.loop.end) {
+      const length = this.loop.end - this.loop.start;
+      return this.loop.start + ((position - this.loop.end) % length);
+    }
+    return position;
+  }
+
+  private getLoopEntryPosition(position: number): number {
+    return this.loop && position >= this.loop.end ? this.loop.start : position;
+  }
+
+  private applyLoop(source: AudioBufferSourceNode): void {
+    if (this.loop) {
+      source.loopStart = this.loop.start;
+      source.loopEnd = this.loop.end;
+      source.loop = true;
+    } else {
+      source.loop = false;
+    }
+  }
+
+  // playbackRate raises pitch along with tempo, so the shifters divide it back out
+  private getKeyShiftRatio(playbackRate: number = this.playbackRate): number {
+    return 2 ** (this.pitchShift / 12) / playbackRate;
+  }
+
+  private getGuideShiftRatio(playbackRate: number = this.playbackRate): number {
+    return 1 / playbackRate;
+  }
+
+  private isTrackShifted(trackName: string): boolean {
+    return trackName !== VOCALS_TRACK || this.shiftVocals;
+  }
+
+  private getTrackDestination(trackName: string): AudioNode {
+    if (!this.keyShiftNode || !this.guideShiftNode) {
+      return this.masterGainNode!;
+    }
+    return this.isTrackShifted(trackName) ? this.keyShiftNode : this.guideShiftNode;
+  }
+
+  private applyPitchShift(): void {
+    const time = this.audioContext?.currentTime || 0;
+    this.keyShiftNode?.parameters.get('pitchRatio')?.setValueAtTime(this.getKeyShiftRatio(), time);
+    this.guideShiftNode?.parameters.get('pitchRatio')?.setValueAtTime(this.getGuideShiftRatio(), time);
   }
 
   private getCurrentTime(isPlaying?: boolean): number {
@@ -455,11 +1313,7 @@ export class AudioEngine {
       (this.tracks.size > 0 && Array.from(this.tracks.values()).some(track => track.source !== null));
     
     if (playing && this.startTime !== 0) {
-      const calculatedTime = this.audioContext.currentTime - this.startTime;
-      
-
-      
-      return calculatedTime;
+      return this.getPlaybackPosition();
     }
     
     return this.pausedAt;
@@ -516,7 +1370,8 @@ export class AudioEngine {
         currentTime: this.getCurrentTime(isPlaying),
         duration,
         isLoading: false,
-        error: null
+        error: null,
+        isRecording: this.recorder !== null
       };
       
              const newState = { ...currentState, ...partialState };
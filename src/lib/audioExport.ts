@@ -0,0 +1,130 @@
+// Audio export
+// Turns a rendered AudioBuffer into a downloadable file. WAV is written on the
+// main thread; compressed formats are encoded in a worker so the UI stays live.
+
+import { encodeWav, WavBitDepth } from './wav';
+import {
+  AudioTags,
+  COMPRESSED_AUDIO_FORMATS,
+  CompressedAudioFormat,
+  EncoderRequest,
+  EncoderResponse
+} from './encoders';
+
+export type AudioExportFormat = 'wav' | CompressedAudioFormat;
+
+// Stems that make up the backing track
+export const INSTRUMENTAL_TRACKS = ['drums', 'bass', 'other'];
+
+export interface AudioExportOptions {
+  bitDepth?: WavBitDepth; // WAV only
+  bitrate?: number; // kbps, compressed formats only
+  tags?: AudioTags;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export function getAudioExportExtension(format: AudioExportFormat): string {
+  return format === 'wav' ? 'wav' : COMPRESSED_AUDIO_FORMATS[format].extension;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Export cancelled', 'AbortError');
+}
+
+// Opus only runs at 48 kHz, so stems decoded at 44.1 kHz need converting first
+async function resample(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate) return buffer;
+
+  const context = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    Math.ceil(buffer.duration * sampleRate),
+    sampleRate
+  );
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+function runEncoderWorker(
+  request: EncoderRequest,
+  transfer: Transferable[],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/audioEncoder.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    // Terminating the worker is the only way to stop an encode mid-way
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<EncoderResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        cleanup();
+        resolve(message.blob);
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Encoder worker failed'));
+    };
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+export async function encodeAudioBuffer(
+  buffer: AudioBuffer,
+  format: AudioExportFormat,
+  options: AudioExportOptions = {}
+): Promise<Blob> {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) throw abortError();
+
+  if (format === 'wav') {
+    const blob = encodeWav(buffer, options.bitDepth);
+    onProgress?.(1);
+    return blob;
+  }
+
+  const info = COMPRESSED_AUDIO_FORMATS[format];
+  if (!info.isSupported()) {
+    throw new Error(`${info.label} encoding is not supported in this browser`);
+  }
+
+  const input = info.sampleRate ? await resample(buffer, info.sampleRate) : buffer;
+  if (signal?.aborted) throw abortError();
+
+  // Copy the channels so they can be transferred without detaching the source buffer
+  const channels = Array.from({ length: input.numberOfChannels }, (_, c) => input.getChannelData(c).slice());
+
+  return runEncoderWorker(
+    {
+      type: 'encode',
+      format,
+      input: { channels, sampleRate: input.sampleRate },
+      options: { bitrate: options.bitrate ?? info.defaultBitrate, tags: options.tags }
+    },
+    channels.map(channel => channel.buffer),
+    onProgress,
+    signal
+  );
+}
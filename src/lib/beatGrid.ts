@@ -0,0 +1,62 @@
+// Beat grid helpers
+// Bars and beats derived from BeatAnalysisData, and snapping times to them
+
+import { BeatAnalysisData } from '@/types/api';
+import { findBeatIndex } from './metronome';
+
+export type SnapMode = 'off' | 'beat' | 'bar';
+
+const DEFAULT_BEATS_PER_BAR = 4;
+
+// "3/4" -> 3; anything unparseable falls back to 4/4
+export function getBeatsPerBar(timeSignature?: string | null): number {
+  const beats = parseInt(timeSignature?.split('/')[0] ?? '', 10);
+  return Number.isFinite(beats) && beats > 0 ? beats : DEFAULT_BEATS_PER_BAR;
+}
+
+// Bar starts, assuming the first detected beat is a downbeat
+export function getBarTimes(beatData: BeatAnalysisData): number[] {
+  const beatsPerBar = getBeatsPerBar(beatData.time_signature);
+  return beatData.beat_times.filter((_, index) => index % beatsPerBar === 0);
+}
+
+export interface BarBeat {
+  bar: number; // 1-based
+  beat: number; // 1-based, within the bar
+}
+
+// Closest value in a sorted list, or null if the list is empty
+function findNearest(times: number[], time: number): number | null {
+  if (times.length === 0) return null;
+
+  const index = Math.min(findBeatIndex(times, time), times.length - 1);
+
+  // `index` is the first time >= `time`; the one before may be closer
+  if (index > 0 && time - times[index - 1] <= times[index] - time) {
+    return times[index - 1];
+  }
+  return times[index];
+}
+
+// The bar and beat playing at `time`, or null before the first beat
+export function getBarBeatAt(beatData: BeatAnalysisData, time: number): BarBeat | null {
+  const { beat_times: beatTimes } = beatData;
+  let index = findBeatIndex(beatTimes, time);
+  if (beatTimes[index] !== time) index--;
+  if (index < 0) return null;
+
+  const beatsPerBar = getBeatsPerBar(beatData.time_signature);
+  return { bar: Math.floor(index / beatsPerBar) + 1, beat: (index % beatsPerBar) + 1 };
+}
+
+// "12.3" = bar 12, beat 3
+export function formatBarBeat({ bar, beat }: BarBeat): string {
+  return `${bar}.${beat}`;
+}
+
+export function snapToGrid(time: number, beatData: BeatAnalysisData | null, mode: SnapMode): number {
+  if (mode === 'off' || !beatData) return time;
+
+  const times = mode === 'bar' ? getBarTimes(beatData) : beatData.beat_times;
+  return findNearest(times, time) ?? time;
+}
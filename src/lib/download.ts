@@ -0,0 +1,30 @@
+// Browser download helpers
+
+// Trigger a download of a Blob with the given filename
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Trigger a download of a value serialized as pretty-printed JSON
+export function downloadJson(data: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, filename);
+}
+
+// Turn a song title into something safe to use as a filename
+export function toSafeFilename(name: string, fallback = 'song'): string {
+  const safe = name
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, ' ');
+  return safe || fallback;
+}
@@ -0,0 +1,35 @@
+// Compressed audio formats offered for export
+
+import { CompressedAudioFormat } from './types';
+
+export interface CompressedFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  bitrates: number[]; // kbps
+  defaultBitrate: number;
+  // Sample rate the encoder needs its input resampled to, if any
+  sampleRate?: number;
+  isSupported: () => boolean;
+}
+
+export const COMPRESSED_AUDIO_FORMATS: Record<CompressedAudioFormat, CompressedFormatInfo> = {
+  mp3: {
+    label: 'MP3',
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    bitrates: [128, 192, 256, 320],
+    defaultBitrate: 192,
+    isSupported: () => typeof Worker !== 'undefined'
+  },
+  opus: {
+    label: 'Ogg Opus',
+    extension: 'opus',
+    mimeType: 'audio/ogg; codecs=opus',
+    bitrates: [64, 96, 128, 160, 192],
+    defaultBitrate: 128,
+    sampleRate: 48000,
+    // Opus is encoded with WebCodecs, which not every browser has
+    isSupported: () => typeof Worker !== 'undefined' && typeof AudioEncoder !== 'undefined'
+  }
+};
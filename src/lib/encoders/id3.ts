@@ -0,0 +1,76 @@
+// Minimal ID3v2.3 tag writer (text frames and a front cover)
+
+import { AudioTags } from './types';
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function latin1(value: string): Uint8Array {
+  return Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+}
+
+// UTF-16 with BOM, which every ID3v2.3 reader understands
+function utf16(value: string): Uint8Array {
+  const bytes = new Uint8Array(2 + value.length * 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[2 + i * 2] = code & 0xff;
+    bytes[3 + i * 2] = code >> 8;
+  }
+  return bytes;
+}
+
+function frame(id: string, body: Uint8Array): Uint8Array {
+  const header = new Uint8Array(10);
+  header.set(latin1(id), 0);
+  new DataView(header.buffer).setUint32(4, body.length);
+  return concat([header, body]);
+}
+
+function textFrame(id: string, value: string): Uint8Array {
+  return frame(id, concat([Uint8Array.of(0x01), utf16(value)]));
+}
+
+export function createId3Tag(tags: AudioTags): Uint8Array {
+  const frames: Uint8Array[] = [];
+  if (tags.title) frames.push(textFrame('TIT2', tags.title));
+  if (tags.artist) frames.push(textFrame('TPE1', tags.artist));
+  if (tags.album) frames.push(textFrame('TALB', tags.album));
+  if (tags.year) frames.push(textFrame('TYER', String(tags.year)));
+  if (tags.genre) frames.push(textFrame('TCON', tags.genre));
+  if (tags.cover) {
+    // encoding, mime type, picture type 3 (front cover), empty description, data
+    frames.push(frame('APIC', concat([
+      Uint8Array.of(0x00),
+      latin1(tags.cover.mimeType),
+      Uint8Array.of(0x00, 0x03, 0x00),
+      tags.cover.data
+    ])));
+  }
+
+  const body = concat(frames);
+
+  // Tag size is stored as a 28-bit "syncsafe" integer
+  const size = body.length;
+  const header = Uint8Array.of(
+    0x49, 0x44, 0x33, // "ID3"
+    0x03, 0x00, // version 2.3.0
+    0x00, // flags
+    (size >> 21) & 0x7f,
+    (size >> 14) & 0x7f,
+    (size >> 7) & 0x7f,
+    size & 0x7f
+  );
+
+  return concat([header, body]);
+}
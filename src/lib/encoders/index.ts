@@ -0,0 +1,14 @@
+// Encoder registry
+// Add a plugin here (and its entry in formats.ts) to offer a new format
+
+import { AudioEncoderPlugin, CompressedAudioFormat } from './types';
+import { mp3Encoder } from './mp3';
+import { opusEncoder } from './opus';
+
+export const AUDIO_ENCODERS: Record<CompressedAudioFormat, AudioEncoderPlugin> = {
+  mp3: mp3Encoder,
+  opus: opusEncoder
+};
+
+export * from './types';
+export * from './formats';
@@ -0,0 +1,61 @@
+// MP3 encoder (lamejs) with ID3v2 tags
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { AudioEncoderPlugin } from './types';
+import { createId3Tag } from './id3';
+
+// lamejs consumes 1152-sample MPEG frames
+const FRAME_SIZE = 1152;
+
+// Report progress roughly every this many frames
+const PROGRESS_INTERVAL = 200;
+
+function toInt16(samples: Float32Array, start: number, end: number): Int16Array {
+  const result = new Int16Array(end - start);
+  for (let i = start; i < end; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    result[i - start] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return result;
+}
+
+export const mp3Encoder: AudioEncoderPlugin = {
+  format: 'mp3',
+
+  async encode({ channels, sampleRate }, { bitrate, tags }, onProgress) {
+    // MP3 is mono or stereo; anything wider is cut down to the first two channels
+    const left = channels[0];
+    const right = channels.length > 1 ? channels[1] : undefined;
+    const encoder = new Mp3Encoder(right ? 2 : 1, sampleRate, bitrate);
+
+    const parts: BlobPart[] = [];
+    if (tags) {
+      parts.push(createId3Tag(tags));
+    }
+
+    const totalFrames = Math.ceil(left.length / FRAME_SIZE);
+    for (let frame = 0; frame < totalFrames; frame++) {
+      const start = frame * FRAME_SIZE;
+      const end = Math.min(start + FRAME_SIZE, left.length);
+
+      const encoded = right
+        ? encoder.encodeBuffer(toInt16(left, start, end), toInt16(right, start, end))
+        : encoder.encodeBuffer(toInt16(left, start, end));
+      if (encoded.length > 0) {
+        parts.push(new Uint8Array(encoded));
+      }
+
+      if (frame % PROGRESS_INTERVAL === 0) {
+        onProgress(frame / totalFrames);
+      }
+    }
+
+    const rest = encoder.flush();
+    if (rest.length > 0) {
+      parts.push(new Uint8Array(rest));
+    }
+
+    onProgress(1);
+    return new Blob(parts, { type: 'audio/mpeg' });
+  }
+};
@@ -0,0 +1,135 @@
+// Minimal Ogg page writer (RFC 3533) used to wrap Opus packets
+
+// Ogg's CRC-32: polynomial 0x04c11db7, not reflected, initial value 0
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) & 0xff) ^ data[i]]) >>> 0;
+  }
+  return crc;
+}
+
+const HEADER_CONTINUED = 0x01;
+const HEADER_FIRST_PAGE = 0x02;
+const HEADER_LAST_PAGE = 0x04;
+
+// Granule position for pages on which no packet ends
+const NO_GRANULE = -1;
+
+// Start a new page once the current one holds about this many bytes
+const TARGET_PAGE_SIZE = 4096;
+
+export class OggWriter {
+  private pages: Uint8Array[] = [];
+  private sequence = 0;
+  private segments: number[] = [];
+  private body: Uint8Array[] = [];
+  private bodySize = 0;
+  private granule = NO_GRANULE;
+  private continued = false;
+  private isFirstPage = true;
+
+  constructor(private serial: number) {}
+
+  // Write a packet and close the page straight after it (header packets
+  // must end their own page)
+  writeHeaderPacket(packet: Uint8Array): void {
+    this.addPacket(packet, 0);
+    this.flushPage(false);
+  }
+
+  // Queue an audio packet; `granule` is the sample position at its end
+  writePacket(packet: Uint8Array, granule: number): void {
+    // Flush before rather than after, so the last packet is always still
+    // pending when finish() marks the end of the stream
+    if (this.bodySize >= TARGET_PAGE_SIZE) {
+      this.flushPage(false);
+    }
+    this.addPacket(packet, granule);
+  }
+
+  // Close the stream and return all pages
+  finish(): Uint8Array[] {
+    this.flushPage(true);
+    return this.pages;
+  }
+
+  private addPacket(packet: Uint8Array, granule: number): void {
+    // Lacing: a run of 255s followed by a value below 255 ends the packet
+    let offset = 0;
+    while (true) {
+      if (this.segments.length === 255) {
+        this.flushPage(false);
+        this.continued = true;
+      }
+
+      const size = Math.min(255, packet.length - offset);
+      this.segments.push(size);
+      this.body.push(packet.subarray(offset, offset + size));
+      this.bodySize += size;
+      offset += size;
+
+      if (size < 255) break;
+    }
+
+    this.granule = granule;
+  }
+
+  private flushPage(isLast: boolean): void {
+    if (this.segments.length === 0 && !isLast) return;
+
+    const header = new Uint8Array(27 + this.segments.length);
+    const view = new DataView(header.buffer);
+
+    header.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+    header[4] = 0; // version
+    header[5] = (this.continued ? HEADER_CONTINUED : 0) |
+      (this.isFirstPage ? HEADER_FIRST_PAGE : 0) |
+      (isLast ? HEADER_LAST_PAGE : 0);
+
+    // 64-bit granule position, little endian
+    if (this.granule === NO_GRANULE) {
+      view.setUint32(6, 0xffffffff, true);
+      view.setUint32(10, 0xffffffff, true);
+    } else {
+      view.setUint32(6, this.granule % 0x100000000, true);
+      view.setUint32(10, Math.floor(this.granule / 0x100000000), true);
+    }
+
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    view.setUint32(22, 0, true); // CRC, filled in below
+    header[26] = this.segments.length;
+    header.set(this.segments, 27);
+
+    const page = new Uint8Array(header.length + this.bodySize);
+    page.set(header, 0);
+    let offset = header.length;
+    for (const part of this.body) {
+      page.set(part, offset);
+      offset += part.length;
+    }
+    view.setUint32(22, crc32(page), true);
+    page.set(header.subarray(22, 26), 22);
+
+    this.pages.push(page);
+    this.segments = [];
+    this.body = [];
+    this.bodySize = 0;
+    this.granule = NO_GRANULE;
+    this.continued = false;
+    this.isFirstPage = false;
+  }
+}
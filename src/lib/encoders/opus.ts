@@ -0,0 +1,211 @@
+// Ogg Opus encoder (WebCodecs AudioEncoder) with Vorbis comment tags
+
+import { AudioEncoderPlugin, AudioTags } from './types';
+import { OggWriter } from './ogg';
+
+// Opus always runs at 48 kHz; input is resampled before it gets here
+const OPUS_SAMPLE_RATE = 48000;
+
+// Samples handed to the encoder per AudioData (1 second)
+const BLOCK_SIZE = OPUS_SAMPLE_RATE;
+
+// Encoder look-ahead used when the encoder doesn't report its own header
+const DEFAULT_PRE_SKIP = 312;
+
+// Pause feeding the encoder when this many blocks are waiting
+const MAX_QUEUE_SIZE = 8;
+
+const VENDOR = 'karaoke-frontend';
+
+const textEncoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint32(value: number, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return bytes;
+}
+
+function lengthPrefixed(value: Uint8Array): Uint8Array {
+  return concat([uint32(value.length, true), value]);
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Reads the pre-skip from an OpusHead the encoder may hand back
+function readPreSkip(description: AllowSharedBufferSource | undefined): number | null {
+  if (!description) return null;
+
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') {
+    return null;
+  }
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint16(10, true);
+}
+
+// Identification header (RFC 7845, section 5.1), channel mapping family 0
+function createOpusHead(channelCount: number, preSkip: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(textEncoder.encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = channelCount;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family
+  return head;
+}
+
+// FLAC picture block, base64-encoded into METADATA_BLOCK_PICTURE
+function createPictureBlock(cover: NonNullable<AudioTags['cover']>): string {
+  const mimeType = textEncoder.encode(cover.mimeType);
+  return toBase64(concat([
+    uint32(3, false), // front cover
+    uint32(mimeType.length, false),
+    mimeType,
+    uint32(0, false), // empty description
+    uint32(0, false), // width, height, depth and colour count unknown
+    uint32(0, false),
+    uint32(0, false),
+    uint32(0, false),
+    uint32(cover.data.length, false),
+    cover.data
+  ]));
+}
+
+// Comment header (RFC 7845, section 5.2)
+function createOpusTags(tags: AudioTags | undefined): Uint8Array {
+  const comments: string[] = [];
+  if (tags?.title) comments.push(`TITLE=${tags.title}`);
+  if (tags?.artist) comments.push(`ARTIST=${tags.artist}`);
+  if (tags?.album) comments.push(`ALBUM=${tags.album}`);
+  if (tags?.year) comments.push(`DATE=${tags.year}`);
+  if (tags?.genre) comments.push(`GENRE=${tags.genre}`);
+  if (tags?.cover) comments.push(`METADATA_BLOCK_PICTURE=${createPictureBlock(tags.cover)}`);
+
+  return concat([
+    textEncoder.encode('OpusTags'),
+    lengthPrefixed(textEncoder.encode(VENDOR)),
+    uint32(comments.length, true),
+    ...comments.map(comment => lengthPrefixed(textEncoder.encode(comment)))
+  ]);
+}
+
+interface EncodedPacket {
+  data: Uint8Array;
+  samples: number;
+}
+
+export const opusEncoder: AudioEncoderPlugin = {
+  format: 'opus',
+
+  async encode({ channels, sampleRate }, { bitrate, tags }, onProgress) {
+    if (sampleRate !== OPUS_SAMPLE_RATE) {
+      throw new Error(`Opus input must be ${OPUS_SAMPLE_RATE} Hz, got ${sampleRate} Hz`);
+    }
+
+    // Mapping family 0 covers mono and stereo only
+    const input = channels.slice(0, 2);
+    const channelCount = input.length;
+    const length = input[0].length;
+
+    const packets: EncodedPacket[] = [];
+    let preSkip: number | null = null;
+    let encoderError: Error | null = null;
+
+    const encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        packets.push({
+          data,
+          samples: Math.round(((chunk.duration ?? 0) * OPUS_SAMPLE_RATE) / 1_000_000)
+        });
+        if (preSkip === null) {
+          preSkip = readPreSkip(metadata?.decoderConfig?.description);
+        }
+      },
+      error: error => {
+        encoderError = error;
+      }
+    });
+
+    encoder.configure({
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: channelCount,
+      bitrate: bitrate * 1000
+    });
+
+    try {
+      for (let start = 0; start < length; start += BLOCK_SIZE) {
+        if (encoderError) throw encoderError;
+
+        const frames = Math.min(BLOCK_SIZE, length - start);
+        const planar = new Float32Array(frames * channelCount);
+        input.forEach((channel, c) => planar.set(channel.subarray(start, start + frames), c * frames));
+
+        const audioData = new AudioData({
+          format: 'f32-planar',
+          sampleRate: OPUS_SAMPLE_RATE,
+          numberOfFrames: frames,
+          numberOfChannels: channelCount,
+          timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1_000_000),
+          data: planar
+        });
+        encoder.encode(audioData);
+        audioData.close();
+
+        // Let the encoder catch up instead of queueing the whole song
+        while (encoder.encodeQueueSize > MAX_QUEUE_SIZE) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        // Muxing is quick, so the encode loop accounts for most of the work
+        onProgress((start / length) * 0.95);
+      }
+
+      await encoder.flush();
+      if (encoderError) throw encoderError;
+    } finally {
+      if (encoder.state !== 'closed') encoder.close();
+    }
+
+    const skip = preSkip ?? DEFAULT_PRE_SKIP;
+    const writer = new OggWriter((Math.random() * 0xffffffff) >>> 0);
+    writer.writeHeaderPacket(createOpusHead(channelCount, skip, sampleRate));
+    writer.writeHeaderPacket(createOpusTags(tags));
+
+    // Granule positions count decoded samples including the pre-skip; the
+    // last page is clamped so players trim the final packet's padding
+    const endGranule = skip + length;
+    let granule = 0;
+    packets.forEach((packet, index) => {
+      granule += packet.samples;
+      const isLast = index === packets.length - 1;
+      writer.writePacket(packet.data, isLast ? Math.min(granule, endGranule) : granule);
+    });
+
+    onProgress(1);
+    return new Blob(writer.finish(), { type: 'audio/ogg; codecs=opus' });
+  }
+};
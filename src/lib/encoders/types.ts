@@ -0,0 +1,51 @@
+// Shared types for the audio encoder layer
+
+export type CompressedAudioFormat = 'mp3' | 'opus';
+
+export interface AudioCover {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+// Song metadata written as tags where the container allows it
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  cover?: AudioCover;
+}
+
+export interface EncoderInput {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface EncoderOptions {
+  bitrate: number; // kbps
+  tags?: AudioTags;
+}
+
+// An encoder that runs inside the encoder worker
+export interface AudioEncoderPlugin {
+  format: CompressedAudioFormat;
+  encode: (
+    input: EncoderInput,
+    options: EncoderOptions,
+    onProgress: (progress: number) => void
+  ) => Promise<Blob>;
+}
+
+// Messages between the main thread and the encoder worker
+export type EncoderRequest = {
+  type: 'encode';
+  format: CompressedAudioFormat;
+  input: EncoderInput;
+  options: EncoderOptions;
+};
+
+export type EncoderResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
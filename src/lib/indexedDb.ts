@@ -0,0 +1,49 @@
+// IndexedDB helpers
+// Promise wrappers shared by the modules that keep data in IndexedDB
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function isIndexedDbSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// Opens a database once per page; `upgrade` creates its stores
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (database: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  if (!isIndexedDbSupported()) {
+    return Promise.reject(new Error('IndexedDB is not supported in this browser'));
+  }
+
+  let databasePromise = databases.get(name);
+  if (!databasePromise) {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+
+    databasePromise = requestToPromise(request);
+    databases.set(name, databasePromise);
+    // Let a later call retry after a failure (e.g. private browsing)
+    databasePromise.catch(() => {
+      databases.delete(name);
+    });
+  }
+
+  return databasePromise;
+}
@@ -0,0 +1,264 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import WebSocket, { WebSocketServer } from 'ws';
+import { EventSource } from 'eventsource';
+import { JobStatus, JobStatusResponse, JobStatusSubscription, JobStatusTransport } from '@/types/api';
+import { KaraokeAPI } from './api';
+
+const JOB_ID = 'job-1';
+
+const makeStatus = (status: JobStatus, progress: number): JobStatusResponse => ({
+  job_id: JOB_ID,
+  status,
+  progress,
+  current_step: status === 'completed' ? 'completed' : 'stem_separation',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  processing_time: progress,
+  stem_separation: null,
+  transcription: null,
+  beat_analysis: null
+} as JobStatusResponse);
+
+// Browsers report socket errors through onerror/onclose; ws would also throw
+// them when nothing listens for 'error'
+class BrowserLikeWebSocket extends WebSocket {
+  constructor(url: string) {
+    super(url);
+    this.on('error', () => undefined);
+  }
+}
+
+// A backend offering all three transports, each of which can be switched off
+class MockStatusServer {
+  websocket = true;
+  sse = true;
+  pollingFails = false;
+  // Polls walk through these, staying on the last one
+  pollStatuses: JobStatusResponse[] = [makeStatus('processing', 10)];
+  current = makeStatus('processing', 10);
+
+  webSocketConnections = 0;
+  sseConnections = 0;
+  pollTimes: number[] = [];
+  closedWebSockets = 0;
+
+  private server: Server = createServer((request, response) => this.handleRequest(request, response));
+  private sockets = new WebSocketServer({ noServer: true });
+  private sseResponses = new Set<ServerResponse>();
+
+  async start(): Promise<string> {
+    this.server.on('upgrade', (request, socket, head) => {
+      if (!this.websocket || request.url !== `/ws/status/${JOB_ID}`) {
+        socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+        return;
+      }
+      this.sockets.handleUpgrade(request, socket, head, client => {
+        this.webSocketConnections++;
+        client.on('close', () => this.closedWebSockets++);
+        client.send(JSON.stringify(this.current));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.dropStreams();
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  // Sends a status to every open stream
+  push(status: JobStatusResponse): void {
+    this.current = status;
+    this.sockets.clients.forEach(client => client.send(JSON.stringify(status)));
+    this.sseResponses.forEach(response => response.write(`data: ${JSON.stringify(status)}\n\n`));
+  }
+
+  // Cuts every open stream, as a backend restart would
+  dropStreams(): void {
+    this.sockets.clients.forEach(client => client.terminate());
+    this.sseResponses.forEach(response => response.destroy());
+    this.sseResponses.clear();
+  }
+
+  private handleRequest(request: IncomingMessage, response: ServerResponse): void {
+    if (request.url === `/api/status/${JOB_ID}/events`) {
+      if (!this.sse) {
+        response.writeHead(404).end();
+        return;
+      }
+      this.sseConnections++;
+      response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      response.write(`data: ${JSON.stringify(this.current)}\n\n`);
+      this.sseResponses.add(response);
+      response.on('close', () => this.sseResponses.delete(response));
+      return;
+    }
+
+    if (request.url === `/api/status/${JOB_ID}`) {
+      this.pollTimes.push(Date.now());
+      if (this.pollingFails) {
+        response.writeHead(500, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ error: true, message: 'Status unavailable' }));
+        return;
+      }
+      const status = this.pollStatuses.length > 1 ? this.pollStatuses.shift()! : this.pollStatuses[0];
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(status));
+      return;
+    }
+
+    response.writeHead(404).end();
+  }
+}
+
+// Everything a subscription reported
+const subscribe = (
+  baseURL: string,
+  options: { transports?: JobStatusTransport[]; pollInterval?: number; maxRetries?: number } = {}
+) => {
+  const events = {
+    statuses: [] as string[],
+    transports: [] as JobStatusTransport[],
+    retries: [] as number[],
+    errors: [] as Error[]
+  };
+  const subscription = new KaraokeAPI({ baseURL }).subscribeToJobStatus(JOB_ID, {
+    onStatus: status => events.statuses.push(`${status.status}:${status.progress}`),
+    onTransportChange: transport => events.transports.push(transport),
+    onRetry: attempt => events.retries.push(attempt),
+    onError: error => events.errors.push(error)
+  }, { pollInterval: 20, ...options });
+  return { events, subscription };
+};
+
+const waitFor = (check: () => void, timeout = 3000) => vi.waitFor(check, { timeout, interval: 10 });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('job status transports', () => {
+  let server: MockStatusServer;
+  let baseURL: string;
+  let subscription: JobStatusSubscription | null = null;
+
+  beforeAll(() => {
+    vi.stubGlobal('WebSocket', BrowserLikeWebSocket);
+    vi.stubGlobal('EventSource', EventSource);
+  });
+
+  const startServer = async (configure: (server: MockStatusServer) => void = () => undefined) => {
+    server = new MockStatusServer();
+    configure(server);
+    baseURL = await server.start();
+  };
+
+  afterEach(async () => {
+    subscription?.close();
+    subscription = null;
+    await server.stop();
+  });
+
+  it('prefers the WebSocket and closes it once the job completes', async () => {
+    await startServer();
+    const { events, subscription: feed } = subscribe(baseURL);
+    subscription = feed;
+
+    await waitFor(() => expect(events.statuses).toEqual(['processing:10']));
+    server.push(makeStatus('processing', 50));
+    server.push(makeStatus('completed', 100));
+
+    await waitFor(() => expect(server.closedWebSockets).toBe(1));
+    expect(events.statuses).toEqual(['processing:10', 'processing:50', 'completed:100']);
+    expect(events.transports).toEqual(['websocket']);
+    expect(server.sseConnections).toBe(0);
+    expect(server.pollTimes).toEqual([]);
+  });
+
+  it('falls back to SSE when the WebSocket never opens', async () => {
+    await startServer(mock => {
+      mock.websocket = false;
+    });
+    const { events, subscription: feed } = subscribe(baseURL);
+    subscription = feed;
+
+    await waitFor(() => expect(events.statuses).toEqual(['processing:10']));
+    expect(events.transports).toEqual(['websocket', 'sse']);
+
+    server.push(makeStatus('completed', 100));
+    await waitFor(() => expect(events.statuses).toEqual(['processing:10', 'completed:100']));
+    expect(server.pollTimes).toEqual([]);
+  });
+
+  it('falls back to polling when no stream opens, and stops polling on completion', async () => {
+    await startServer(mock => {
+      mock.websocket = false;
+      mock.sse = false;
+      mock.pollStatuses = [makeStatus('queued', 0), makeStatus('processing', 50), makeStatus('completed', 100)];
+    });
+    const { events, subscription: feed } = subscribe(baseURL);
+    subscription = feed;
+
+    await waitFor(() => expect(events.statuses).toEqual(['queued:0', 'processing:50', 'completed:100']));
+    expect(events.transports).toEqual(['websocket', 'sse', 'polling']);
+
+    await sleep(100);
+    expect(server.pollTimes).toHaveLength(3);
+  });
+
+  it('reconnects a dropped stream on the same transport', async () => {
+    await startServer();
+    const { events, subscription: feed } = subscribe(baseURL);
+    subscription = feed;
+
+    await waitFor(() => expect(server.webSocketConnections).toBe(1));
+    server.dropStreams();
+
+    await waitFor(() => expect(server.webSocketConnections).toBe(2));
+    server.push(makeStatus('completed', 100));
+
+    await waitFor(() => expect(events.statuses).toContain('completed:100'));
+    expect(events.transports).toEqual(['websocket']);
+  });
+
+  it('keeps backing off while a dropped stream cannot reconnect', async () => {
+    await startServer();
+    const { events, subscription: feed } = subscribe(baseURL);
+    subscription = feed;
+
+    await waitFor(() => expect(server.webSocketConnections).toBe(1));
+    // Down long enough for the first reconnect (after 1s) to fail
+    server.websocket = false;
+    server.dropStreams();
+    await sleep(1500);
+    server.websocket = true;
+
+    // The second reconnect comes 2s after the first
+    await waitFor(() => expect(server.webSocketConnections).toBe(2), 4000);
+    expect(events.transports).toEqual(['websocket']);
+    expect(server.sseConnections).toBe(0);
+  }, 10000);
+
+  it('retries failed polls with backoff and gives up after maxRetries', async () => {
+    await startServer(mock => {
+      mock.pollingFails = true;
+    });
+    const { events, subscription: feed } = subscribe(baseURL, { transports: ['polling'], pollInterval: 20, maxRetries: 3 });
+    subscription = feed;
+
+    await waitFor(() => expect(events.errors).toHaveLength(1));
+    expect(events.errors[0].message).toBe('Status unavailable');
+    expect(events.retries).toEqual([1, 2, 3]);
+    expect(events.statuses).toEqual([]);
+
+    // One poll plus three retries, waiting 20, 40 and 80 ms
+    expect(server.pollTimes).toHaveLength(4);
+    const gaps = server.pollTimes.slice(1).map((time, index) => time - server.pollTimes[index]);
+    [20, 40, 80].forEach((delay, index) => expect(gaps[index]).toBeGreaterThanOrEqual(delay - 5));
+
+    await sleep(200);
+    expect(server.pollTimes).toHaveLength(4);
+  });
+});
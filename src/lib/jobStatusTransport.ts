@@ -0,0 +1,221 @@
+// Job status transports
+// Status updates for a job streamed over a WebSocket or Server-Sent Events,
+// falling back to polling the status endpoint with exponential backoff.
+// Streams are expected to send the current status as soon as they open.
+
+import {
+  JobStatusHandlers,
+  JobStatusResponse,
+  JobStatusSubscription,
+  JobStatusSubscriptionOptions,
+  JobStatusTransport,
+  NetworkError,
+} from '@/types/api';
+
+export interface JobStatusSource {
+  baseURL: string;
+  getJobStatus: (jobId: string) => Promise<JobStatusResponse>;
+}
+
+export const DEFAULT_STATUS_TRANSPORTS: JobStatusTransport[] = ['websocket', 'sse', 'polling'];
+
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_MAX_RETRIES = 10;
+const MAX_POLL_DELAY = 30000;
+
+// A stream that hasn't opened by then counts as unavailable
+const STREAM_CONNECT_TIMEOUT = 5000;
+// A dropped stream is reopened (with backoff) this many times before falling back
+const MAX_STREAM_RECONNECTS = 3;
+const STREAM_RECONNECT_DELAY = 1000;
+
+export function isTerminalStatus(status: JobStatusResponse): boolean {
+  const value = status.status.toLowerCase();
+  return value === 'completed' || value === 'completed_with_errors' || value === 'failed';
+}
+
+export function getStatusStreamURL(baseURL: string, jobId: string, transport: 'websocket' | 'sse'): string {
+  const id = encodeURIComponent(jobId);
+  return transport === 'websocket'
+    ? `${baseURL.replace(/^http/, 'ws')}/ws/status/${id}`
+    : `${baseURL}/api/status/${id}/events`;
+}
+
+function isTransportSupported(transport: JobStatusTransport): boolean {
+  if (transport === 'websocket') return typeof WebSocket !== 'undefined';
+  if (transport === 'sse') return typeof EventSource !== 'undefined';
+  return true;
+}
+
+interface StatusStream {
+  close: () => void;
+}
+
+// One subscription: works down the transport list until one delivers, and
+// closes itself once the job completes or fails
+export class JobStatusFeed implements JobStatusSubscription {
+  private readonly transports: JobStatusTransport[];
+  private readonly pollInterval: number;
+  private readonly maxRetries: number;
+  private transportIndex = -1;
+  private stream: StatusStream | null = null;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private reconnects = 0;
+  private pollRetries = 0;
+  private isClosed = false;
+
+  constructor(
+    private readonly source: JobStatusSource,
+    private readonly jobId: string,
+    private readonly handlers: JobStatusHandlers,
+    options: JobStatusSubscriptionOptions = {}
+  ) {
+    this.transports = (options.transports ?? DEFAULT_STATUS_TRANSPORTS).filter(isTransportSupported);
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.useNextTransport();
+  }
+
+  get transport(): JobStatusTransport | null {
+    return this.transports[this.transportIndex] ?? null;
+  }
+
+  close(): void {
+    this.isClosed = true;
+    this.stopTransport();
+  }
+
+  private stopTransport(): void {
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.stream?.close();
+    this.stream = null;
+  }
+
+  private useNextTransport(): void {
+    this.stopTransport();
+    this.transportIndex++;
+    this.reconnects = 0;
+
+    const transport = this.transport;
+    if (!transport) {
+      this.fail(new NetworkError('Unable to get job status updates'));
+      return;
+    }
+
+    this.handlers.onTransportChange?.(transport);
+    if (transport === 'polling') {
+      this.poll();
+    } else {
+      this.openStream(transport);
+    }
+  }
+
+  private deliver(status: JobStatusResponse): void {
+    if (this.isClosed) return;
+    this.handlers.onStatus(status);
+    if (isTerminalStatus(status)) {
+      this.close();
+    }
+  }
+
+  private fail(error: Error): void {
+    this.close();
+    this.handlers.onError?.(error);
+  }
+
+  private openStream(transport: 'websocket' | 'sse'): void {
+    const url = getStatusStreamURL(this.source.baseURL, this.jobId, transport);
+    let isOpen = false;
+
+    const handleOpen = () => {
+      isOpen = true;
+      this.reconnects = 0;
+      clearTimeout(connectTimeoutId);
+    };
+
+    const handleMessage = (data: unknown) => {
+      try {
+        this.deliver(JSON.parse(String(data)) as JobStatusResponse);
+      } catch (error) {
+        console.warn(`Ignoring malformed job status message (${transport}):`, error);
+      }
+    };
+
+    const handleDrop = () => {
+      if (this.isClosed) return;
+      this.stopTransport();
+
+      // Never opened on the first try: the server doesn't offer this transport.
+      // Failed reconnects (e.g. while the backend restarts) keep backing off.
+      if ((!isOpen && this.reconnects === 0) || this.reconnects >= MAX_STREAM_RECONNECTS) {
+        this.useNextTransport();
+        return;
+      }
+
+      const delay = STREAM_RECONNECT_DELAY * Math.pow(2, this.reconnects);
+      this.reconnects++;
+      this.timerId = setTimeout(() => this.openStream(transport), delay);
+    };
+
+    const connectTimeoutId = setTimeout(() => {
+      if (!isOpen) handleDrop();
+    }, STREAM_CONNECT_TIMEOUT);
+
+    if (transport === 'websocket') {
+      const socket = new WebSocket(url);
+      socket.onopen = handleOpen;
+      socket.onmessage = (event) => handleMessage(event.data);
+      // Errors are always followed by a close
+      socket.onclose = handleDrop;
+      this.stream = {
+        close: () => {
+          clearTimeout(connectTimeoutId);
+          socket.onclose = null;
+          socket.close();
+        },
+      };
+    } else {
+      const events = new EventSource(url);
+      events.onopen = handleOpen;
+      events.onmessage = (event) => handleMessage(event.data);
+      // EventSource would retry forever on its own; reconnects are bounded here instead
+      events.onerror = handleDrop;
+      this.stream = {
+        close: () => {
+          clearTimeout(connectTimeoutId);
+          events.close();
+        },
+      };
+    }
+  }
+
+  private poll = async (): Promise<void> => {
+    try {
+      const status = await this.source.getJobStatus(this.jobId);
+      if (this.isClosed) return;
+
+      this.pollRetries = 0;
+      this.deliver(status);
+      if (!this.isClosed) {
+        this.timerId = setTimeout(this.poll, this.pollInterval);
+      }
+    } catch (error) {
+      if (this.isClosed) return;
+
+      const reason = error instanceof Error ? error : new Error('Failed to fetch job status');
+      if (this.pollRetries >= this.maxRetries) {
+        this.fail(reason);
+        return;
+      }
+
+      // Exponential backoff: pollInterval * 2^retries
+      const delay = Math.min(this.pollInterval * Math.pow(2, this.pollRetries), MAX_POLL_DELAY);
+      this.pollRetries++;
+      this.handlers.onRetry?.(this.pollRetries, reason);
+      this.timerId = setTimeout(this.poll, delay);
+    }
+  };
+}
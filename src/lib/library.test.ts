@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobResultsResponse } from '@/types/api';
+import { LibraryEntry, updateLibraryEntry } from './libraryStorage';
+import { checkLibraryEntry } from './library';
+
+vi.mock('./libraryStorage', () => ({
+  getLibraryEntry: vi.fn(),
+  updateLibraryEntry: vi.fn()
+}));
+
+const entry: LibraryEntry = {
+  jobId: 'job-1',
+  filename: 'song.mp3',
+  fileSize: 1000,
+  format: 'mp3',
+  createdAt: 0,
+  updatedAt: 0,
+  status: 'completed',
+  errorMessage: null,
+  metadata: null,
+  duration: 180,
+  cover: null,
+  results: {
+    job_id: 'job-1',
+    download_links: { vocals_stem: '/api/files/job-1/vocals.wav' }
+  } as JobResultsResponse,
+  lastOpenedAt: null,
+  lastCheckedAt: null
+};
+
+// The backend answers the HEAD probe for the vocals stem with this
+const respondWith = (response: () => Promise<Response>) => {
+  const fetchMock = vi.fn(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('checkLibraryEntry', () => {
+  beforeEach(() => {
+    vi.mocked(updateLibraryEntry).mockImplementation(async (_jobId, changes) => ({ ...entry, ...changes }));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a job whose files are still there', async () => {
+    const fetchMock = respondWith(async () => new Response(null, { status: 200 }));
+
+    const checked = await checkLibraryEntry(entry);
+
+    expect(fetchMock).toHaveBeenCalledWith(expect.stringMatching(/\/api\/files\/job-1\/vocals\.wav$/), expect.anything());
+    expect(checked.status).toBe('completed');
+    expect(checked.lastCheckedAt).not.toBeNull();
+  });
+
+  it('marks the job expired when the backend answers 404', async () => {
+    respondWith(async () => new Response(null, { status: 404 }));
+
+    const checked = await checkLibraryEntry(entry);
+
+    expect(checked.status).toBe('expired');
+  });
+
+  it.each([500, 502, 503])('leaves the entry alone when the backend answers %i', async status => {
+    respondWith(async () => new Response(null, { status }));
+
+    const checked = await checkLibraryEntry(entry);
+
+    expect(checked).toBe(entry);
+    expect(updateLibraryEntry).not.toHaveBeenCalled();
+  });
+
+  it('leaves the entry alone when the backend cannot be reached', async () => {
+    respondWith(async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    const checked = await checkLibraryEntry(entry);
+
+    expect(checked).toBe(entry);
+    expect(updateLibraryEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+// Song library bookkeeping
+// Records uploads, status changes and results in the local library, and asks
+// the backend whether finished jobs still exist (files are kept for 24 hours)
+
+import { api } from './api';
+import { ApiError, JobResultsResponse, JobStatusResponse, UploadResponse } from '@/types/api';
+import { LibraryEntry, getLibraryEntry, updateLibraryEntry } from './libraryStorage';
+import { fetchWithOfflineCache } from './offlineCache';
+
+// Jobs aren't re-checked more often than this
+const EXPIRY_CHECK_INTERVAL = 10 * 60 * 1000;
+
+const createEntry = (jobId: string, filename: string): LibraryEntry => {
+  const now = Date.now();
+  return {
+    jobId,
+    filename,
+    fileSize: 0,
+    format: '',
+    createdAt: now,
+    updatedAt: now,
+    status: 'queued',
+    errorMessage: null,
+    metadata: null,
+    duration: null,
+    cover: null,
+    results: null,
+    lastOpenedAt: null,
+    lastCheckedAt: null
+  };
+};
+
+export async function recordUpload(upload: UploadResponse): Promise<void> {
+  await updateLibraryEntry(upload.job_id, {
+    filename: upload.file_info.filename,
+    fileSize: upload.file_info.size,
+    format: upload.file_info.format,
+    status: upload.status
+  }, () => createEntry(upload.job_id, upload.file_info.filename));
+}
+
+// Only updates songs already in the library (uploaded from this browser)
+export async function recordJobStatus(status: JobStatusResponse): Promise<void> {
+  await updateLibraryEntry(status.job_id, {
+    status: status.status,
+    errorMessage: status.error_message ?? null
+  });
+}
+
+async function fetchCover(results: JobResultsResponse): Promise<Blob | null> {
+  const coverPath = results.audio_metadata?.cover_image_path;
+  if (!coverPath) return null;
+
+  try {
+    const response = await fetchWithOfflineCache(api.getFileDownloadURL(results.job_id, coverPath.split('/').pop() || ''));
+    return response.ok ? await response.blob() : null;
+  } catch (error) {
+    console.warn('Failed to fetch cover for the library:', error);
+    return null;
+  }
+}
+
+// Called whenever results are loaded; songs opened by link are added too
+export async function recordResults(results: JobResultsResponse, options: { opened?: boolean } = {}): Promise<void> {
+  const cover = await fetchCover(results);
+  const now = Date.now();
+  // Results of an expired job come from the offline cache; it stays expired
+  const existing = await getLibraryEntry(results.job_id);
+  const isExpired = existing?.status === 'expired';
+
+  await updateLibraryEntry(results.job_id, {
+    filename: results.original_filename,
+    fileSize: results.file_size,
+    format: results.audio_metadata?.format ?? results.original_filename.split('.').pop() ?? '',
+    status: isExpired ? 'expired' : results.status,
+    errorMessage: null,
+    metadata: results.audio_metadata ?? null,
+    duration: results.audio_duration,
+    results,
+    ...(!isExpired && { lastCheckedAt: now }),
+    ...(cover && { cover }),
+    ...(options.opened && { lastOpenedAt: now })
+  }, () => ({ ...createEntry(results.job_id, results.original_filename), createdAt: Date.parse(results.created_at) || now }));
+}
+
+async function jobExists(entry: LibraryEntry): Promise<boolean> {
+  // Finished jobs: probe one of the stems
+  const vocalsStem = entry.results?.download_links.vocals_stem.split('/').pop();
+  if (vocalsStem) {
+    return api.checkFileExists(entry.jobId, vocalsStem);
+  }
+
+  try {
+    await api.getJobStatus(entry.jobId);
+    return true;
+  } catch (error) {
+    if (error instanceof ApiError && error.statusCode === 404) return false;
+    throw error;
+  }
+}
+
+// Marks the entry expired once the backend no longer knows the job. Network and
+// server errors leave it alone, so an offline library doesn't expire everything.
+export async function checkLibraryEntry(entry: LibraryEntry): Promise<LibraryEntry> {
+  if (entry.status === 'expired') return entry;
+  if (entry.lastCheckedAt !== null && Date.now() - entry.lastCheckedAt < EXPIRY_CHECK_INTERVAL) return entry;
+
+  try {
+    const exists = await jobExists(entry);
+    const updated = await updateLibraryEntry(entry.jobId, {
+      lastCheckedAt: Date.now(),
+      ...(!exists && { status: 'expired' as const })
+    });
+    return updated ?? entry;
+  } catch (error) {
+    console.warn(`Failed to check whether job ${entry.jobId} still exists:`, error);
+    return entry;
+  }
+}
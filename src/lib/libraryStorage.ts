@@ -0,0 +1,84 @@
+// Local song library
+// Every job the user has started, kept in IndexedDB so past songs can be
+// reopened from /library after leaving the studio
+
+import { AudioMetadata, JobResultsResponse, JobStatus } from '@/types/api';
+import { isIndexedDbSupported, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// 'expired' once the backend has deleted the job's files (24h retention)
+export type LibraryStatus = JobStatus | 'expired';
+
+export interface LibraryEntry {
+  jobId: string;
+  filename: string;
+  fileSize: number; // bytes
+  format: string;
+  createdAt: number; // ms
+  updatedAt: number;
+  status: LibraryStatus;
+  errorMessage: string | null;
+  metadata: AudioMetadata | null;
+  duration: number | null; // seconds, known once processing finishes
+  // Kept locally so the library still shows it after the job expires
+  cover: Blob | null;
+  results: JobResultsResponse | null;
+  lastOpenedAt: number | null;
+  // Last time the backend was asked whether the job still exists
+  lastCheckedAt: number | null;
+}
+
+const DB_NAME = 'karaoke-library';
+const DB_VERSION = 1;
+const STORE = 'songs';
+
+function openLibraryDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbSupported()) {
+    return Promise.reject(new Error('The song library is not supported in this browser'));
+  }
+
+  return openDatabase(DB_NAME, DB_VERSION, database => {
+    database.createObjectStore(STORE, { keyPath: 'jobId' });
+  });
+}
+
+export async function listLibraryEntries(): Promise<LibraryEntry[]> {
+  const database = await openLibraryDatabase();
+  const store = database.transaction(STORE).objectStore(STORE);
+  return requestToPromise(store.getAll() as IDBRequest<LibraryEntry[]>);
+}
+
+export async function getLibraryEntry(jobId: string): Promise<LibraryEntry | null> {
+  const database = await openLibraryDatabase();
+  const store = database.transaction(STORE).objectStore(STORE);
+  const entry = await requestToPromise(store.get(jobId) as IDBRequest<LibraryEntry | undefined>);
+  return entry ?? null;
+}
+
+// Merge changes into an entry, creating it from `create` when there's none yet.
+// Read and write share a transaction so concurrent updates don't clobber each other.
+export async function updateLibraryEntry(
+  jobId: string,
+  changes: Partial<LibraryEntry>,
+  create?: () => LibraryEntry
+): Promise<LibraryEntry | null> {
+  const database = await openLibraryDatabase();
+  const transaction = database.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+
+  const existing = await requestToPromise(store.get(jobId) as IDBRequest<LibraryEntry | undefined>);
+  const base = existing ?? create?.();
+  if (!base) return null;
+
+  const entry: LibraryEntry = { ...base, ...changes, jobId, updatedAt: Date.now() };
+  store.put(entry);
+  await transactionDone(transaction);
+
+  return entry;
+}
+
+export async function deleteLibraryEntry(jobId: string): Promise<void> {
+  const database = await openLibraryDatabase();
+  const transaction = database.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).delete(jobId);
+  await transactionDone(transaction);
+}
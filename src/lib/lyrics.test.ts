@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionData } from '@/types/api';
+import { moveWord, setWordTiming } from './lyrics';
+
+// Two lines with a gap between words and between the lines
+const transcription: TranscriptionData = {
+  text: 'one two three four',
+  language: 'en',
+  segments: [
+    {
+      start: 1,
+      end: 3,
+      text: 'one two',
+      words: [
+        { word: 'one', start: 1, end: 1.5, confidence: 1 },
+        { word: 'two', start: 2, end: 3, confidence: 1 }
+      ]
+    },
+    {
+      start: 4,
+      end: 6,
+      text: 'three four',
+      words: [
+        { word: 'three', start: 4, end: 5, confidence: 1 },
+        { word: 'four', start: 5.5, end: 6, confidence: 1 }
+      ]
+    }
+  ]
+};
+
+const wordAt = (data: TranscriptionData, segmentIndex: number, wordIndex: number) =>
+  data.segments[segmentIndex].words[wordIndex];
+
+describe('moveWord', () => {
+  it('moves a word by the full delta when there is room', () => {
+    const moved = moveWord(transcription, { segmentIndex: 0, wordIndex: 1 }, -0.25);
+
+    expect(wordAt(moved, 0, 1)).toMatchObject({ start: 1.75, end: 2.75 });
+  });
+
+  it('stops at the neighbouring word without changing the length', () => {
+    const moved = moveWord(transcription, { segmentIndex: 0, wordIndex: 1 }, -2);
+
+    expect(wordAt(moved, 0, 1)).toMatchObject({ start: 1.5, end: 2.5 });
+  });
+
+  it('keeps the first and last word of a line between the neighbouring lines', () => {
+    const later = moveWord(transcription, { segmentIndex: 0, wordIndex: 1 }, 5);
+    expect(wordAt(later, 0, 1)).toMatchObject({ start: 3, end: 4 });
+    expect(later.segments[0].end).toBe(4);
+
+    const earlier = moveWord(transcription, { segmentIndex: 1, wordIndex: 0 }, -5);
+    expect(wordAt(earlier, 1, 0)).toMatchObject({ start: 3, end: 4 });
+    expect(earlier.segments[1].start).toBe(3);
+  });
+
+  it('never moves the first word of the song before zero', () => {
+    const moved = moveWord(transcription, { segmentIndex: 0, wordIndex: 0 }, -5);
+
+    expect(wordAt(moved, 0, 0)).toMatchObject({ start: 0, end: 0.5 });
+  });
+
+  it('returns the same data when the word cannot move', () => {
+    const blocked = moveWord(transcription, { segmentIndex: 0, wordIndex: 0 }, 0);
+
+    expect(blocked).toBe(transcription);
+  });
+});
+
+describe('setWordTiming', () => {
+  it('stops the edges of the last word of a line at the next line', () => {
+    const updated = setWordTiming(transcription, { segmentIndex: 0, wordIndex: 1 }, 2, 5);
+
+    expect(wordAt(updated, 0, 1)).toMatchObject({ start: 2, end: 4 });
+  });
+
+  it('stops the edges of the first word of a line at the previous line', () => {
+    const updated = setWordTiming(transcription, { segmentIndex: 1, wordIndex: 0 }, 2, 5);
+
+    expect(wordAt(updated, 1, 0)).toMatchObject({ start: 3, end: 5 });
+  });
+});
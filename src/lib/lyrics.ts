@@ -0,0 +1,406 @@
+// Lyrics timing helpers
+// Pure functions for looking up segments and words in transcription data
+
+import { TranscriptionData, TranscriptionSegment, TranscriptionWord } from '@/types/api';
+
+// Find the segment that is active at the given time (-1 if none)
+export function findSegmentIndex(segments: TranscriptionSegment[], time: number): number {
+  let low = 0;
+  let high = segments.length - 1;
+
+  // Binary search for the last segment starting at or before `time`
+  let candidate = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid].start <= time) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (candidate === -1 || time > segments[candidate].end) {
+    return -1;
+  }
+
+  return candidate;
+}
+
+// Find the next segment that starts after the given time (-1 if none)
+export function findNextSegmentIndex(segments: TranscriptionSegment[], time: number): number {
+  for (let i = 0; i < segments.length; i++) {
+    if (segments[i].start > time) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Find the word that is active at the given time within a segment (-1 if none)
+export function findWordIndex(segment: TranscriptionSegment, time: number): number {
+  return segment.words.findIndex(word => time >= word.start && time < word.end);
+}
+
+// Fraction (0-1) of a word that has been sung at the given time
+export function getWordProgress(word: TranscriptionWord, time: number): number {
+  if (time <= word.start) return 0;
+  if (time >= word.end) return 1;
+
+  const length = word.end - word.start;
+  if (length <= 0) return 1;
+
+  return (time - word.start) / length;
+}
+
+// Rebuild segment text from its words
+export function segmentTextFromWords(words: TranscriptionWord[]): string {
+  return words.map(word => word.word.trim()).filter(Boolean).join(' ');
+}
+
+// Rebuild full transcription text from its segments
+export function transcriptionTextFromSegments(segments: TranscriptionSegment[]): string {
+  return segments.map(segment => segment.text.trim()).filter(Boolean).join(' ');
+}
+
+// Make sure segments are sorted and the text fields match the words
+export function normalizeTranscription(data: TranscriptionData): TranscriptionData {
+  const segments = [...data.segments]
+    .sort((a, b) => a.start - b.start)
+    .map(segment => {
+      const words = [...segment.words].sort((a, b) => a.start - b.start);
+      return {
+        ...segment,
+        words,
+        text: words.length > 0 ? segmentTextFromWords(words) : segment.text.trim()
+      };
+    });
+
+  return {
+    ...data,
+    segments,
+    text: transcriptionTextFromSegments(segments)
+  };
+}
+
+// Editing operations
+// All of these return a new TranscriptionData and never mutate their input
+
+// Shortest word length the editor allows, in seconds
+export const MIN_WORD_DURATION = 0.05;
+
+export interface WordPosition {
+  segmentIndex: number;
+  wordIndex: number;
+}
+
+// Replace one segment, keeping its text and bounds consistent with its words
+function withSegment(
+  data: TranscriptionData,
+  segmentIndex: number,
+  update: (segment: TranscriptionSegment) => TranscriptionSegment
+): TranscriptionData {
+  const segment = data.segments[segmentIndex];
+  if (!segment) return data;
+
+  const updated = update(segment);
+  const words = updated.words;
+  const nextSegment: TranscriptionSegment = words.length > 0
+    ? {
+        ...updated,
+        start: words[0].start,
+        end: words[words.length - 1].end,
+        text: segmentTextFromWords(words)
+      }
+    : updated;
+
+  const segments = data.segments.map((s, i) => (i === segmentIndex ? nextSegment : s));
+  return {
+    ...data,
+    segments,
+    text: transcriptionTextFromSegments(segments)
+  };
+}
+
+// How far a word may reach: the neighbouring words, or the neighbouring lines
+// for the first and last word. Words that already overlap may only move apart.
+function wordBounds(data: TranscriptionData, { segmentIndex, wordIndex }: WordPosition) {
+  const words = data.segments[segmentIndex].words;
+  const word = words[wordIndex];
+  const previous = wordIndex > 0 ? words[wordIndex - 1] : data.segments[segmentIndex - 1];
+  const next = wordIndex < words.length - 1 ? words[wordIndex + 1] : data.segments[segmentIndex + 1];
+
+  return {
+    minStart: Math.min(word.start, previous ? previous.end : 0),
+    maxEnd: next ? Math.max(word.end, next.start) : Infinity
+  };
+}
+
+// Move a word's start/end, clamped so it can't overlap its neighbours
+export function setWordTiming(
+  data: TranscriptionData,
+  position: WordPosition,
+  start: number,
+  end: number
+): TranscriptionData {
+  if (!data.segments[position.segmentIndex]?.words[position.wordIndex]) return data;
+  const { minStart, maxEnd } = wordBounds(data, position);
+
+  return withSegment(data, position.segmentIndex, segment => {
+    const clampedStart = Math.max(minStart, Math.min(start, maxEnd - MIN_WORD_DURATION));
+    const clampedEnd = Math.min(maxEnd, Math.max(end, clampedStart + MIN_WORD_DURATION));
+
+    return {
+      ...segment,
+      words: segment.words.map((w, i) => (i === position.wordIndex ? { ...w, start: clampedStart, end: clampedEnd } : w))
+    };
+  });
+}
+
+// Move a whole word by `delta` seconds, keeping its length and stopping at
+// its neighbours
+export function moveWord(
+  data: TranscriptionData,
+  position: WordPosition,
+  delta: number
+): TranscriptionData {
+  const word = data.segments[position.segmentIndex]?.words[position.wordIndex];
+  if (!word) return data;
+  const { minStart, maxEnd } = wordBounds(data, position);
+
+  const safeDelta = Math.max(minStart - word.start, Math.min(delta, maxEnd - word.end));
+  if (safeDelta === 0) return data;
+
+  return withSegment(data, position.segmentIndex, segment => ({
+    ...segment,
+    words: segment.words.map((w, i) => (
+      i === position.wordIndex ? { ...w, start: w.start + safeDelta, end: w.end + safeDelta } : w
+    ))
+  }));
+}
+
+// Fix the spelling of a word
+export function setWordText(
+  data: TranscriptionData,
+  { segmentIndex, wordIndex }: WordPosition,
+  text: string
+): TranscriptionData {
+  const trimmed = text.trim();
+  if (!trimmed) return data;
+
+  return withSegment(data, segmentIndex, segment => ({
+    ...segment,
+    words: segment.words.map((w, i) => (i === wordIndex ? { ...w, word: trimmed } : w))
+  }));
+}
+
+// Split a word in two. Splits on the first space if there is one, otherwise
+// in the middle; the time is divided in proportion to the character counts.
+export function splitWord(
+  data: TranscriptionData,
+  { segmentIndex, wordIndex }: WordPosition
+): TranscriptionData {
+  return withSegment(data, segmentIndex, segment => {
+    const word = segment.words[wordIndex];
+    if (!word) return segment;
+
+    const text = word.word.trim();
+    if (text.length < 2) return segment;
+
+    const spaceIndex = text.indexOf(' ');
+    const splitAt = spaceIndex > 0 ? spaceIndex : Math.ceil(text.length / 2);
+    const firstText = text.slice(0, splitAt).trim();
+    const secondText = text.slice(splitAt).trim();
+
+    const ratio = firstText.length / (firstText.length + secondText.length);
+    const splitTime = word.start + (word.end - word.start) * ratio;
+
+    const first: TranscriptionWord = { ...word, word: firstText, end: splitTime };
+    const second: TranscriptionWord = { ...word, word: secondText, start: splitTime };
+
+    return {
+      ...segment,
+      words: [
+        ...segment.words.slice(0, wordIndex),
+        first,
+        second,
+        ...segment.words.slice(wordIndex + 1)
+      ]
+    };
+  });
+}
+
+// Merge a word with the word that follows it in the same segment
+export function mergeWordWithNext(
+  data: TranscriptionData,
+  { segmentIndex, wordIndex }: WordPosition
+): TranscriptionData {
+  return withSegment(data, segmentIndex, segment => {
+    const word = segment.words[wordIndex];
+    const next = segment.words[wordIndex + 1];
+    if (!word || !next) return segment;
+
+    const merged: TranscriptionWord = {
+      word: `${word.word.trim()}${next.word.trim()}`,
+      start: word.start,
+      end: next.end,
+      confidence: Math.min(word.confidence, next.confidence)
+    };
+
+    return {
+      ...segment,
+      words: [
+        ...segment.words.slice(0, wordIndex),
+        merged,
+        ...segment.words.slice(wordIndex + 2)
+      ]
+    };
+  });
+}
+
+// Move a whole segment (and all its words) by `delta` seconds, stopping at
+// its neighbours so segments stay in order
+export function shiftSegment(
+  data: TranscriptionData,
+  segmentIndex: number,
+  delta: number
+): TranscriptionData {
+  const segment = data.segments[segmentIndex];
+  if (!segment) return data;
+
+  const previous = data.segments[segmentIndex - 1];
+  const next = data.segments[segmentIndex + 1];
+  // Never before the start of the song; lines that already overlap may only move apart
+  const minDelta = Math.min(0, (previous ? previous.end : 0) - segment.start);
+  const maxDelta = next ? Math.max(0, next.start - segment.end) : Infinity;
+
+  const safeDelta = Math.max(minDelta, Math.min(delta, maxDelta));
+  if (safeDelta === 0) return data;
+
+  const segments = data.segments.map((s, i) => {
+    if (i !== segmentIndex) return s;
+    return {
+      ...s,
+      start: s.start + safeDelta,
+      end: s.end + safeDelta,
+      words: s.words.map(w => ({ ...w, start: w.start + safeDelta, end: w.end + safeDelta }))
+    };
+  });
+
+  return { ...data, segments };
+}
+
+// Tap sync
+// Taps are playback times recorded while the user follows along. Lines (or
+// words) that haven't been tapped yet keep the offset of the last tap so the
+// rest of the song stays roughly in place.
+
+// Stretch or squash a segment so it spans start..end, scaling its words to match
+function retimeSegment(segment: TranscriptionSegment, start: number, end: number): TranscriptionSegment {
+  const originalLength = segment.end - segment.start;
+  const scale = originalLength > 0 ? (end - start) / originalLength : 0;
+
+  return {
+    ...segment,
+    start,
+    end,
+    words: segment.words.map(word => ({
+      ...word,
+      start: start + (word.start - segment.start) * scale,
+      end: start + (word.end - segment.start) * scale
+    }))
+  };
+}
+
+// Re-time segments from one tap per line (taps[i] is the new start of segment i)
+export function applyLineTaps(data: TranscriptionData, taps: number[]): TranscriptionData {
+  if (taps.length === 0) return data;
+
+  // New start for every segment
+  let offset = 0;
+  const starts = data.segments.map((segment, i) => {
+    if (i < taps.length) {
+      offset = taps[i] - segment.start;
+      return taps[i];
+    }
+    return segment.start + offset;
+  });
+
+  const segments = data.segments.map((segment, i) => {
+    const start = starts[i];
+    let end = start + (segment.end - segment.start);
+
+    // Don't run into the next line
+    if (i + 1 < starts.length && starts[i + 1] > start) {
+      end = Math.min(end, starts[i + 1]);
+    }
+
+    return retimeSegment(segment, start, Math.max(end, start + MIN_WORD_DURATION));
+  });
+
+  return { ...data, segments };
+}
+
+// Re-time words from one tap per word, counting words across all segments in order
+export function applyWordTaps(data: TranscriptionData, taps: number[]): TranscriptionData {
+  if (taps.length === 0) return data;
+
+  const words = data.segments.flatMap(segment => segment.words);
+
+  // New start for every word
+  let offset = 0;
+  const starts = words.map((word, i) => {
+    if (i < taps.length) {
+      offset = taps[i] - word.start;
+      return taps[i];
+    }
+    return word.start + offset;
+  });
+
+  // Keep each word's length unless it would overlap the next word
+  let index = 0;
+  const segments = data.segments.map(segment => {
+    if (segment.words.length === 0) {
+      // Follow the word just before this segment
+      const shift = index > 0 ? starts[index - 1] - words[index - 1].start : 0;
+      return { ...segment, start: segment.start + shift, end: segment.end + shift };
+    }
+
+    const retimed = segment.words.map(word => {
+      const start = starts[index];
+      const nextStart = starts[index + 1];
+      let end = start + (word.end - word.start);
+      if (nextStart !== undefined && nextStart > start) {
+        end = Math.min(end, nextStart);
+      }
+      index++;
+      return { ...word, start, end: Math.max(end, start + MIN_WORD_DURATION) };
+    });
+
+    return {
+      ...segment,
+      words: retimed,
+      start: retimed[0].start,
+      end: retimed[retimed.length - 1].end
+    };
+  });
+
+  return { ...data, segments };
+}
+
+// Total number of words across all segments
+export function countWords(data: TranscriptionData): number {
+  return data.segments.reduce((total, segment) => total + segment.words.length, 0);
+}
+
+// Word at a flat index (counting across all segments)
+export function getWordAtIndex(data: TranscriptionData, index: number): TranscriptionWord | null {
+  let remaining = index;
+  for (const segment of data.segments) {
+    if (remaining < segment.words.length) {
+      return segment.words[remaining];
+    }
+    remaining -= segment.words.length;
+  }
+  return null;
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionData, TranscriptionSegment } from '@/types/api';
+import { toEnhancedLrc, toLrc, toSrt, toWebVtt } from './lyricsExport';
+import { parseLrc, parseSrt, parseVtt } from './lyricsImport';
+
+// Words within a line are back to back, so the end of every word is also
+// carried by the formats (as the next word's start or the line's end).
+// Times are off the centisecond grid to exercise rounding.
+const transcription: TranscriptionData = {
+  text: 'Hello bright world Second line here',
+  language: 'en',
+  segments: [
+    {
+      start: 1.234,
+      end: 2.987,
+      text: 'Hello bright world',
+      words: [
+        { word: 'Hello', start: 1.234, end: 1.701, confidence: 0.9 },
+        { word: 'bright', start: 1.701, end: 2.345, confidence: 0.8 },
+        { word: 'world', start: 2.345, end: 2.987, confidence: 0.95 }
+      ]
+    },
+    {
+      start: 63.456,
+      end: 65.5,
+      text: 'Second line here',
+      words: [
+        { word: 'Second', start: 63.456, end: 64.012, confidence: 0.9 },
+        { word: 'line', start: 64.012, end: 64.8, confidence: 0.9 },
+        { word: 'here', start: 64.8, end: 65.5, confidence: 0.9 }
+      ]
+    }
+  ]
+};
+
+// Half a unit of the format's precision
+const CENTISECOND = 0.005;
+const MILLISECOND = 0.0005;
+
+const expectSegments = (
+  parsed: TranscriptionData,
+  tolerance: number,
+  check: (actual: TranscriptionSegment, expected: TranscriptionSegment) => void
+) => {
+  expect(parsed.segments).toHaveLength(transcription.segments.length);
+  parsed.segments.forEach((segment, index) => {
+    const expected = transcription.segments[index];
+    expect(segment.text).toBe(expected.text);
+    expect(Math.abs(segment.start - expected.start)).toBeLessThanOrEqual(tolerance);
+    check(segment, expected);
+  });
+};
+
+const expectWordTimings = (actual: TranscriptionSegment, expected: TranscriptionSegment, tolerance: number) => {
+  expect(actual.words.map(word => word.word)).toEqual(expected.words.map(word => word.word));
+  actual.words.forEach((word, index) => {
+    expect(Math.abs(word.start - expected.words[index].start)).toBeLessThanOrEqual(tolerance);
+    expect(Math.abs(word.end - expected.words[index].end)).toBeLessThanOrEqual(tolerance);
+  });
+};
+
+describe('lyrics export round trips', () => {
+  it('keeps line starts through LRC', () => {
+    const lrc = toLrc(transcription, { title: 'Song', artist: 'Band', duration: 70 });
+    expect(lrc).toContain('[ti:Song]');
+    expect(lrc).toContain('[01:03.46]Second line here');
+
+    expectSegments(parseLrc(lrc, { duration: 70 }), CENTISECOND, () => undefined);
+  });
+
+  it('keeps line and word timings through enhanced LRC', () => {
+    const lrc = toEnhancedLrc(transcription);
+    expect(lrc.split('\n')[0]).toBe('[00:01.23]<00:01.23>Hello <00:01.70>bright <00:02.35>world <00:02.99>');
+
+    expectSegments(parseLrc(lrc), CENTISECOND, (actual, expected) => {
+      expect(Math.abs(actual.end - expected.end)).toBeLessThanOrEqual(CENTISECOND);
+      expectWordTimings(actual, expected, CENTISECOND);
+    });
+  });
+
+  it('keeps cue timings through SRT', () => {
+    const srt = toSrt(transcription);
+    expect(srt).toContain('1\n00:00:01,234 --> 00:00:02,987\nHello bright world');
+
+    expectSegments(parseSrt(srt), MILLISECOND, (actual, expected) => {
+      expect(Math.abs(actual.end - expected.end)).toBeLessThanOrEqual(MILLISECOND);
+    });
+  });
+
+  it('keeps cue and word timings through WebVTT', () => {
+    const vtt = toWebVtt(transcription, { title: 'Song' });
+    expect(vtt.startsWith('WEBVTT - Song\n\n')).toBe(true);
+    expect(vtt).toContain('00:01:03.456 --> 00:01:05.500\nSecond <00:01:04.012>line <00:01:04.800>here');
+
+    expectSegments(parseVtt(vtt), MILLISECOND, (actual, expected) => {
+      expect(Math.abs(actual.end - expected.end)).toBeLessThanOrEqual(MILLISECOND);
+      expectWordTimings(actual, expected, MILLISECOND);
+    });
+  });
+
+  it('escapes WebVTT markup characters in the cue text', () => {
+    const markup: TranscriptionData = {
+      text: 'Rock & roll <3 >',
+      language: 'en',
+      segments: [
+        {
+          start: 1,
+          end: 3,
+          text: 'Rock & roll <3 >',
+          words: [
+            { word: 'Rock', start: 1, end: 1.5, confidence: 1 },
+            { word: '&', start: 1.5, end: 2, confidence: 1 },
+            { word: 'roll', start: 2, end: 2.5, confidence: 1 },
+            { word: '<3', start: 2.5, end: 2.8, confidence: 1 },
+            { word: '>', start: 2.8, end: 3, confidence: 1 }
+          ]
+        },
+        { start: 4, end: 5, text: '<b>not a tag</b>', words: [] }
+      ]
+    };
+
+    const vtt = toWebVtt(markup);
+    expect(vtt).toContain('Rock <00:00:01.500>&amp; <00:00:02.000>roll <00:00:02.500>&lt;3 <00:00:02.800>&gt;');
+    expect(vtt).toContain('&lt;b&gt;not a tag&lt;/b&gt;');
+
+    const parsed = parseVtt(vtt);
+    expect(parsed.segments.map(segment => segment.text)).toEqual(['Rock & roll <3 >', '<b>not a tag</b>']);
+    expect(parsed.segments[0].words.map(word => word.word)).toEqual(['Rock', '&', 'roll', '<3', '>']);
+  });
+});
@@ -0,0 +1,179 @@
+// Lyrics export
+// Pure converters from TranscriptionData to common timed-lyrics formats
+
+import { TranscriptionData, TranscriptionSegment } from '@/types/api';
+
+export type LyricsExportFormat = 'lrc' | 'enhanced-lrc' | 'srt' | 'vtt';
+
+export interface LyricsExportOptions {
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number;
+}
+
+// Time formatting
+
+// mm:ss.xx (LRC uses centiseconds)
+export function formatLrcTime(seconds: number): string {
+  const centis = Math.max(0, Math.round(seconds * 100));
+  const mins = Math.floor(centis / 6000);
+  const secs = Math.floor((centis % 6000) / 100);
+  const cs = centis % 100;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+}
+
+// hh:mm:ss<sep>mmm (SRT uses a comma, WebVTT a dot)
+function formatClockTime(seconds: number, separator: ',' | '.'): string {
+  const millis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(millis / 3600000);
+  const mins = Math.floor((millis % 3600000) / 60000);
+  const secs = Math.floor((millis % 60000) / 1000);
+  const ms = millis % 1000;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+export function formatSrtTime(seconds: number): string {
+  return formatClockTime(seconds, ',');
+}
+
+export function formatVttTime(seconds: number): string {
+  return formatClockTime(seconds, '.');
+}
+
+// Helpers
+
+// Segments that actually have something to show
+function visibleSegments(data: TranscriptionData): TranscriptionSegment[] {
+  return data.segments.filter(segment => segment.text.trim() || segment.words.length > 0);
+}
+
+function segmentText(segment: TranscriptionSegment): string {
+  if (segment.words.length > 0) {
+    return segment.words.map(word => word.word.trim()).filter(Boolean).join(' ');
+  }
+  return segment.text.trim();
+}
+
+// Cue text can't contain these raw: '<' starts a cue tag, '&' an entity
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// LRC ID tags for the song metadata
+function lrcHeader(options: LyricsExportOptions): string[] {
+  const lines: string[] = [];
+  if (options.title) lines.push(`[ti:${options.title}]`);
+  if (options.artist) lines.push(`[ar:${options.artist}]`);
+  if (options.album) lines.push(`[al:${options.album}]`);
+  if (options.duration) {
+    const mins = Math.floor(options.duration / 60);
+    const secs = Math.floor(options.duration % 60);
+    lines.push(`[length:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}]`);
+  }
+  return lines;
+}
+
+// Converters
+
+// Standard line-level LRC
+export function toLrc(data: TranscriptionData, options: LyricsExportOptions = {}): string {
+  const lines = lrcHeader(options);
+
+  for (const segment of visibleSegments(data)) {
+    lines.push(`[${formatLrcTime(segment.start)}]${segmentText(segment)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Enhanced LRC with a <mm:ss.xx> stamp before every word and one after the last
+export function toEnhancedLrc(data: TranscriptionData, options: LyricsExportOptions = {}): string {
+  const lines = lrcHeader(options);
+
+  for (const segment of visibleSegments(data)) {
+    if (segment.words.length === 0) {
+      lines.push(`[${formatLrcTime(segment.start)}]${segment.text.trim()}`);
+      continue;
+    }
+
+    const words = segment.words.map(word => `<${formatLrcTime(word.start)}>${word.word.trim()}`);
+    const end = segment.words[segment.words.length - 1].end;
+    lines.push(`[${formatLrcTime(segment.start)}]${words.join(' ')} <${formatLrcTime(end)}>`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// SubRip subtitles, one cue per segment
+export function toSrt(data: TranscriptionData): string {
+  return visibleSegments(data)
+    .map((segment, index) => [
+      `${index + 1}`,
+      `${formatSrtTime(segment.start)} --> ${formatSrtTime(segment.end)}`,
+      segmentText(segment)
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+// WebVTT subtitles, one cue per segment with a karaoke timestamp before each word
+export function toWebVtt(data: TranscriptionData, options: LyricsExportOptions = {}): string {
+  const header = options.title ? `WEBVTT - ${options.title}` : 'WEBVTT';
+
+  const cues = visibleSegments(data).map(segment => {
+    const timing = `${formatVttTime(segment.start)} --> ${formatVttTime(segment.end)}`;
+
+    if (segment.words.length === 0) {
+      return `${timing}\n${escapeVttText(segment.text.trim())}`;
+    }
+
+    // Timestamps have to fall strictly inside the cue, so the first word
+    // (which starts with the cue) doesn't get one
+    const text = segment.words
+      .map((word, index) => {
+        const label = escapeVttText(word.word.trim());
+        if (index === 0 || word.start <= segment.start || word.start >= segment.end) {
+          return label;
+        }
+        return `<${formatVttTime(word.start)}>${label}`;
+      })
+      .join(' ');
+
+    return `${timing}\n${text}`;
+  });
+
+  return [header, ...cues].join('\n\n') + '\n';
+}
+
+// Format registry used by the download menu
+
+export interface LyricsExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const LYRICS_EXPORT_FORMATS: Record<LyricsExportFormat, LyricsExportFormatInfo> = {
+  'lrc': { label: 'LRC', extension: 'lrc', mimeType: 'text/plain' },
+  'enhanced-lrc': { label: 'Enhanced LRC (word timing)', extension: 'lrc', mimeType: 'text/plain' },
+  'srt': { label: 'SRT subtitles', extension: 'srt', mimeType: 'application/x-subrip' },
+  'vtt': { label: 'WebVTT subtitles', extension: 'vtt', mimeType: 'text/vtt' }
+};
+
+// Convert to the requested format
+export function exportLyrics(
+  data: TranscriptionData,
+  format: LyricsExportFormat,
+  options: LyricsExportOptions = {}
+): string {
+  switch (format) {
+    case 'lrc':
+      return toLrc(data, options);
+    case 'enhanced-lrc':
+      return toEnhancedLrc(data, options);
+    case 'srt':
+      return toSrt(data);
+    case 'vtt':
+      return toWebVtt(data, options);
+  }
+}
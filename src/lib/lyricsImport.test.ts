@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionData, TranscriptionWord, ValidationError } from '@/types/api';
+import { MIN_WORD_DURATION } from './lyrics';
+import {
+  ESTIMATED_WORD_CONFIDENCE,
+  alignToTranscription,
+  detectLyricsFormat,
+  parseLrc,
+  parseSrt,
+  parseVtt
+} from './lyricsImport';
+
+const labels = (words: TranscriptionWord[]) => words.map(word => word.word);
+
+// Words must keep their order, not overlap and not collapse
+const expectPlayableWords = (words: TranscriptionWord[]) => {
+  words.forEach((word, index) => {
+    expect(word.end - word.start).toBeGreaterThanOrEqual(MIN_WORD_DURATION - 1e-9);
+    if (index > 0) expect(word.start).toBeGreaterThanOrEqual(words[index - 1].end - 1e-9);
+  });
+};
+
+describe('parseLrc', () => {
+  it('reads timed lines, skips ID tags and closes the last line at the song end', () => {
+    const parsed = parseLrc('[ti:Song]\n[ar:Band]\n[00:01.00]First line\n[00:03.50]Second line\n', { duration: 10 });
+
+    expect(parsed.segments.map(({ start, end, text }) => ({ start, end, text }))).toEqual([
+      { start: 1, end: 3.5, text: 'First line' },
+      { start: 3.5, end: 10, text: 'Second line' }
+    ]);
+    expect(parsed.text).toBe('First line Second line');
+  });
+
+  it('spreads the words of a plain line across it', () => {
+    const [line] = parseLrc('[00:01.00]First line\n[00:03.50]Second line').segments;
+
+    expect(labels(line.words)).toEqual(['First', 'line']);
+    expect(line.words[0].start).toBe(1);
+    expect(line.words[1].end).toBeCloseTo(3.5);
+    line.words.forEach(word => expect(word.confidence).toBe(ESTIMATED_WORD_CONFIDENCE));
+  });
+
+  it('gives the last line a default length without the song duration', () => {
+    const parsed = parseLrc('[00:01.00]Only line');
+
+    expect(parsed.segments[0].end).toBe(6);
+  });
+
+  it('applies [offset:], positive meaning earlier', () => {
+    const earlier = parseLrc('[offset:+500]\n[00:02.00]a\n[00:04.00]b');
+    expect(earlier.segments.map(segment => segment.start)).toEqual([1.5, 3.5]);
+
+    const later = parseLrc('[offset:-250]\n[00:02.00]a');
+    expect(later.segments[0].start).toBe(2.25);
+  });
+
+  it('repeats a line for each of its time tags, in song order', () => {
+    const parsed = parseLrc('[00:10.00][00:30.00]Chorus\n[00:20.00]Verse');
+
+    expect(parsed.segments.map(({ start, end, text }) => ({ start, end, text }))).toEqual([
+      { start: 10, end: 20, text: 'Chorus' },
+      { start: 20, end: 30, text: 'Verse' },
+      { start: 30, end: 35, text: 'Chorus' }
+    ]);
+  });
+
+  it('reads word timings and the line end from enhanced LRC', () => {
+    const [line] = parseLrc('[00:01.00]<00:01.00>Hello <00:01.50>world <00:02.20>\n[00:05.00]Next').segments;
+
+    expect(line.end).toBeCloseTo(2.2);
+    expect(line.words.map(({ word, start, end, confidence }) => ({ word, start, end, confidence }))).toEqual([
+      { word: 'Hello', start: 1, end: 1.5, confidence: 1 },
+      { word: 'world', start: 1.5, end: 2.2, confidence: 1 }
+    ]);
+  });
+
+  it('rejects files without timed lines', () => {
+    expect(() => parseLrc('[ti:Song]\nno timing here')).toThrow(ValidationError);
+  });
+});
+
+describe('parseSrt', () => {
+  it('reads cues with Windows line endings and multi-line text', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\nworld\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nAgain\r\n';
+    const parsed = parseSrt(srt);
+
+    expect(parsed.segments.map(({ start, end, text }) => ({ start, end, text }))).toEqual([
+      { start: 1, end: 2.5, text: 'Hello world' },
+      { start: 3, end: 4, text: 'Again' }
+    ]);
+    expect(labels(parsed.segments[0].words)).toEqual(['Hello', 'world']);
+  });
+});
+
+describe('parseVtt', () => {
+  const vtt = [
+    'WEBVTT - Song',
+    '',
+    '00:00:01.000 --> 00:00:03.000 align:start',
+    '<v Singer>Rock <00:00:02.000>&amp; roll</v>',
+    '',
+    '00:04.000 --> 00:05.000',
+    'I &lt;3 it'
+  ].join('\n');
+
+  it('reads cues with settings, short timestamps and voice tags', () => {
+    const parsed = parseVtt(vtt);
+
+    expect(parsed.segments.map(({ start, end, text }) => ({ start, end, text }))).toEqual([
+      { start: 1, end: 3, text: 'Rock & roll' },
+      { start: 4, end: 5, text: 'I <3 it' }
+    ]);
+  });
+
+  it('turns karaoke timestamps into word timings', () => {
+    const [cue] = parseVtt(vtt).segments;
+
+    expect(labels(cue.words)).toEqual(['Rock', '&', 'roll']);
+    expect(cue.words[0]).toMatchObject({ start: 1, end: 2, confidence: 1 });
+    expect(cue.words[1].start).toBe(2);
+    expect(cue.words[2].end).toBeCloseTo(3);
+  });
+});
+
+describe('detectLyricsFormat', () => {
+  it('goes by the extension, then by the content', () => {
+    expect(detectLyricsFormat('song.LRC', '')).toBe('lrc');
+    expect(detectLyricsFormat('lyrics.txt', 'WEBVTT\n\n00:01.000 --> 00:02.000\nhi')).toBe('vtt');
+    expect(detectLyricsFormat('lyrics.txt', '1\n00:00:01,000 --> 00:00:02,000\nhi')).toBe('srt');
+    expect(detectLyricsFormat('lyrics.txt', '[00:01.00]hi')).toBe('lrc');
+    expect(detectLyricsFormat('lyrics.txt', 'just words')).toBeNull();
+  });
+});
+
+describe('alignToTranscription', () => {
+  const word = (text: string, start: number, end: number, confidence = 0.9): TranscriptionWord =>
+    ({ word: text, start, end, confidence });
+
+  const transcriptionOf = (words: TranscriptionWord[]): TranscriptionData => ({
+    text: labels(words).join(' '),
+    language: 'en',
+    segments: [{ start: words[0].start, end: words[words.length - 1].end, text: labels(words).join(' '), words }]
+  });
+
+  // One imported line, 10-14 s, with evenly spread words
+  const imported = parseLrc('[00:10.00]Oh we will rock you', { duration: 14 });
+
+  it('takes the timings of matching words and fills the gaps between them', () => {
+    const reference = transcriptionOf([word('We', 10.2, 10.6), word('rock', 11, 11.5), word('you', 12, 12.6)]);
+    const [line] = alignToTranscription(imported, reference).segments;
+
+    expect(labels(line.words)).toEqual(['Oh', 'we', 'will', 'rock', 'you']);
+    expect(line.words[1]).toMatchObject({ start: 10.2, end: 10.6, confidence: 0.9 });
+    expect(line.words[2]).toMatchObject({ start: 10.6, end: 11 });
+    expect(line.words[4]).toMatchObject({ start: 12, end: 12.6 });
+    // The unmatched first word has the start of the line to itself
+    expect(line.words[0]).toMatchObject({ start: 10, end: 10.2 });
+    expectPlayableWords(line.words);
+  });
+
+  it('makes room for unmatched words before a match that starts before the line', () => {
+    const reference = transcriptionOf([word('we', 9.5, 9.9), word('will', 9.9, 10.4), word('rock', 11, 11.5)]);
+    const [line] = alignToTranscription(imported, reference).segments;
+
+    expect(line.words[0].end).toBeLessThanOrEqual(9.5);
+    expect(line.start).toBe(line.words[0].start);
+    expectPlayableWords(line.words);
+  });
+
+  it('makes room for unmatched words between matches that touch', () => {
+    const reference = transcriptionOf([word('oh', 10, 11), word('will', 11, 12), word('rock', 12, 12.5)]);
+    const [line] = alignToTranscription(imported, reference).segments;
+
+    expect(labels(line.words)).toEqual(['Oh', 'we', 'will', 'rock', 'you']);
+    expectPlayableWords(line.words);
+  });
+
+  it('leaves the import alone when nothing matches', () => {
+    const reference = transcriptionOf([word('something', 10, 11), word('else', 11, 12)]);
+
+    expect(alignToTranscription(imported, reference)).toBe(imported);
+  });
+});
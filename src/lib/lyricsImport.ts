@@ -0,0 +1,443 @@
+// Lyrics import
+// Parses LRC / enhanced LRC / SRT / WebVTT files into TranscriptionData and
+// optionally aligns their words to the machine transcription's word timings
+
+import {
+  TranscriptionData,
+  TranscriptionSegment,
+  TranscriptionWord,
+  ValidationError
+} from '@/types/api';
+import { MIN_WORD_DURATION, normalizeTranscription } from '@/lib/lyrics';
+
+export type LyricsImportFormat = 'lrc' | 'srt' | 'vtt';
+
+export interface LyricsImportOptions {
+  // Song length, used to close the last LRC line
+  duration?: number;
+  language?: string;
+}
+
+// Words without their own timing get this confidence so they can be told apart
+export const ESTIMATED_WORD_CONFIDENCE = 0;
+
+// How long the last LRC line lasts when we don't know the song length
+const DEFAULT_LAST_LINE_LENGTH = 5;
+
+// Time parsing
+
+// mm:ss.xx or mm:ss:xx (LRC)
+function parseLrcTime(value: string): number | null {
+  const match = value.trim().match(/^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/);
+  if (!match) return null;
+
+  const mins = parseInt(match[1], 10);
+  const secs = parseInt(match[2], 10);
+  const fraction = match[3] ? parseInt(match[3], 10) / Math.pow(10, match[3].length) : 0;
+  return mins * 60 + secs + fraction;
+}
+
+// hh:mm:ss,mmm (SRT) or [hh:]mm:ss.mmm (WebVTT)
+function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+  if (!match) return null;
+
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const mins = parseInt(match[2], 10);
+  const secs = parseInt(match[3], 10);
+  const millis = parseInt(match[4].padEnd(3, '0'), 10);
+  return hours * 3600 + mins * 60 + secs + millis / 1000;
+}
+
+// Word helpers
+
+// Spread words evenly (by character count) across start..end, each getting
+// at least `minLength` when there is room for it
+function estimateWords(text: string, start: number, end: number, minLength = 0): TranscriptionWord[] {
+  const labels = text.split(/\s+/).filter(Boolean);
+  if (labels.length === 0) return [];
+
+  const totalChars = labels.reduce((sum, label) => sum + label.length, 0);
+  const length = Math.max(0, end - start);
+  const reserved = Math.min(minLength, length / labels.length);
+
+  let cursor = start;
+  return labels.map(label => {
+    const wordLength = reserved + (label.length / totalChars) * (length - reserved * labels.length);
+    const word: TranscriptionWord = {
+      word: label,
+      start: cursor,
+      end: cursor + wordLength,
+      confidence: ESTIMATED_WORD_CONFIDENCE
+    };
+    cursor += wordLength;
+    return word;
+  });
+}
+
+// Words from a line with inline timestamps, e.g. "<00:01.00>hello <00:01.50>world <00:02.00>"
+function parseTimedWords(
+  text: string,
+  tagPattern: RegExp,
+  parseTime: (value: string) => number | null,
+  lineStart: number,
+  lineEnd: number
+): TranscriptionWord[] | null {
+  const parts = text.split(tagPattern);
+  // split() with a capture group alternates text, time, text, time, ...
+  if (parts.length < 3) return null;
+
+  const stamps: Array<{ time: number; text: string }> = [];
+  if (parts[0].trim()) {
+    stamps.push({ time: lineStart, text: parts[0] });
+  }
+  for (let i = 1; i < parts.length; i += 2) {
+    const time = parseTime(parts[i]);
+    if (time === null) return null;
+    stamps.push({ time, text: parts[i + 1] || '' });
+  }
+
+  const words: TranscriptionWord[] = [];
+  stamps.forEach((stamp, index) => {
+    const next = stamps[index + 1];
+    const end = next ? next.time : lineEnd;
+    const label = stamp.text.trim();
+    if (!label) return;
+
+    // A stamp can cover several words ("<00:01.00>oh yeah"); spread them out
+    words.push(...estimateWords(label, stamp.time, Math.max(end, stamp.time)).map(word => ({
+      ...word,
+      confidence: 1
+    })));
+  });
+
+  return words;
+}
+
+function buildTranscription(segments: TranscriptionSegment[], options: LyricsImportOptions): TranscriptionData {
+  if (segments.length === 0) {
+    throw new ValidationError('No timed lyrics found in file');
+  }
+
+  return normalizeTranscription({
+    text: '',
+    language: options.language || 'unknown',
+    segments
+  });
+}
+
+// Parsers
+
+export function parseLrc(content: string, options: LyricsImportOptions = {}): TranscriptionData {
+  let offset = 0;
+  const lines: Array<{ start: number; text: string }> = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // [offset:+/-ms] shifts every timestamp (positive = earlier)
+    const offsetMatch = line.match(/^\[offset:\s*([+-]?\d+)\s*\]$/i);
+    if (offsetMatch) {
+      offset = parseInt(offsetMatch[1], 10) / 1000;
+      continue;
+    }
+
+    // A line can carry several time tags: [00:12.00][01:30.00]chorus text
+    const tags: number[] = [];
+    let rest = line;
+    let tagMatch: RegExpMatchArray | null;
+    while ((tagMatch = rest.match(/^\[([^\]]+)\]/))) {
+      const time = parseLrcTime(tagMatch[1]);
+      if (time === null) break;
+      tags.push(time);
+      rest = rest.slice(tagMatch[0].length);
+    }
+
+    // ID tags ([ti:...], [ar:...]) and untimed lines are skipped
+    if (tags.length === 0) continue;
+
+    for (const time of tags) {
+      lines.push({ start: Math.max(0, time - offset), text: rest });
+    }
+  }
+
+  lines.sort((a, b) => a.start - b.start);
+
+  const segments: TranscriptionSegment[] = [];
+  lines.forEach((line, index) => {
+    const next = lines[index + 1];
+    const fallbackEnd = options.duration && options.duration > line.start
+      ? options.duration
+      : line.start + DEFAULT_LAST_LINE_LENGTH;
+    let end = next ? next.start : fallbackEnd;
+
+    const timedWords = parseTimedWords(
+      line.text,
+      /<([^>]+)>/,
+      value => {
+        const time = parseLrcTime(value);
+        return time === null ? null : Math.max(0, time - offset);
+      },
+      line.start,
+      end
+    );
+
+    // Enhanced LRC carries the real line end as its last word stamp
+    if (timedWords && timedWords.length > 0) {
+      end = Math.min(end, Math.max(timedWords[timedWords.length - 1].end, line.start));
+    }
+
+    const text = line.text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!text) return;
+
+    segments.push({
+      start: line.start,
+      end,
+      text,
+      words: timedWords && timedWords.length > 0 ? timedWords : estimateWords(text, line.start, end)
+    });
+  });
+
+  return buildTranscription(segments, options);
+}
+
+// WebVTT escapes these in cue text
+function decodeVttEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// Shared cue parser for SRT and WebVTT
+function parseCues(content: string, format: 'srt' | 'vtt', options: LyricsImportOptions): TranscriptionData {
+  const blocks = content.replace(/\r\n/g, '\n').split(/\n{2,}/);
+  const segments: TranscriptionSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split('-->');
+    const start = parseClockTime(startPart);
+    // WebVTT cue settings can follow the end time ("00:00:02.000 align:start")
+    const end = parseClockTime((endPart || '').trim().split(/\s+/)[0] || '');
+    if (start === null || end === null) continue;
+
+    const rawText = lines.slice(timingIndex + 1).join(' ');
+
+    // WebVTT karaoke timestamps become word timings
+    const timedWords = format === 'vtt'
+      ? parseTimedWords(
+          rawText.replace(/<\/?(?:c|v|b|i|u|ruby|rt|lang)(?:[.\s][^>]*)?>/g, ''),
+          /<(\d[\d:.]*)>/,
+          parseClockTime,
+          start,
+          end
+        )
+      : null;
+
+    const strippedText = rawText
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const text = format === 'vtt' ? decodeVttEntities(strippedText) : strippedText;
+    if (!text) continue;
+
+    segments.push({
+      start,
+      end,
+      text,
+      words: timedWords && timedWords.length > 0
+        ? timedWords.map(word => ({ ...word, word: decodeVttEntities(word.word) }))
+        : estimateWords(text, start, end)
+    });
+  }
+
+  return buildTranscription(segments, options);
+}
+
+export function parseSrt(content: string, options: LyricsImportOptions = {}): TranscriptionData {
+  return parseCues(content, 'srt', options);
+}
+
+export function parseVtt(content: string, options: LyricsImportOptions = {}): TranscriptionData {
+  return parseCues(content, 'vtt', options);
+}
+
+// Work out the format from the file extension, falling back to the content
+export function detectLyricsFormat(filename: string, content: string): LyricsImportFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'lrc' || extension === 'srt' || extension === 'vtt') {
+    return extension;
+  }
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+  if (/^\d+\s*\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(trimmed)) return 'srt';
+  if (/^\[\d+:\d{1,2}([.:]\d+)?\]/m.test(trimmed) || /^\[(ti|ar|al):/im.test(trimmed)) return 'lrc';
+
+  return null;
+}
+
+export function parseLyricsFile(
+  content: string,
+  filename: string,
+  options: LyricsImportOptions = {}
+): TranscriptionData {
+  const format = detectLyricsFormat(filename, content);
+
+  switch (format) {
+    case 'lrc':
+      return parseLrc(content, options);
+    case 'srt':
+      return parseSrt(content, options);
+    case 'vtt':
+      return parseVtt(content, options);
+    default:
+      throw new ValidationError('Unsupported lyrics format. Supported formats: LRC, SRT, VTT');
+  }
+}
+
+// Alignment
+
+// How far (in seconds) a reference word may be from its imported line and still match
+const ALIGN_TOLERANCE = 2;
+
+function normalizeToken(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '').replace(/'/g, '');
+}
+
+interface FlatWord {
+  segmentIndex: number;
+  word: TranscriptionWord;
+  token: string;
+}
+
+function flatten(data: TranscriptionData): FlatWord[] {
+  return data.segments.flatMap((segment, segmentIndex) =>
+    segment.words.map(word => ({ segmentIndex, word, token: normalizeToken(word.word) }))
+  );
+}
+
+// Give imported words the reference transcription's timings where the text
+// matches (longest common subsequence, restricted to words near the imported
+// line). Words in between are spread across the gaps left by the matches.
+export function alignToTranscription(
+  imported: TranscriptionData,
+  reference: TranscriptionData
+): TranscriptionData {
+  const source = flatten(imported);
+  const target = flatten(reference);
+  if (source.length === 0 || target.length === 0) return imported;
+
+  const canMatch = (a: FlatWord, b: FlatWord) => {
+    if (!a.token || a.token !== b.token) return false;
+    const segment = imported.segments[a.segmentIndex];
+    return b.word.start >= segment.start - ALIGN_TOLERANCE && b.word.start <= segment.end + ALIGN_TOLERANCE;
+  };
+
+  // LCS table (n+1) x (m+1), stored flat
+  const n = source.length;
+  const m = target.length;
+  const table = new Uint16Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = canMatch(source[i], target[j])
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+
+  // Walk the table to find the matched pairs
+  const matches = new Map<number, TranscriptionWord>();
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (canMatch(source[i], target[j]) && table[i * (m + 1) + j] === table[(i + 1) * (m + 1) + j + 1] + 1) {
+      matches.set(i, target[j].word);
+      i++;
+      j++;
+    } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  if (matches.size === 0) return imported;
+
+  // Rebuild each segment's words
+  let flatIndex = 0;
+  const segments = imported.segments.map(segment => {
+    const count = segment.words.length;
+    const indices = Array.from({ length: count }, (_, k) => flatIndex + k);
+    flatIndex += count;
+
+    const words: TranscriptionWord[] = segment.words.map((word, k) => {
+      const match = matches.get(indices[k]);
+      return match
+        ? { ...word, start: match.start, end: match.end, confidence: match.confidence }
+        : { ...word };
+    });
+
+    // Fill runs of unmatched words between their matched neighbours
+    let k = 0;
+    while (k < count) {
+      if (matches.has(indices[k])) {
+        k++;
+        continue;
+      }
+
+      let runEnd = k;
+      while (runEnd < count && !matches.has(indices[runEnd])) runEnd++;
+
+      const previous = k > 0 ? words[k - 1] : null;
+      const next = runEnd < count ? words[runEnd] : null;
+      const needed = (runEnd - k) * MIN_WORD_DURATION;
+
+      // Between the matched neighbours, or out to the edges of the line
+      let gapStart = previous ? previous.end : segment.start;
+      let gapEnd = next ? next.start : segment.end;
+      if (gapEnd - gapStart < needed) {
+        // No room, e.g. the first match starts before the imported line does.
+        // Widen the gap around its middle and trim the matches next to it.
+        const middle = previous && next
+          ? (gapStart + gapEnd) / 2
+          : previous ? gapStart + needed / 2 : gapEnd - needed / 2;
+        gapStart = Math.max(previous ? previous.start + MIN_WORD_DURATION : 0, middle - needed / 2);
+        gapEnd = gapStart + needed;
+        if (previous) words[k - 1] = { ...previous, end: Math.min(previous.end, gapStart) };
+        if (next) words[runEnd] = { ...next, start: Math.max(next.start, gapEnd) };
+      }
+
+      const run = estimateWords(
+        words.slice(k, runEnd).map(word => word.word.trim()).join(' '),
+        gapStart,
+        gapEnd,
+        MIN_WORD_DURATION
+      );
+      // estimateWords re-splits on whitespace; only use it if the words line up
+      if (run.length === runEnd - k) {
+        run.forEach((estimated, offset) => {
+          words[k + offset] = { ...words[k + offset], start: estimated.start, end: estimated.end };
+        });
+      }
+
+      k = runEnd;
+    }
+
+    // Matched words may sit slightly outside the imported line
+    return {
+      ...segment,
+      words,
+      start: count > 0 ? Math.min(segment.start, words[0].start) : segment.start,
+      end: count > 0 ? Math.max(segment.end, words[count - 1].end) : segment.end
+    };
+  });
+
+  return normalizeTranscription({ ...imported, segments });
+}
@@ -0,0 +1,45 @@
+// Local persistence for edited lyrics
+// Edited transcriptions are kept in localStorage, keyed by job id
+
+import { TranscriptionData } from '@/types/api';
+
+const STORAGE_PREFIX = 'karaoke:lyrics:';
+
+function storageKey(jobId: string): string {
+  return `${STORAGE_PREFIX}${jobId}`;
+}
+
+// Load the edited transcription for a job, if one was saved
+export function loadEditedTranscription(jobId: string): TranscriptionData | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const raw = window.localStorage.getItem(storageKey(jobId));
+    if (!raw) return null;
+
+    const data = JSON.parse(raw) as TranscriptionData;
+    if (!Array.isArray(data.segments)) return null;
+
+    return data;
+  } catch (error) {
+    console.error('Failed to load edited lyrics:', error);
+    return null;
+  }
+}
+
+// Save the edited transcription for a job
+export function saveEditedTranscription(jobId: string, data: TranscriptionData): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(storageKey(jobId), JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to save edited lyrics:', error);
+  }
+}
+
+// Forget the edited transcription for a job
+export function clearEditedTranscription(jobId: string): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(storageKey(jobId));
+}
@@ -0,0 +1,77 @@
+// Metronome click track
+// Click sounds and beat lookups for the click track AudioEngine schedules
+// from the beat analysis
+
+export interface ClickTrackState {
+  enabled: boolean;
+  volume: number; // 0-100
+  isMuted: boolean;
+  // Play one bar of clicks before playback starts
+  countIn: boolean;
+}
+
+export interface ClickSounds {
+  accent: AudioBuffer; // downbeats
+  beat: AudioBuffer;
+}
+
+export const DEFAULT_CLICK_TRACK_STATE: ClickTrackState = {
+  enabled: false,
+  volume: 70,
+  isMuted: false,
+  countIn: true
+};
+
+const CLICK_SECONDS = 0.04;
+const ACCENT_FREQUENCY = 1760;
+const BEAT_FREQUENCY = 1175;
+
+// Used when there aren't enough beats to measure the spacing
+const FALLBACK_BEAT_INTERVAL = 0.5;
+// Beats either side of a position used to measure the local tempo
+const INTERVAL_WINDOW = 4;
+
+// A short sine blip with a fast exponential decay
+function createClick(context: BaseAudioContext, frequency: number, gain: number): AudioBuffer {
+  const length = Math.round(CLICK_SECONDS * context.sampleRate);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    const t = i / context.sampleRate;
+    data[i] = gain * Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t * 120);
+  }
+  return buffer;
+}
+
+export function createClickSounds(context: BaseAudioContext): ClickSounds {
+  return {
+    accent: createClick(context, ACCENT_FREQUENCY, 1),
+    beat: createClick(context, BEAT_FREQUENCY, 0.7)
+  };
+}
+
+// Index of the first beat at or after `time` (beatTimes.length if none)
+export function findBeatIndex(beatTimes: number[], time: number): number {
+  let low = 0;
+  let high = beatTimes.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (beatTimes[mid] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Median spacing of the beats around `time`, in song seconds
+export function getBeatInterval(beatTimes: number[], time: number): number {
+  const index = findBeatIndex(beatTimes, time);
+  const nearby = beatTimes.slice(Math.max(0, index - INTERVAL_WINDOW), index + INTERVAL_WINDOW + 1);
+  const intervals = nearby.slice(1).map((beat, i) => beat - nearby[i]).filter(interval => interval > 0);
+  if (intervals.length === 0) return FALLBACK_BEAT_INTERVAL;
+
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+}
@@ -0,0 +1,256 @@
+// Microphone input
+// Live mic chain owned by AudioEngine:
+//   mic -> input gain -> [effects] -> monitor -> destination
+// with the effects (also used when rendering recorded takes):
+//   input -+-> dry -----------------+
+//          +-> convolver -> reverb -+-> output
+//          +-> delay <-> feedback --+
+//                 \-> echo ---------/
+// An analyser on the input gain drives the level meter and live pitch
+// detection, and takes are recorded from the input gain, before any effects.
+
+import { detectPitch } from './pitch';
+
+export interface MicSettings {
+  inputGain: number; // 0-100, 50 = unity
+  monitor: boolean; // hear yourself through the speakers/headphones
+  reverb: number; // 0-100 wet level
+  echo: number; // 0-100 wet level
+  echoTime: number; // seconds
+  echoFeedback: number; // 0-90 (%)
+}
+
+export interface MicStatus {
+  isActive: boolean;
+  deviceId: string | null;
+  deviceLabel: string | null;
+  // Estimated time from singing to hearing yourself, in seconds
+  latency: number;
+}
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Reverb and echo for a voice signal
+export interface MicEffects {
+  input: AudioNode;
+  output: AudioNode;
+  // Ramps to new settings (only the effect settings are used)
+  update: (settings: MicSettings) => void;
+}
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  inputGain: 50,
+  monitor: false,
+  reverb: 25,
+  echo: 0,
+  echoTime: 0.3,
+  echoFeedback: 35
+};
+
+export const INACTIVE_MIC_STATUS: MicStatus = {
+  isActive: false,
+  deviceId: null,
+  deviceLabel: null,
+  latency: 0
+};
+
+// Monitoring with more latency than this is distracting to sing against
+export const MAX_COMFORTABLE_MONITOR_LATENCY = 0.03;
+
+const REVERB_SECONDS = 2.5;
+const REVERB_DECAY = 3;
+const MAX_ECHO_TIME = 1;
+const RAMP_TIME = 0.02;
+
+// Labels are empty until the user has granted microphone access once
+export async function listAudioInputDevices(): Promise<AudioInputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`
+    }));
+}
+
+// Decaying stereo noise makes a serviceable room impulse response
+function createReverbImpulse(context: BaseAudioContext): AudioBuffer {
+  const length = Math.round(REVERB_SECONDS * context.sampleRate);
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let c = 0; c < impulse.numberOfChannels; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** REVERB_DECAY;
+    }
+  }
+  return impulse;
+}
+
+export function createMicEffects(context: BaseAudioContext, settings: MicSettings): MicEffects {
+  const input = context.createGain();
+  const dryGain = context.createGain();
+  const convolver = context.createConvolver();
+  convolver.buffer = createReverbImpulse(context);
+  const reverbGain = context.createGain();
+  const delay = context.createDelay(MAX_ECHO_TIME);
+  const feedbackGain = context.createGain();
+  const echoGain = context.createGain();
+  const output = context.createGain();
+
+  input.connect(dryGain);
+  dryGain.connect(output);
+
+  input.connect(convolver);
+  convolver.connect(reverbGain);
+  reverbGain.connect(output);
+
+  input.connect(delay);
+  delay.connect(feedbackGain);
+  feedbackGain.connect(delay);
+  delay.connect(echoGain);
+  echoGain.connect(output);
+
+  const targets = (next: MicSettings): [AudioParam, number][] => [
+    [reverbGain.gain, next.reverb / 100],
+    [echoGain.gain, next.echo / 100],
+    [feedbackGain.gain, Math.min(90, next.echoFeedback) / 100],
+    [delay.delayTime, Math.max(0.01, Math.min(MAX_ECHO_TIME, next.echoTime))]
+  ];
+
+  // Start at the given settings rather than ramping from the defaults
+  targets(settings).forEach(([param, value]) => { param.value = value; });
+
+  return {
+    input,
+    output,
+    update: (next: MicSettings) => {
+      const now = context.currentTime;
+      targets(next).forEach(([param, value]) => param.setTargetAtTime(value, now, RAMP_TIME));
+    }
+  };
+}
+
+export class MicrophoneInput {
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private inputGain: GainNode;
+  private analyser: AnalyserNode;
+  private effects: MicEffects;
+  private monitorGain: GainNode;
+  private levelData: Float32Array<ArrayBuffer>;
+  private settings: MicSettings;
+
+  constructor(private context: AudioContext, destination: AudioNode, settings: MicSettings) {
+    this.settings = settings;
+
+    this.inputGain = context.createGain();
+    this.analyser = context.createAnalyser();
+    // Long enough for pitch detection down to the lowest sung notes
+    this.analyser.fftSize = 2048;
+    this.levelData = new Float32Array(this.analyser.fftSize);
+
+    this.effects = createMicEffects(context, settings);
+    this.monitorGain = context.createGain();
+
+    this.inputGain.connect(this.analyser);
+    this.inputGain.connect(this.effects.input);
+    this.effects.output.connect(this.monitorGain);
+    this.monitorGain.connect(destination);
+
+    this.applySettings();
+  }
+
+  get isActive(): boolean {
+    return this.stream !== null;
+  }
+
+  async start(deviceId?: string): Promise<void> {
+    this.stop();
+
+    // Voice processing adds latency and fights with the reverb
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false
+      }
+    });
+
+    this.source = this.context.createMediaStreamSource(this.stream);
+    this.source.connect(this.inputGain);
+  }
+
+  stop(): void {
+    this.source?.disconnect();
+    this.source = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  updateSettings(settings: MicSettings): void {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  // The mic signal after the input gain but before the effects, so recorded
+  // takes can be rendered with different reverb/echo later
+  getRecordingNode(): AudioNode {
+    return this.inputGain;
+  }
+
+  // Peak input level, 0-1
+  getLevel(): number {
+    if (!this.isActive) return 0;
+
+    this.analyser.getFloatTimeDomainData(this.levelData);
+    let peak = 0;
+    for (let i = 0; i < this.levelData.length; i++) {
+      peak = Math.max(peak, Math.abs(this.levelData[i]));
+    }
+    return Math.min(1, peak);
+  }
+
+  // Sung pitch right now, in MIDI notes, or null when not singing
+  getPitch(): number | null {
+    if (!this.isActive) return null;
+
+    this.analyser.getFloatTimeDomainData(this.levelData);
+    return detectPitch(this.levelData, this.context.sampleRate);
+  }
+
+  getStatus(): MicStatus {
+    const track = this.stream?.getAudioTracks()[0];
+    if (!track) return INACTIVE_MIC_STATUS;
+
+    // Input latency is only reported by some browsers
+    const inputLatency = (track.getSettings() as MediaTrackSettings & { latency?: number }).latency ?? 0;
+    const outputLatency = this.context.baseLatency + (this.context.outputLatency || 0);
+
+    return {
+      isActive: true,
+      deviceId: track.getSettings().deviceId ?? null,
+      deviceLabel: track.label || null,
+      latency: inputLatency + outputLatency
+    };
+  }
+
+  dispose(): void {
+    this.stop();
+    this.monitorGain.disconnect();
+  }
+
+  private applySettings(): void {
+    const now = this.context.currentTime;
+    const ramp = (param: AudioParam, value: number) => param.setTargetAtTime(value, now, RAMP_TIME);
+
+    ramp(this.inputGain.gain, (this.settings.inputGain / 50) ** 2);
+    ramp(this.monitorGain.gain, this.settings.monitor ? 1 : 0);
+    this.effects.update(this.settings);
+  }
+}
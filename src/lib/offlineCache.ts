@@ -0,0 +1,133 @@
+// Offline song cache
+// Opt-in copies of a song's stems, lyrics and beat data in Cache Storage, so
+// it can still be sung after the backend deletes the job (24h retention).
+// Each song gets its own cache, keyed by the URLs the studio loads, which
+// makes serving from it a lookup and evicting a song a single delete.
+
+export interface OfflineSong {
+  jobId: string;
+  bytes: number;
+  fileCount: number;
+  savedAt: number; // ms
+}
+
+export interface StorageUsage {
+  usage: number; // bytes used by this site
+  quota: number; // bytes the browser allows it
+}
+
+export interface OfflineSaveProgress {
+  done: number;
+  total: number;
+}
+
+const CACHE_PREFIX = 'karaoke-offline:';
+// Written last, so its presence means the copy is complete
+const MANIFEST_URL = '/offline-manifest.json';
+
+const getCacheName = (jobId: string): string => `${CACHE_PREFIX}${jobId}`;
+
+export function isOfflineCacheSupported(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+// A cached response for the URL, from any song kept offline. The query is
+// ignored: a file asked for inline (?inline=true) or as a download is the same.
+export async function matchOfflineFile(url: string): Promise<Response | null> {
+  if (!isOfflineCacheSupported()) return null;
+
+  try {
+    const response = await caches.match(url, { ignoreSearch: true });
+    return response ?? null;
+  } catch (error) {
+    console.warn('Failed to read the offline cache:', error);
+    return null;
+  }
+}
+
+// Serves a file from the offline cache when it's there, from the network otherwise
+export async function fetchWithOfflineCache(url: string, init?: RequestInit): Promise<Response> {
+  return (await matchOfflineFile(url)) ?? fetch(url, init);
+}
+
+export async function getOfflineSong(jobId: string): Promise<OfflineSong | null> {
+  if (!isOfflineCacheSupported() || !(await caches.has(getCacheName(jobId)))) return null;
+
+  const cache = await caches.open(getCacheName(jobId));
+  const manifest = await cache.match(MANIFEST_URL);
+  return manifest ? (manifest.json() as Promise<OfflineSong>) : null;
+}
+
+export async function listOfflineSongs(): Promise<OfflineSong[]> {
+  if (!isOfflineCacheSupported()) return [];
+
+  const names = (await caches.keys()).filter(name => name.startsWith(CACHE_PREFIX));
+  const songs = await Promise.all(names.map(name => getOfflineSong(name.slice(CACHE_PREFIX.length))));
+  return songs.filter((song): song is OfflineSong => song !== null);
+}
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+// Downloads every file into the song's cache. A failed or aborted save
+// removes the partial copy.
+export async function saveOfflineSong(
+  jobId: string,
+  urls: string[],
+  onProgress?: (progress: OfflineSaveProgress) => void,
+  signal?: AbortSignal
+): Promise<OfflineSong> {
+  if (!isOfflineCacheSupported()) {
+    throw new Error('Offline songs are not supported in this browser');
+  }
+
+  // Ask the browser not to evict the cache under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  const cache = await caches.open(getCacheName(jobId));
+  let bytes = 0;
+
+  try {
+    for (const [index, url] of urls.entries()) {
+      signal?.throwIfAborted();
+      onProgress?.({ done: index, total: urls.length });
+
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`Failed to download ${url.split('/').pop()?.split('?')[0]}: ${response.statusText || response.status}`);
+      }
+
+      const body = await response.blob();
+      bytes += body.size;
+      await cache.put(url, new Response(body, {
+        headers: { 'Content-Type': response.headers.get('content-type') || body.type }
+      }));
+    }
+
+    const song: OfflineSong = { jobId, bytes, fileCount: urls.length, savedAt: Date.now() };
+    await cache.put(MANIFEST_URL, new Response(JSON.stringify(song), {
+      headers: { 'Content-Type': 'application/json' }
+    }));
+    onProgress?.({ done: urls.length, total: urls.length });
+
+    return song;
+  } catch (error) {
+    await caches.delete(getCacheName(jobId));
+    if (isQuotaError(error)) {
+      throw new Error('Not enough storage space to keep this song offline');
+    }
+    throw error;
+  }
+}
+
+export async function removeOfflineSong(jobId: string): Promise<void> {
+  if (!isOfflineCacheSupported()) return;
+  await caches.delete(getCacheName(jobId));
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
@@ -0,0 +1,267 @@
+// Vocal pitch tracking
+// YIN pitch detection over a mono signal, and quantizing the resulting
+// contour into notes (the "target melody"). Pure functions, so they run in
+// the pitch analysis worker.
+
+export interface PitchNote {
+  start: number; // seconds
+  end: number;
+  midi: number; // MIDI note number (60 = C4)
+}
+
+export interface PitchAnalysis {
+  // Contour frames are `frameDuration` seconds apart, starting at 0
+  frameDuration: number;
+  // Detected pitch per frame in (fractional) MIDI notes, null when unvoiced
+  contour: (number | null)[];
+  notes: PitchNote[];
+}
+
+export interface PitchDetectionOptions {
+  minFrequency: number; // Hz
+  maxFrequency: number;
+  windowSize: number; // samples
+  hopSize: number; // samples
+  // YIN aperiodicity threshold; lower is stricter about what counts as voiced
+  threshold: number;
+  // Frames quieter than this RMS are treated as silence
+  silenceRms: number;
+}
+
+export type PitchWorkerRequest = {
+  type: 'analyze';
+  samples: Float32Array<ArrayBuffer>;
+  sampleRate: number;
+};
+
+export type PitchWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; analysis: PitchAnalysis }
+  | { type: 'error'; message: string };
+
+// Singing voice range, analysed at 11.025 kHz (plenty for fundamentals up to ~1 kHz)
+export const PITCH_ANALYSIS_SAMPLE_RATE = 11025;
+
+export const DEFAULT_PITCH_DETECTION_OPTIONS: PitchDetectionOptions = {
+  minFrequency: 70,
+  maxFrequency: 1000,
+  windowSize: 512,
+  hopSize: 220, // 20 ms
+  threshold: 0.15,
+  silenceRms: 0.01
+};
+
+// Frames either side in the median filter that removes octave blips
+const SMOOTHING_RADIUS = 2;
+// Shorter notes are ornaments or detection noise
+const MIN_NOTE_DURATION = 0.1;
+// Notes of the same pitch separated by less than this are joined
+const MAX_NOTE_GAP = 0.06;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export function frequencyToMidi(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / 440);
+}
+
+export function midiToNoteName(midi: number): string {
+  const rounded = Math.round(midi);
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+}
+
+// YIN (de Cheveigné & Kawahara, 2002) on one window starting at `offset`.
+// Returns the fundamental in Hz, or null when the window isn't periodic enough.
+function detectFrameFrequency(
+  samples: Float32Array,
+  offset: number,
+  sampleRate: number,
+  options: PitchDetectionOptions,
+  difference: Float32Array
+): number | null {
+  const { windowSize, threshold } = options;
+  const minLag = Math.floor(sampleRate / options.maxFrequency);
+  const maxLag = Math.min(difference.length - 1, Math.ceil(sampleRate / options.minFrequency));
+
+  // Difference function
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = samples[offset + i] - samples[offset + i + lag];
+      sum += delta * delta;
+    }
+    difference[lag] = sum;
+  }
+
+  // Cumulative mean normalized difference
+  difference[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += difference[lag];
+    difference[lag] = runningSum > 0 ? (difference[lag] * lag) / runningSum : 1;
+  }
+
+  // First dip under the threshold, followed down to its minimum
+  let lag = minLag;
+  while (lag <= maxLag && difference[lag] >= threshold) lag++;
+  if (lag > maxLag) return null;
+  while (lag + 1 <= maxLag && difference[lag + 1] < difference[lag]) lag++;
+
+  // Parabolic interpolation between neighbouring lags
+  let period = lag;
+  if (lag > 1 && lag < maxLag) {
+    const previous = difference[lag - 1];
+    const next = difference[lag + 1];
+    const curvature = previous + next - 2 * difference[lag];
+    if (curvature > 0) {
+      period = lag + (previous - next) / (2 * curvature);
+    }
+  }
+
+  return sampleRate / period;
+}
+
+// Pitch of one block of samples (e.g. live mic input) in MIDI notes, or null
+// when it's silent or unvoiced. The block must be longer than the longest
+// period; whatever is left over is the analysis window.
+export function detectPitch(
+  samples: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = DEFAULT_PITCH_DETECTION_OPTIONS
+): number | null {
+  const maxLag = Math.ceil(sampleRate / options.minFrequency);
+  const windowSize = samples.length - maxLag;
+  if (windowSize < maxLag) return null;
+
+  let energy = 0;
+  for (let i = 0; i < windowSize; i++) {
+    energy += samples[i] * samples[i];
+  }
+  if (Math.sqrt(energy / windowSize) < options.silenceRms) return null;
+
+  const difference = new Float32Array(maxLag + 1);
+  const frequency = detectFrameFrequency(samples, 0, sampleRate, { ...options, windowSize }, difference);
+  return frequency === null ? null : frequencyToMidi(frequency);
+}
+
+// Pitch contour of a mono signal, one frame per `hopSize` samples
+export function detectPitchContour(
+  samples: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = DEFAULT_PITCH_DETECTION_OPTIONS,
+  onProgress?: (progress: number) => void
+): (number | null)[] {
+  const { windowSize, hopSize, silenceRms } = options;
+  const maxLag = Math.ceil(sampleRate / options.minFrequency);
+  const difference = new Float32Array(maxLag + 1);
+  const frameCount = Math.max(0, Math.floor((samples.length - windowSize - maxLag) / hopSize) + 1);
+  const contour: (number | null)[] = new Array(frameCount);
+
+  // Frames are centred on their timestamp
+  const centre = Math.floor(windowSize / 2);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = Math.max(0, frame * hopSize - centre);
+
+    let energy = 0;
+    for (let i = 0; i < windowSize; i++) {
+      energy += samples[offset + i] * samples[offset + i];
+    }
+
+    if (Math.sqrt(energy / windowSize) < silenceRms) {
+      contour[frame] = null;
+    } else {
+      const frequency = detectFrameFrequency(samples, offset, sampleRate, options, difference);
+      contour[frame] = frequency === null ? null : frequencyToMidi(frequency);
+    }
+
+    if (onProgress && frame % 500 === 0) {
+      onProgress(frame / frameCount);
+    }
+  }
+
+  onProgress?.(1);
+  return contour;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Runs of frames rounding to the same semitone become notes
+export function quantizeToNotes(contour: (number | null)[], frameDuration: number): PitchNote[] {
+  const smoothed = contour.map((value, index) => {
+    if (value === null) return null;
+    const neighbours = contour
+      .slice(Math.max(0, index - SMOOTHING_RADIUS), index + SMOOTHING_RADIUS + 1)
+      .filter((other): other is number => other !== null);
+    return Math.round(median(neighbours));
+  });
+
+  const runs: PitchNote[] = [];
+  let runStart = 0;
+  for (let frame = 1; frame <= smoothed.length; frame++) {
+    if (frame < smoothed.length && smoothed[frame] === smoothed[runStart]) continue;
+
+    const midi = smoothed[runStart];
+    if (midi !== null) {
+      runs.push({ start: runStart * frameDuration, end: frame * frameDuration, midi });
+    }
+    runStart = frame;
+  }
+
+  const notes: PitchNote[] = [];
+  for (const run of runs) {
+    if (run.end - run.start < MIN_NOTE_DURATION) continue;
+
+    const previous = notes[notes.length - 1];
+    if (previous && previous.midi === run.midi && run.start - previous.end < MAX_NOTE_GAP) {
+      previous.end = run.end;
+    } else {
+      notes.push({ ...run });
+    }
+  }
+  return notes;
+}
+
+export function analyzePitch(
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): PitchAnalysis {
+  const options = DEFAULT_PITCH_DETECTION_OPTIONS;
+  const frameDuration = options.hopSize / sampleRate;
+  const contour = detectPitchContour(samples, sampleRate, options, onProgress)
+    // Hundredths of a semitone is plenty and keeps the cached JSON small
+    .map(value => (value === null ? null : Math.round(value * 100) / 100));
+
+  return { frameDuration, contour, notes: quantizeToNotes(contour, frameDuration) };
+}
+
+// The note sung for most of [start, end], or null if nothing was
+export function getNoteAt(notes: PitchNote[], start: number, end: number): number | null {
+  const overlapByNote = new Map<number, number>();
+  for (const note of notes) {
+    if (note.end <= start) continue;
+    if (note.start >= end) break;
+    const overlap = Math.min(end, note.end) - Math.max(start, note.start);
+    overlapByNote.set(note.midi, (overlapByNote.get(note.midi) ?? 0) + overlap);
+  }
+
+  let best: number | null = null;
+  let bestOverlap = 0;
+  overlapByNote.forEach((overlap, midi) => {
+    if (overlap > bestOverlap) {
+      best = midi;
+      bestOverlap = overlap;
+    }
+  });
+  return best;
+}
+
+// Detected pitch at a point in time (fractional MIDI), or null when unvoiced
+export function getContourAt(analysis: PitchAnalysis, time: number): number | null {
+  const frame = Math.round(time / analysis.frameDuration);
+  return analysis.contour[frame] ?? null;
+}
@@ -0,0 +1,81 @@
+// Vocal pitch analysis
+// Downmixes and resamples the vocals stem, then tracks its pitch in a worker
+
+import {
+  PITCH_ANALYSIS_SAMPLE_RATE,
+  PitchAnalysis,
+  PitchWorkerRequest,
+  PitchWorkerResponse
+} from './pitch';
+
+export interface PitchAnalysisOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Pitch analysis cancelled', 'AbortError');
+}
+
+// OfflineAudioContext downmixes to its single channel as it resamples
+async function toAnalysisSamples(buffer: AudioBuffer): Promise<Float32Array<ArrayBuffer>> {
+  const context = new OfflineAudioContext(
+    1,
+    Math.ceil(buffer.duration * PITCH_ANALYSIS_SAMPLE_RATE),
+    PITCH_ANALYSIS_SAMPLE_RATE
+  );
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0).slice();
+}
+
+export async function analyzeVocalPitch(
+  buffer: AudioBuffer,
+  options: PitchAnalysisOptions = {}
+): Promise<PitchAnalysis> {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) throw abortError();
+
+  const samples = await toAnalysisSamples(buffer);
+  if (signal?.aborted) throw abortError();
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/pitchAnalysis.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<PitchWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        cleanup();
+        resolve(message.analysis);
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Pitch analysis worker failed'));
+    };
+
+    const request: PitchWorkerRequest = { type: 'analyze', samples, sampleRate: PITCH_ANALYSIS_SAMPLE_RATE };
+    worker.postMessage(request, [samples.buffer]);
+  });
+}
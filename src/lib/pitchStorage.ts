@@ -0,0 +1,75 @@
+// Local cache for vocal pitch analysis
+// The analysis only depends on the vocals stem, so it's kept in IndexedDB per
+// job (a contour has a frame every few ms, too much for localStorage) and
+// deleted along with the song's library entry
+
+import { PitchAnalysis } from './pitch';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+const DB_NAME = 'karaoke-pitch';
+const DB_VERSION = 1;
+const ANALYSIS_STORE = 'analyses';
+// Bump when the analysis changes so stale results are recomputed
+const CACHE_VERSION = 1;
+
+// Where earlier versions kept the analysis; cleared as songs are opened
+const LEGACY_STORAGE_PREFIX = 'karaoke:pitch:';
+
+interface CachedPitchAnalysis {
+  version: number;
+  analysis: PitchAnalysis;
+}
+
+function openPitchDatabase(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, database => {
+    database.createObjectStore(ANALYSIS_STORE);
+  });
+}
+
+function removeLegacyAnalysis(jobId: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.removeItem(`${LEGACY_STORAGE_PREFIX}${jobId}`);
+  } catch {
+    // Storage can be unavailable (e.g. disabled cookies); nothing to clear then
+  }
+}
+
+// Cached analysis for a job, or null if missing, stale or unreadable
+export async function loadPitchAnalysis(jobId: string): Promise<PitchAnalysis | null> {
+  removeLegacyAnalysis(jobId);
+
+  try {
+    const database = await openPitchDatabase();
+    const store = database.transaction(ANALYSIS_STORE).objectStore(ANALYSIS_STORE);
+    const cached = await requestToPromise(store.get(jobId) as IDBRequest<CachedPitchAnalysis | undefined>);
+    if (!cached || cached.version !== CACHE_VERSION || !Array.isArray(cached.analysis?.notes)) return null;
+    return cached.analysis;
+  } catch (error) {
+    console.warn('Failed to load pitch analysis:', error);
+    return null;
+  }
+}
+
+export async function savePitchAnalysis(jobId: string, analysis: PitchAnalysis): Promise<void> {
+  try {
+    const database = await openPitchDatabase();
+    const transaction = database.transaction(ANALYSIS_STORE, 'readwrite');
+    const cached: CachedPitchAnalysis = { version: CACHE_VERSION, analysis };
+    transaction.objectStore(ANALYSIS_STORE).put(cached, jobId);
+    await transactionDone(transaction);
+  } catch (error) {
+    // Only a cache; the analysis runs again next time
+    console.warn('Failed to save pitch analysis:', error);
+  }
+}
+
+export async function deletePitchAnalysis(jobId: string): Promise<void> {
+  removeLegacyAnalysis(jobId);
+
+  const database = await openPitchDatabase();
+  const transaction = database.transaction(ANALYSIS_STORE, 'readwrite');
+  transaction.objectStore(ANALYSIS_STORE).delete(jobId);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,91 @@
+// Take recording
+// Captures the mic into memory with an AudioWorklet (public/worklets/recorder.js)
+// so the take knows exactly which context frame it started on
+
+// A recorded take placed on the song timeline. Samples are mono and in real
+// time, so a take sung at a practice tempo lines up with the song rendered
+// at that same tempo.
+export interface RecordedTake {
+  samples: Float32Array<ArrayBuffer>;
+  sampleRate: number;
+  // Song position of the first sample, in seconds (negative if recording
+  // started before the song)
+  songOffset: number;
+  playbackRate: number;
+}
+
+export interface RecorderResult {
+  samples: Float32Array<ArrayBuffer>;
+  // Context frame of the first sample
+  startFrame: number;
+}
+
+type RecorderMessage =
+  | { type: 'start'; frame: number }
+  | { type: 'chunk'; samples: Float32Array<ArrayBuffer> }
+  | { type: 'done' };
+
+const RECORDER_URL = '/worklets/recorder.js';
+
+// addModule() only needs to run once per context
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export class TakeRecorder {
+  private chunks: Float32Array<ArrayBuffer>[] = [];
+  private startFrame: number | null = null;
+  private done: Promise<void>;
+
+  private constructor(private node: AudioWorkletNode, private input: AudioNode) {
+    this.done = new Promise(resolve => {
+      node.port.onmessage = (event: MessageEvent<RecorderMessage>) => {
+        const message = event.data;
+        if (message.type === 'start') {
+          this.startFrame = message.frame;
+        } else if (message.type === 'chunk') {
+          this.chunks.push(message.samples);
+        } else {
+          resolve();
+        }
+      };
+    });
+  }
+
+  // Start recording `input` (downmixed to mono) right away
+  static async start(context: AudioContext, input: AudioNode): Promise<TakeRecorder> {
+    if (!loadedContexts.has(context)) {
+      await context.audioWorklet.addModule(RECORDER_URL);
+      loadedContexts.add(context);
+    }
+
+    // No outputs: the node is kept running by its input alone
+    const node = new AudioWorkletNode(context, 'recorder', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'speakers'
+    });
+    input.connect(node);
+
+    return new TakeRecorder(node, input);
+  }
+
+  async stop(): Promise<RecorderResult> {
+    this.node.port.postMessage('stop');
+    await this.done;
+
+    this.input.disconnect(this.node);
+    this.node.port.onmessage = null;
+
+    const length = this.chunks.reduce((total, chunk) => total + chunk.length, 0);
+    const samples = new Float32Array(length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.chunks = [];
+
+    return { samples, startFrame: this.startFrame ?? 0 };
+  }
+}
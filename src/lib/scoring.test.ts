@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionData } from '@/types/api';
+import { PitchAnalysis } from './pitch';
+import {
+  DEFAULT_SCORING_OPTIONS,
+  MAX_SCORE,
+  PitchSample,
+  ScoringOptions,
+  advanceScore,
+  createScoreSheet,
+  createScoreState,
+  getLineScores,
+  scoreWord,
+  summarizeScore
+} from './scoring';
+
+// 100 ms frames: C4 for the first second, D4 for the next, then a second
+// with no pitch (spoken), then E4
+const FRAME_DURATION = 0.1;
+const analysis: PitchAnalysis = {
+  frameDuration: FRAME_DURATION,
+  contour: Array.from({ length: 40 }, (_, frame) => {
+    if (frame < 10) return 60;
+    if (frame < 20) return 62;
+    if (frame < 30) return null;
+    return 64;
+  }),
+  notes: []
+};
+
+const word = (text: string, start: number, end: number) => ({ word: text, start, end, confidence: 1 });
+
+const transcription: TranscriptionData = {
+  text: 'la da hm oh',
+  language: 'en',
+  segments: [
+    { start: 0.2, end: 1.8, text: 'la da', words: [word('la', 0.2, 0.8), word('da', 1.2, 1.8)] },
+    { start: 2.2, end: 3.8, text: 'hm oh', words: [word('hm', 2.2, 2.8), word('oh', 3.2, 3.8)] }
+  ]
+};
+
+// Steady samples every 50 ms, kept clear of the word edges
+const sing = (start: number, end: number, midi: number | null): PitchSample[] => {
+  const samples: PitchSample[] = [];
+  for (let time = start + 0.1; time <= end - 0.1 + 1e-9; time += 0.05) {
+    samples.push({ time, midi });
+  }
+  return samples;
+};
+
+const exactOptions: ScoringOptions = { ...DEFAULT_SCORING_OPTIONS, octaveTolerant: false };
+
+describe('createScoreSheet', () => {
+  it('drops words with too little voiced target', () => {
+    const sheet = createScoreSheet(transcription, analysis);
+    expect(sheet.words.map(target => target.text)).toEqual(['la', 'da', 'oh']);
+    expect(sheet.lineCount).toBe(2);
+    expect(sheet.maxScore).toBe(MAX_SCORE);
+  });
+
+  it('shares the points by word duration', () => {
+    const sheet = createScoreSheet(transcription, analysis);
+    sheet.words.forEach(target => expect(target.points).toBeCloseTo(MAX_SCORE / 3));
+  });
+
+  it('has nothing to score without a voiced target', () => {
+    const silent: PitchAnalysis = { ...analysis, contour: analysis.contour.map(() => null) };
+    const sheet = createScoreSheet(transcription, silent);
+    expect(sheet.words).toEqual([]);
+    expect(sheet.maxScore).toBe(0);
+  });
+});
+
+describe('scoreWord', () => {
+  const [la] = createScoreSheet(transcription, analysis).words;
+
+  it('gives full credit for the exact pitch', () => {
+    expect(scoreWord(la, sing(la.start, la.end, 60), analysis)).toBe(1);
+  });
+
+  it('only credits another octave when octave tolerant', () => {
+    const samples = sing(la.start, la.end, 72);
+    expect(scoreWord(la, samples, analysis, { ...DEFAULT_SCORING_OPTIONS, octaveTolerant: true })).toBe(1);
+    expect(scoreWord(la, samples, analysis, exactOptions)).toBe(0);
+  });
+
+  it('fades credit between one and two times the pitch tolerance', () => {
+    const accuracyAt = (midi: number) => scoreWord(la, sing(la.start, la.end, midi), analysis, exactOptions);
+    expect(accuracyAt(60.5)).toBe(1);
+    expect(accuracyAt(61)).toBe(1);
+    expect(accuracyAt(61.5)).toBeCloseTo(0.5);
+    expect(accuracyAt(62)).toBe(0);
+    expect(accuracyAt(58.5)).toBeCloseTo(0.5);
+
+    const wide = { ...exactOptions, pitchTolerance: 2 };
+    expect(scoreWord(la, sing(la.start, la.end, 63), analysis, wide)).toBeCloseTo(0.5);
+  });
+
+  it('counts silence as a miss and no samples as not scored', () => {
+    expect(scoreWord(la, sing(la.start, la.end, null), analysis)).toBe(0);
+    expect(scoreWord(la, [], analysis)).toBeNull();
+  });
+
+  it('credits singing that is late by up to the timing tolerance', () => {
+    const { timingTolerance } = DEFAULT_SCORING_OPTIONS;
+    // Comes in only as the word ends; the silence after the tolerance isn't counted
+    const late: PitchSample[] = [
+      { time: la.end, midi: 60 },
+      { time: la.end + timingTolerance / 2, midi: 60 },
+      { time: la.end + timingTolerance + 0.05, midi: null }
+    ];
+    expect(scoreWord(la, late, analysis)).toBe(1);
+  });
+});
+
+describe('advanceScore', () => {
+  const sheet = createScoreSheet(transcription, analysis);
+  const samples = sing(0.2, 0.8, 60);
+
+  it('waits for the timing tolerance past the end of a word', () => {
+    const state = createScoreState(sheet);
+    const { timingTolerance } = DEFAULT_SCORING_OPTIONS;
+
+    expect(advanceScore(state, sheet, analysis, samples, 0.8 + timingTolerance - 0.01)).toBe(state);
+
+    const next = advanceScore(state, sheet, analysis, samples, 0.8 + timingTolerance + 0.01);
+    expect(next.nextWord).toBe(1);
+    expect(next.wordAccuracy).toEqual([1, null, null]);
+    expect(next.score).toBeCloseTo(MAX_SCORE / 3);
+  });
+
+  it('scores every word passed in one step and skips unsung ones', () => {
+    const state = advanceScore(createScoreState(sheet), sheet, analysis, samples, 10);
+    expect(state.nextWord).toBe(3);
+    expect(state.wordAccuracy).toEqual([1, null, null]);
+  });
+});
+
+describe('line scores and summary', () => {
+  const sheet = createScoreSheet(transcription, analysis);
+  // First line sung perfectly, "oh" a semitone and a half sharp
+  const samples = [...sing(0.2, 0.8, 60), ...sing(1.2, 1.8, 62), ...sing(3.2, 3.8, 65.5)];
+  const options = exactOptions;
+
+  it('only rates lines whose words have all been judged', () => {
+    const state = advanceScore(createScoreState(sheet), sheet, analysis, samples, 1, options);
+    expect(getLineScores(sheet, state)).toEqual([]);
+  });
+
+  it('rates lines and counts the ratings', () => {
+    const state = advanceScore(createScoreState(sheet), sheet, analysis, samples, 10, options);
+
+    const lines = getLineScores(sheet, state);
+    expect(lines.map(line => [line.segmentIndex, line.rating])).toEqual([[0, 'perfect'], [1, 'good']]);
+    expect(lines[1].accuracy).toBeCloseTo(0.5);
+
+    const summary = summarizeScore(sheet, state);
+    expect(summary.score).toBe(Math.round(MAX_SCORE * 2.5 / 3));
+    expect(summary.maxScore).toBe(MAX_SCORE);
+    expect(summary.accuracy).toBeCloseTo(2.5 / 3);
+    expect(summary.wordsScored).toBe(3);
+    expect(summary.wordsHit).toBe(3);
+    expect(summary.ratingCounts).toEqual({ perfect: 1, great: 0, good: 1, ok: 0, miss: 0 });
+  });
+
+  it('leaves skipped lines out of the summary', () => {
+    const firstLineOnly = samples.filter(sample => sample.time < 2);
+    const state = advanceScore(createScoreState(sheet), sheet, analysis, firstLineOnly, 10, options);
+
+    const summary = summarizeScore(sheet, state);
+    expect(summary.lines.map(line => line.segmentIndex)).toEqual([0]);
+    expect(summary.wordsScored).toBe(2);
+    expect(summary.score).toBe(Math.round(MAX_SCORE * 2 / 3));
+  });
+});
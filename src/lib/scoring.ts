@@ -0,0 +1,249 @@
+// Singing score
+// Compares sung pitch against the pitch contour of the vocals stem, word by
+// word. Everything here is pure: the caller feeds timestamped pitch samples
+// (from the live mic, or synthetic sequences) and advances the score state.
+
+import { TranscriptionData } from '@/types/api';
+import { PitchAnalysis } from './pitch';
+
+// One pitch reading from the singer, in song time
+export interface PitchSample {
+  time: number; // seconds
+  midi: number | null; // null when nothing was sung
+}
+
+export interface ScoringOptions {
+  // Sung within this many semitones of the target counts fully; credit
+  // fades to nothing at twice the distance
+  pitchTolerance: number;
+  // Sung pitch may match the target this many seconds early or late
+  timingTolerance: number;
+  // Singing the right note in another octave counts
+  octaveTolerant: boolean;
+  // Share of a word's frames that must have a target for it to be scored
+  minVoicedRatio: number;
+}
+
+// A lyric word that can be scored
+export interface TargetWord {
+  segmentIndex: number;
+  wordIndex: number;
+  text: string;
+  start: number;
+  end: number;
+  points: number; // available points
+}
+
+export interface ScoreSheet {
+  words: TargetWord[];
+  // Number of transcription segments (lines), scored or not
+  lineCount: number;
+  maxScore: number;
+}
+
+export interface ScoreState {
+  // Accuracy (0-1) per sheet word; null until scored, or when it was skipped
+  wordAccuracy: (number | null)[];
+  // Index of the first word not yet scored
+  nextWord: number;
+  score: number;
+}
+
+export type LineRating = 'perfect' | 'great' | 'good' | 'ok' | 'miss';
+
+export interface LineScore {
+  segmentIndex: number;
+  accuracy: number; // 0-1
+  rating: LineRating;
+}
+
+export interface ScoreSummary {
+  score: number;
+  maxScore: number;
+  // Mean accuracy over the words that were sung
+  accuracy: number;
+  wordsScored: number;
+  wordsHit: number;
+  lines: LineScore[];
+  ratingCounts: Record<LineRating, number>;
+}
+
+export const DEFAULT_SCORING_OPTIONS: ScoringOptions = {
+  pitchTolerance: 1,
+  timingTolerance: 0.15,
+  octaveTolerant: true,
+  minVoicedRatio: 0.3
+};
+
+// Score for singing every word perfectly
+export const MAX_SCORE = 10000;
+
+// Lowest accuracy for each rating, best first
+export const LINE_RATINGS: { rating: LineRating; label: string; minAccuracy: number }[] = [
+  { rating: 'perfect', label: 'Perfect', minAccuracy: 0.9 },
+  { rating: 'great', label: 'Great', minAccuracy: 0.75 },
+  { rating: 'good', label: 'Good', minAccuracy: 0.5 },
+  { rating: 'ok', label: 'OK', minAccuracy: 0.25 },
+  { rating: 'miss', label: 'Miss', minAccuracy: 0 }
+];
+
+// Words sung at least this accurately count as hits
+const HIT_ACCURACY = 0.5;
+
+// Semitones between two pitches, folded into [0, 6] when octaves don't matter
+export function pitchDistance(sung: number, target: number, octaveTolerant: boolean): number {
+  const difference = sung - target;
+  if (!octaveTolerant) return Math.abs(difference);
+
+  const folded = ((difference % 12) + 12) % 12;
+  return Math.min(folded, 12 - folded);
+}
+
+export function getLineRating(accuracy: number): LineRating {
+  return (LINE_RATINGS.find(({ minAccuracy }) => accuracy >= minAccuracy) ?? LINE_RATINGS[LINE_RATINGS.length - 1]).rating;
+}
+
+// Contour frames covering [start, end]
+function contourRange(analysis: PitchAnalysis, start: number, end: number): (number | null)[] {
+  const first = Math.max(0, Math.floor(start / analysis.frameDuration));
+  const last = Math.min(analysis.contour.length - 1, Math.ceil(end / analysis.frameDuration));
+  return last >= first ? analysis.contour.slice(first, last + 1) : [];
+}
+
+// Points are shared between words by their duration, so long notes are
+// worth more than quick syllables. Words without enough target pitch
+// (spoken or unvoiced in the original) aren't scored.
+export function createScoreSheet(
+  transcription: TranscriptionData,
+  analysis: PitchAnalysis,
+  options: ScoringOptions = DEFAULT_SCORING_OPTIONS
+): ScoreSheet {
+  const candidates: Omit<TargetWord, 'points'>[] = [];
+
+  transcription.segments.forEach((segment, segmentIndex) => {
+    segment.words.forEach((word, wordIndex) => {
+      if (word.end <= word.start || !word.word.trim()) return;
+
+      const frames = contourRange(analysis, word.start, word.end);
+      const voiced = frames.filter(frame => frame !== null).length;
+      if (frames.length === 0 || voiced / frames.length < options.minVoicedRatio) return;
+
+      candidates.push({ segmentIndex, wordIndex, text: word.word.trim(), start: word.start, end: word.end });
+    });
+  });
+
+  const totalDuration = candidates.reduce((total, word) => total + (word.end - word.start), 0);
+  const words = candidates.map(word => ({
+    ...word,
+    points: totalDuration > 0 ? ((word.end - word.start) / totalDuration) * MAX_SCORE : 0
+  }));
+
+  return { words, lineCount: transcription.segments.length, maxScore: words.length > 0 ? MAX_SCORE : 0 };
+}
+
+// Accuracy (0-1) of the samples sung during a word, give or take the timing
+// tolerance, or null when there are none (e.g. the word was skipped by seeking)
+export function scoreWord(
+  word: TargetWord,
+  samples: PitchSample[],
+  analysis: PitchAnalysis,
+  options: ScoringOptions = DEFAULT_SCORING_OPTIONS
+): number | null {
+  const { pitchTolerance, timingTolerance, octaveTolerant } = options;
+  let credit = 0;
+  let count = 0;
+
+  for (const sample of samples) {
+    if (sample.time < word.start - timingTolerance || sample.time >= word.end + timingTolerance) continue;
+
+    // Only judge moments where the original has a pitch nearby
+    const targets = contourRange(analysis, sample.time - timingTolerance, sample.time + timingTolerance)
+      .filter((frame): frame is number => frame !== null);
+    if (targets.length === 0) continue;
+
+    count++;
+    if (sample.midi === null) continue;
+
+    const sung = sample.midi;
+    const distance = Math.min(...targets.map(target => pitchDistance(sung, target, octaveTolerant)));
+    credit += Math.max(0, Math.min(1, 2 - distance / pitchTolerance));
+  }
+
+  return count > 0 ? credit / count : null;
+}
+
+export function createScoreState(sheet: ScoreSheet): ScoreState {
+  return { wordAccuracy: sheet.words.map(() => null), nextWord: 0, score: 0 };
+}
+
+// Score every word that finished (allowing for late singing) by `time`.
+// Returns the same state object when nothing changed.
+export function advanceScore(
+  state: ScoreState,
+  sheet: ScoreSheet,
+  analysis: PitchAnalysis,
+  samples: PitchSample[],
+  time: number,
+  options: ScoringOptions = DEFAULT_SCORING_OPTIONS
+): ScoreState {
+  let nextWord = state.nextWord;
+  while (nextWord < sheet.words.length && sheet.words[nextWord].end + options.timingTolerance <= time) {
+    nextWord++;
+  }
+  if (nextWord === state.nextWord) return state;
+
+  const wordAccuracy = [...state.wordAccuracy];
+  let score = state.score;
+  for (let index = state.nextWord; index < nextWord; index++) {
+    const word = sheet.words[index];
+    const accuracy = scoreWord(word, samples, analysis, options);
+    wordAccuracy[index] = accuracy;
+    score += (accuracy ?? 0) * word.points;
+  }
+
+  return { wordAccuracy, nextWord, score };
+}
+
+// Ratings for lines whose words have all been judged, in song order. Lines
+// with no scored words (or only skipped ones) are left out.
+export function getLineScores(sheet: ScoreSheet, state: ScoreState): LineScore[] {
+  const lines = new Map<number, { credit: number; points: number; isComplete: boolean }>();
+
+  sheet.words.forEach((word, index) => {
+    const line = lines.get(word.segmentIndex) ?? { credit: 0, points: 0, isComplete: true };
+    const accuracy = state.wordAccuracy[index];
+    if (index >= state.nextWord) {
+      line.isComplete = false;
+    } else if (accuracy !== null) {
+      line.credit += accuracy * word.points;
+      line.points += word.points;
+    }
+    lines.set(word.segmentIndex, line);
+  });
+
+  const scores: LineScore[] = [];
+  lines.forEach((line, segmentIndex) => {
+    if (!line.isComplete || line.points === 0) return;
+    const accuracy = line.credit / line.points;
+    scores.push({ segmentIndex, accuracy, rating: getLineRating(accuracy) });
+  });
+  return scores.sort((a, b) => a.segmentIndex - b.segmentIndex);
+}
+
+export function summarizeScore(sheet: ScoreSheet, state: ScoreState): ScoreSummary {
+  const scored = state.wordAccuracy.filter((accuracy): accuracy is number => accuracy !== null);
+  const lines = getLineScores(sheet, state);
+
+  const ratingCounts = Object.fromEntries(LINE_RATINGS.map(({ rating }) => [rating, 0])) as Record<LineRating, number>;
+  lines.forEach(line => ratingCounts[line.rating]++);
+
+  return {
+    score: Math.round(state.score),
+    maxScore: sheet.maxScore,
+    accuracy: scored.length > 0 ? scored.reduce((total, accuracy) => total + accuracy, 0) / scored.length : 0,
+    wordsScored: scored.length,
+    wordsHit: scored.filter(accuracy => accuracy >= HIT_ACCURACY).length,
+    lines,
+    ratingCounts
+  };
+}
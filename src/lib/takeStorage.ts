@@ -0,0 +1,105 @@
+// Local persistence for recorded takes
+// Takes are kept in IndexedDB per job: metadata in one store (cheap to list)
+// and the samples in another, loaded only when a take is played or exported
+
+import { RecordedTake } from './recording';
+import { isIndexedDbSupported, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+export interface TakeInfo {
+  id: string;
+  jobId: string;
+  number: number; // "Take 3"
+  createdAt: number;
+  duration: number; // seconds
+  songOffset: number;
+  playbackRate: number;
+  sampleRate: number;
+  // The take the singer chose to keep
+  isPicked: boolean;
+}
+
+const DB_NAME = 'karaoke-takes';
+const DB_VERSION = 1;
+const INFO_STORE = 'takes';
+const AUDIO_STORE = 'takeAudio';
+const JOB_INDEX = 'jobId';
+
+function openTakeDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbSupported()) {
+    return Promise.reject(new Error('Saving takes is not supported in this browser'));
+  }
+
+  return openDatabase(DB_NAME, DB_VERSION, database => {
+    const infoStore = database.createObjectStore(INFO_STORE, { keyPath: 'id' });
+    infoStore.createIndex(JOB_INDEX, 'jobId');
+    database.createObjectStore(AUDIO_STORE);
+  });
+}
+
+// Takes for a job, oldest first
+export async function listTakes(jobId: string): Promise<TakeInfo[]> {
+  const database = await openTakeDatabase();
+  const index = database.transaction(INFO_STORE).objectStore(INFO_STORE).index(JOB_INDEX);
+  const takes = await requestToPromise(index.getAll(jobId) as IDBRequest<TakeInfo[]>);
+  return takes.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveTake(jobId: string, take: RecordedTake): Promise<TakeInfo> {
+  // Numbers keep counting up after takes are deleted
+  const existing = await listTakes(jobId);
+  const info: TakeInfo = {
+    id: crypto.randomUUID(),
+    jobId,
+    number: Math.max(0, ...existing.map(other => other.number)) + 1,
+    createdAt: Date.now(),
+    duration: take.samples.length / take.sampleRate,
+    songOffset: take.songOffset,
+    playbackRate: take.playbackRate,
+    sampleRate: take.sampleRate,
+    isPicked: false
+  };
+
+  const database = await openTakeDatabase();
+  const transaction = database.transaction([INFO_STORE, AUDIO_STORE], 'readwrite');
+  transaction.objectStore(INFO_STORE).put(info);
+  transaction.objectStore(AUDIO_STORE).put(take.samples, info.id);
+  await transactionDone(transaction);
+
+  return info;
+}
+
+export async function loadTake(info: TakeInfo): Promise<RecordedTake | null> {
+  const database = await openTakeDatabase();
+  const store = database.transaction(AUDIO_STORE).objectStore(AUDIO_STORE);
+  const samples = await requestToPromise(store.get(info.id) as IDBRequest<Float32Array<ArrayBuffer> | undefined>);
+  if (!samples) return null;
+
+  return {
+    samples,
+    sampleRate: info.sampleRate,
+    songOffset: info.songOffset,
+    playbackRate: info.playbackRate
+  };
+}
+
+export async function deleteTake(id: string): Promise<void> {
+  const database = await openTakeDatabase();
+  const transaction = database.transaction([INFO_STORE, AUDIO_STORE], 'readwrite');
+  transaction.objectStore(INFO_STORE).delete(id);
+  transaction.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+// Mark one take of a job as picked (or none, with null)
+export async function pickTake(jobId: string, id: string | null): Promise<TakeInfo[]> {
+  const takes = await listTakes(jobId);
+  const updated = takes.map(take => ({ ...take, isPicked: take.id === id }));
+
+  const database = await openTakeDatabase();
+  const transaction = database.transaction(INFO_STORE, 'readwrite');
+  const store = transaction.objectStore(INFO_STORE);
+  updated.forEach(take => store.put(take));
+  await transactionDone(transaction);
+
+  return updated;
+}
@@ -0,0 +1,56 @@
+// Timeline zoom
+// The visible stretch of the song on the studio timeline, and mapping between
+// song time and horizontal position within it
+
+export interface TimelineView {
+  start: number; // seconds
+  end: number;
+}
+
+// Never show less than this much of the song
+export const MIN_VIEW_DURATION = 2;
+// Each zoom button press
+export const ZOOM_STEP = 2;
+
+export function getFullView(duration: number): TimelineView {
+  return { start: 0, end: Math.max(0, duration) };
+}
+
+export function getZoom(view: TimelineView, duration: number): number {
+  const length = view.end - view.start;
+  return length > 0 && duration > 0 ? duration / length : 1;
+}
+
+// Keeps a view's length within [MIN_VIEW_DURATION, duration] and inside the song
+export function clampView(view: TimelineView, duration: number): TimelineView {
+  if (duration <= 0) return getFullView(0);
+
+  const length = Math.max(Math.min(MIN_VIEW_DURATION, duration), Math.min(duration, view.end - view.start));
+  const start = Math.max(0, Math.min(duration - length, view.start));
+  return { start, end: start + length };
+}
+
+// Zoom by `factor` (> 1 zooms in) keeping `anchor` at the same place on screen
+export function zoomView(view: TimelineView, factor: number, anchor: number, duration: number): TimelineView {
+  const length = view.end - view.start;
+  if (length <= 0 || factor <= 0) return view;
+
+  const ratio = (anchor - view.start) / length;
+  const nextLength = length / factor;
+  const start = anchor - ratio * nextLength;
+  return clampView({ start, end: start + nextLength }, duration);
+}
+
+export function scrollView(view: TimelineView, start: number, duration: number): TimelineView {
+  return clampView({ start, end: start + (view.end - view.start) }, duration);
+}
+
+// 0 at the left edge of the view, 1 at the right (outside that when off screen)
+export function timeToRatio(view: TimelineView, time: number): number {
+  const length = view.end - view.start;
+  return length > 0 ? (time - view.start) / length : 0;
+}
+
+export function ratioToTime(view: TimelineView, ratio: number): number {
+  return view.start + ratio * (view.end - view.start);
+}
@@ -0,0 +1,113 @@
+// UltraStar export
+// Builds an UltraStar .txt song file from word timings and beat analysis
+
+import { BeatAnalysisData, TranscriptionData } from '@/types/api';
+
+export interface UltraStarOptions {
+  title: string;
+  artist: string;
+  audioFilename: string;
+  coverFilename?: string;
+  language?: string;
+  year?: number;
+  genre?: string;
+  // Pitch for a note between start and end, in semitones relative to C4
+  // (MIDI 60). Return null to fall back to `defaultPitch`.
+  pitchAt?: (start: number, end: number) => number | null;
+  defaultPitch?: number;
+}
+
+// UltraStar note beats are quarter beats of the #BPM value
+const BEATS_PER_QUARTER = 4;
+
+// Fallback tempo when beat analysis is missing or nonsense
+const DEFAULT_BPM = 120;
+
+// Full language names for the #LANGUAGE header
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese',
+  hi: 'Hindi',
+  ru: 'Russian'
+};
+
+// Header values can't contain line breaks
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+export function toUltraStar(
+  transcription: TranscriptionData,
+  beatData: BeatAnalysisData | null,
+  options: UltraStarOptions
+): string {
+  const words = transcription.segments.flatMap(segment => segment.words);
+  const firstWordStart = words.length > 0 ? words[0].start : 0;
+
+  const bpm = beatData && beatData.tempo_bpm > 0 ? beatData.tempo_bpm : DEFAULT_BPM;
+
+  // Anchor the note grid on the first detected beat so notes line up with the
+  // music; fall back to the first word if the beats start after it
+  const firstBeat = beatData?.beat_times?.[0];
+  const gap = firstBeat !== undefined && firstBeat <= firstWordStart ? firstBeat : firstWordStart;
+
+  const beatsPerSecond = (bpm * BEATS_PER_QUARTER) / 60;
+  const toBeat = (time: number) => Math.round((time - gap) * beatsPerSecond);
+
+  const lines: string[] = [
+    `#TITLE:${headerValue(options.title)}`,
+    `#ARTIST:${headerValue(options.artist)}`,
+    `#MP3:${headerValue(options.audioFilename)}`,
+    `#AUDIO:${headerValue(options.audioFilename)}`
+  ];
+  if (options.coverFilename) lines.push(`#COVER:${headerValue(options.coverFilename)}`);
+
+  const languageCode = options.language || transcription.language;
+  if (languageCode && LANGUAGE_NAMES[languageCode]) lines.push(`#LANGUAGE:${LANGUAGE_NAMES[languageCode]}`);
+  if (options.genre) lines.push(`#GENRE:${headerValue(options.genre)}`);
+  if (options.year) lines.push(`#YEAR:${options.year}`);
+
+  lines.push(`#BPM:${bpm.toFixed(2)}`);
+  lines.push(`#GAP:${Math.round(gap * 1000)}`);
+
+  const defaultPitch = options.defaultPitch ?? 0;
+  let lastEndBeat = 0;
+  let hasNotes = false;
+
+  transcription.segments.forEach(segment => {
+    if (segment.words.length === 0) return;
+
+    // Line break before every line but the first
+    if (hasNotes) {
+      lines.push(`- ${lastEndBeat}`);
+    }
+
+    segment.words.forEach((word, index) => {
+      const label = word.word.trim();
+      if (!label) return;
+
+      // Notes must not overlap or go backwards
+      const startBeat = Math.max(lastEndBeat, toBeat(word.start));
+      const length = Math.max(1, toBeat(word.end) - startBeat);
+      const pitch = Math.round(options.pitchAt?.(word.start, word.end) ?? defaultPitch);
+
+      // Trailing space separates words within a line
+      const text = index < segment.words.length - 1 ? `${label} ` : label;
+      lines.push(`: ${startBeat} ${length} ${pitch} ${text}`);
+
+      lastEndBeat = startBeat + length;
+      hasNotes = true;
+    });
+  });
+
+  lines.push('E');
+  return lines.join('\n') + '\n';
+}
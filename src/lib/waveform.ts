@@ -0,0 +1,133 @@
+// Waveform peaks
+// Per-bucket levels of a stem at several resolutions, plus its loud stretches
+// (the lane "capsules"), so the studio lanes can be drawn at any zoom. Pure
+// functions, so they run in the waveform worker.
+
+export interface PeakLevel {
+  bucketDuration: number; // seconds
+  rms: Float32Array;
+  peak: Float32Array; // largest absolute sample
+}
+
+export interface WaveformSegment {
+  start: number; // seconds
+  end: number;
+}
+
+export interface WaveformData {
+  duration: number; // seconds
+  // Finest first; each level has half the buckets of the one before
+  levels: PeakLevel[];
+  segments: WaveformSegment[];
+}
+
+export interface WaveformOptions {
+  bucketMs: number;
+  // Buckets quieter than this RMS count as silence
+  silenceRms: number;
+  // Silences shorter than this don't split a segment
+  minSilenceMs: number;
+}
+
+export type WaveformWorkerRequest = {
+  type: 'analyze';
+  samples: Float32Array<ArrayBuffer>;
+  sampleRate: number;
+  options: WaveformOptions;
+};
+
+export type WaveformWorkerResponse =
+  | { type: 'done'; data: WaveformData }
+  | { type: 'error'; message: string };
+
+// What the studio lanes are drawn from
+export const DEFAULT_WAVEFORM_OPTIONS: WaveformOptions = {
+  bucketMs: 10,
+  silenceRms: 0.005,
+  minSilenceMs: 1000
+};
+
+// No coarser levels are built below this many buckets
+const MIN_LEVEL_BUCKETS = 256;
+
+// Coarser levels keep the loudest of each pair of buckets, so a zoomed-out
+// lane looks the same as the finest level squeezed into fewer pixels
+function halveLevel(level: PeakLevel): PeakLevel {
+  const length = Math.ceil(level.rms.length / 2);
+  const rms = new Float32Array(length);
+  const peak = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    rms[i] = Math.max(level.rms[2 * i], level.rms[2 * i + 1] ?? 0);
+    peak[i] = Math.max(level.peak[2 * i], level.peak[2 * i + 1] ?? 0);
+  }
+  return { bucketDuration: level.bucketDuration * 2, rms, peak };
+}
+
+function findSegments(rms: Float32Array, bucketDuration: number, options: WaveformOptions): WaveformSegment[] {
+  const buckets = rms.length;
+  const segments: WaveformSegment[] = [];
+  const minSilBkt = Math.ceil(options.minSilenceMs / options.bucketMs);
+  let segStart: number | null = null;
+  let silenceRun = 0;
+
+  for (let i = 0; i <= buckets; i++) {
+    const loud = i < buckets && rms[i] >= options.silenceRms;
+    if (loud) {
+      if (segStart === null) segStart = i;
+      silenceRun = 0;
+    } else if (segStart !== null) {
+      silenceRun++;
+      const shouldSplit = silenceRun >= minSilBkt || i === buckets;
+      if (shouldSplit) {
+        const end = i - silenceRun;
+        if (end >= segStart) {
+          segments.push({ start: segStart * bucketDuration, end: (end + 1) * bucketDuration });
+        }
+        segStart = null;
+        silenceRun = 0;
+      }
+    }
+  }
+  return segments;
+}
+
+export function analyzeWaveform(samples: Float32Array, sampleRate: number, options: WaveformOptions): WaveformData {
+  const bSamp = Math.max(1, Math.floor((options.bucketMs / 1e3) * sampleRate));
+  const buckets = Math.ceil(samples.length / bSamp);
+  const rms = new Float32Array(buckets);
+  const peak = new Float32Array(buckets);
+
+  for (let i = 0; i < buckets; i++) {
+    let sum = 0;
+    let max = 0;
+    for (let j = 0; j < bSamp; j++) {
+      const s = samples[i * bSamp + j] || 0;
+      sum += s * s;
+      max = Math.max(max, Math.abs(s));
+    }
+    rms[i] = Math.sqrt(sum / bSamp);
+    peak[i] = max;
+  }
+
+  const bucketDuration = bSamp / sampleRate;
+  const levels: PeakLevel[] = [{ bucketDuration, rms, peak }];
+  while (levels[levels.length - 1].rms.length > MIN_LEVEL_BUCKETS) {
+    levels.push(halveLevel(levels[levels.length - 1]));
+  }
+
+  return {
+    duration: samples.length / sampleRate,
+    levels,
+    segments: findSegments(rms, bucketDuration, options)
+  };
+}
+
+// The coarsest level with at least one bucket per pixel
+export function pickPeakLevel(data: WaveformData, secondsPerPixel: number): PeakLevel {
+  let chosen = data.levels[0];
+  for (const level of data.levels) {
+    if (level.bucketDuration > secondsPerPixel) break;
+    chosen = level;
+  }
+  return chosen;
+}
@@ -0,0 +1,70 @@
+// Stem waveform analysis
+// Peaks for a stem from the buffer AudioEngine already decoded, computed in a
+// worker and cached per job
+
+import { WaveformData, WaveformOptions, WaveformWorkerRequest, WaveformWorkerResponse } from './waveform';
+import { loadWaveform, saveWaveform } from './waveformStorage';
+
+function abortError(): DOMException {
+  return new DOMException('Waveform analysis cancelled', 'AbortError');
+}
+
+export function analyzeBufferWaveform(
+  buffer: AudioBuffer,
+  options: WaveformOptions,
+  signal?: AbortSignal
+): Promise<WaveformData> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/waveform.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<WaveformWorkerResponse>) => {
+      const message = event.data;
+      cleanup();
+      if (message.type === 'done') {
+        resolve(message.data);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Waveform worker failed'));
+    };
+
+    // The lanes show the first channel; copied so the engine's buffer stays intact
+    const samples = buffer.getChannelData(0).slice();
+    const request: WaveformWorkerRequest = { type: 'analyze', samples, sampleRate: buffer.sampleRate, options };
+    worker.postMessage(request, [samples.buffer]);
+  });
+}
+
+// Cached peaks, or computed from `buffer` and cached
+export async function getStemWaveform(
+  jobId: string,
+  stem: string,
+  buffer: AudioBuffer,
+  options: WaveformOptions,
+  signal?: AbortSignal
+): Promise<WaveformData> {
+  const cached = await loadWaveform(jobId, stem, options);
+  if (cached) return cached;
+  if (signal?.aborted) throw abortError();
+
+  const data = await analyzeBufferWaveform(buffer, options, signal);
+  await saveWaveform(jobId, stem, options, data);
+  return data;
+}
@@ -0,0 +1,61 @@
+// Cached waveform peaks
+// Kept in IndexedDB per job and stem (the typed arrays are too big for
+// localStorage), so reopening a song draws its lanes straight away
+
+import { WaveformData, WaveformOptions } from './waveform';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+const DB_NAME = 'karaoke-waveforms';
+const DB_VERSION = 1;
+const PEAKS_STORE = 'peaks';
+// Bump when the analysis changes so old peaks are recomputed
+const CACHE_VERSION = 1;
+
+interface CachedWaveform {
+  version: number;
+  options: WaveformOptions;
+  data: WaveformData;
+}
+
+function openWaveformDatabase(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, database => {
+    database.createObjectStore(PEAKS_STORE);
+  });
+}
+
+const cacheKey = (jobId: string, stem: string) => `${jobId}:${stem}`;
+
+const sameOptions = (a: WaveformOptions, b: WaveformOptions) =>
+  a.bucketMs === b.bucketMs && a.silenceRms === b.silenceRms && a.minSilenceMs === b.minSilenceMs;
+
+// Cached peaks for a stem, or null if missing, stale or unreadable
+export async function loadWaveform(jobId: string, stem: string, options: WaveformOptions): Promise<WaveformData | null> {
+  try {
+    const database = await openWaveformDatabase();
+    const store = database.transaction(PEAKS_STORE).objectStore(PEAKS_STORE);
+    const cached = await requestToPromise(store.get(cacheKey(jobId, stem)) as IDBRequest<CachedWaveform | undefined>);
+    if (!cached || cached.version !== CACHE_VERSION || !sameOptions(cached.options, options)) return null;
+    return cached.data;
+  } catch (error) {
+    console.warn('Failed to load cached waveform:', error);
+    return null;
+  }
+}
+
+export async function saveWaveform(
+  jobId: string,
+  stem: string,
+  options: WaveformOptions,
+  data: WaveformData
+): Promise<void> {
+  try {
+    const database = await openWaveformDatabase();
+    const transaction = database.transaction(PEAKS_STORE, 'readwrite');
+    const cached: CachedWaveform = { version: CACHE_VERSION, options, data };
+    transaction.objectStore(PEAKS_STORE).put(cached, cacheKey(jobId, stem));
+    await transactionDone(transaction);
+  } catch (error) {
+    // Only a cache; the peaks are recomputed next time
+    console.warn('Failed to cache waveform:', error);
+  }
+}
@@ -0,0 +1,229 @@
+// ZIP bundle
+// Streams every job file into a client-side ZIP. Files are fetched one at a
+// time (from the offline copy when the song has one) and their chunks go
+// straight to the output sink, so the archive is never assembled in memory
+// as a whole.
+
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from 'fflate';
+import { ApiError, FileInfo, FileListResponse, JobResultsResponse } from '@/types/api';
+import { api } from './api';
+import { downloadBlob } from './download';
+import { fetchWithOfflineCache } from './offlineCache';
+
+export interface BundleEntry {
+  path: string; // path inside the archive
+  url: string;
+  size?: number; // bytes, when known up front
+}
+
+export interface BundleManifest {
+  job_id: string;
+  original_filename: string;
+  created_at: string;
+  completed_at: string;
+  duration: number;
+  tempo_bpm: number | null;
+  time_signature: string | null;
+  language: string | null;
+  separation_model: string | null;
+  metadata: JobResultsResponse['audio_metadata'] | null;
+  files: { path: string; size: number | null }[];
+  exported_at: string;
+}
+
+// Somewhere to write the archive as it's produced
+export interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+export const MANIFEST_PATH = 'manifest.json';
+
+const CATEGORY_FOLDERS: Record<FileInfo['category'], string> = {
+  stem_separation: 'stems',
+  transcription: 'transcription',
+  beat_analysis: 'analysis'
+};
+
+// Fallback sink: fold chunks into a Blob every so often, which lets the
+// browser page large blobs out to disk instead of keeping chunks in the heap
+const BLOB_FOLD_SIZE = 32 * 1024 * 1024;
+
+function filenameFromPath(path: string): string {
+  return path.split('/').pop() || '';
+}
+
+export function collectBundleEntries(
+  results: JobResultsResponse,
+  fileList: FileListResponse | null
+): BundleEntry[] {
+  const entries = new Map<string, BundleEntry>();
+
+  if (fileList) {
+    fileList.files.forEach(file => {
+      const path = `${CATEGORY_FOLDERS[file.category] ?? 'files'}/${file.filename}`;
+      entries.set(path, {
+        path,
+        url: api.getFileDownloadURL(results.job_id, file.filename),
+        size: file.size
+      });
+    });
+  } else {
+    // No file list: fall back to the links in the results
+    Object.entries(results.download_links).forEach(([key, link]) => {
+      const filename = filenameFromPath(link || '');
+      if (!filename) return;
+
+      const folder = key.endsWith('_stem') ? 'stems' : key === 'transcription' ? 'transcription' : 'analysis';
+      const path = `${folder}/${filename}`;
+      entries.set(path, { path, url: api.getFileDownloadURL(results.job_id, filename) });
+    });
+  }
+
+  return Array.from(entries.values());
+}
+
+export function createBundleManifest(results: JobResultsResponse, entries: BundleEntry[]): BundleManifest {
+  return {
+    job_id: results.job_id,
+    original_filename: results.original_filename,
+    created_at: results.created_at,
+    completed_at: results.completed_at,
+    duration: results.audio_duration,
+    tempo_bpm: results.beat_analysis?.tempo_bpm ?? null,
+    time_signature: results.beat_analysis?.time_signature ?? null,
+    language: results.transcription?.language ?? null,
+    separation_model: results.stem_separation?.separation_model ?? null,
+    metadata: results.audio_metadata ?? null,
+    files: entries.map(entry => ({ path: entry.path, size: entry.size ?? null })),
+    exported_at: new Date().toISOString()
+  };
+}
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// Must be called from a user gesture: it may open the browser's save dialog.
+// Rejects with an AbortError if the user dismisses it.
+export async function createZipSink(filename: string): Promise<ZipSink> {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+  if (showSaveFilePicker) {
+    const handle = await showSaveFilePicker({
+      suggestedName: filename,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+    });
+    const writable = await handle.createWritable();
+    return {
+      write: chunk => writable.write(chunk),
+      close: () => writable.close(),
+      abort: () => writable.abort()
+    };
+  }
+
+  let blob = new Blob([], { type: 'application/zip' });
+  let parts: Uint8Array[] = [];
+  let partsSize = 0;
+
+  return {
+    write: async chunk => {
+      parts.push(chunk);
+      partsSize += chunk.length;
+      if (partsSize >= BLOB_FOLD_SIZE) {
+        blob = new Blob([blob, ...parts], { type: 'application/zip' });
+        parts = [];
+        partsSize = 0;
+      }
+    },
+    close: async () => {
+      downloadBlob(new Blob([blob, ...parts], { type: 'application/zip' }), filename);
+    },
+    abort: async () => {
+      parts = [];
+    }
+  };
+}
+
+export interface WriteZipBundleOptions {
+  entries: BundleEntry[];
+  manifest: BundleManifest;
+  sink: ZipSink;
+  // Called as each file downloads; total is 0 if the size is unknown
+  onFileProgress?: (index: number, loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export async function writeZipBundle({
+  entries,
+  manifest,
+  sink,
+  onFileProgress,
+  signal
+}: WriteZipBundleOptions): Promise<void> {
+  // fflate's callbacks are synchronous, so writes are chained and awaited
+  // after every chunk to keep the network from outrunning the sink
+  let pending: Promise<void> = Promise.resolve();
+  let zipError: Error | null = null;
+
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      zipError = error;
+      return;
+    }
+    pending = pending.then(() => sink.write(chunk));
+  });
+
+  try {
+    const manifestFile = new ZipDeflate(MANIFEST_PATH, { level: 6 });
+    zip.add(manifestFile);
+    manifestFile.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      const response = await fetchWithOfflineCache(entry.url, { signal });
+      if (!response.ok || !response.body) {
+        throw new ApiError(`Failed to download ${entry.path}`, response.status);
+      }
+
+      const total = Number(response.headers.get('content-length')) || entry.size || 0;
+      onFileProgress?.(index, 0, total);
+
+      // JSON compresses well; audio is stored as-is since deflate barely
+      // shrinks it and costs a lot of CPU
+      const file = entry.path.endsWith('.json')
+        ? new ZipDeflate(entry.path, { level: 6 })
+        : new ZipPassThrough(entry.path);
+      zip.add(file);
+
+      const reader = response.body.getReader();
+      let loaded = 0;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        file.push(value);
+        loaded += value.length;
+        onFileProgress?.(index, loaded, total);
+
+        await pending;
+        if (zipError) throw zipError;
+      }
+      file.push(new Uint8Array(0), true);
+      onFileProgress?.(index, loaded, loaded);
+    }
+
+    zip.end();
+    await pending;
+    if (zipError) throw zipError;
+
+    await sink.close();
+  } catch (error) {
+    zip.terminate();
+    await pending.catch(() => undefined);
+    await sink.abort().catch(() => undefined);
+    throw error;
+  }
+}
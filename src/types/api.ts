@@ -226,6 +226,29 @@ export interface ApiClientConfig {
   timeout?: number;
 }
 
+// Job Status Updates
+export type JobStatusTransport = 'websocket' | 'sse' | 'polling';
+
+export interface JobStatusSubscriptionOptions {
+  // Tried in order; a stream that can't connect falls back to the next one
+  transports?: JobStatusTransport[];
+  pollInterval?: number; // ms
+  maxRetries?: number; // failed polls in a row before giving up
+}
+
+export interface JobStatusHandlers {
+  onStatus: (status: JobStatusResponse) => void;
+  // A poll failed and will be retried after a backoff
+  onRetry?: (attempt: number, error: Error) => void;
+  // Updates have stopped for good
+  onError?: (error: Error) => void;
+  onTransportChange?: (transport: JobStatusTransport) => void;
+}
+
+export interface JobStatusSubscription {
+  close: () => void;
+}
+
 // Custom Error Types
 export class ApiError extends Error {
   constructor(
@@ -0,0 +1,22 @@
+// Encodes PCM to a compressed format off the main thread
+
+import { AUDIO_ENCODERS } from '@/lib/encoders';
+import { EncoderRequest, EncoderResponse } from '@/lib/encoders/types';
+
+const post = (message: EncoderResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<EncoderRequest>) => {
+  const { format, input, options } = event.data;
+
+  try {
+    const encoder = AUDIO_ENCODERS[format];
+    if (!encoder) {
+      throw new Error(`No encoder for format "${format}"`);
+    }
+
+    const blob = await encoder.encode(input, options, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', blob });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Encoding failed' });
+  }
+};
@@ -0,0 +1,16 @@
+// Tracks the pitch of the vocals stem off the main thread
+
+import { PitchWorkerRequest, PitchWorkerResponse, analyzePitch } from '@/lib/pitch';
+
+const post = (message: PitchWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<PitchWorkerRequest>) => {
+  const { samples, sampleRate } = event.data;
+
+  try {
+    const analysis = analyzePitch(samples, sampleRate, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', analysis });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Pitch analysis failed' });
+  }
+};
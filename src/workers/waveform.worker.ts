@@ -0,0 +1,15 @@
+// Computes stem waveform peaks off the main thread
+
+import { WaveformWorkerRequest, WaveformWorkerResponse, analyzeWaveform } from '@/lib/waveform';
+
+const post = (message: WaveformWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<WaveformWorkerRequest>) => {
+  const { samples, sampleRate, options } = event.data;
+
+  try {
+    post({ type: 'done', data: analyzeWaveform(samples, sampleRate, options) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Waveform analysis failed' });
+  }
+};